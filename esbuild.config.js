@@ -4,6 +4,7 @@ const path = require('path');
 
 const isWatch = process.argv.includes('--watch');
 const isProd = process.argv.includes('--prod');
+const isCli = process.argv.includes('--cli');
 
 // Ensure dist directory exists
 const distDir = path.join(__dirname, 'dist');
@@ -41,6 +42,28 @@ function copyStaticFiles() {
     console.warn('Warning: pdf.worker.min.mjs not found. Run npm install first.');
   }
 
+  // Copy OCR engine for scanned PDFs: tesseract worker, WASM cores and English
+  // language data, so OCR runs entirely from the extension package
+  const ocrDir = path.join(distDir, 'ocr');
+  if (!fs.existsSync(ocrDir)) {
+    fs.mkdirSync(ocrDir, { recursive: true });
+  }
+  const ocrFiles = [
+    ['tesseract.js/dist/worker.min.js', 'worker.min.js'],
+    ['tesseract.js-core/tesseract-core-lstm.wasm.js', 'tesseract-core-lstm.wasm.js'],
+    ['tesseract.js-core/tesseract-core-simd-lstm.wasm.js', 'tesseract-core-simd-lstm.wasm.js'],
+    ['tesseract.js-core/tesseract-core-relaxedsimd-lstm.wasm.js', 'tesseract-core-relaxedsimd-lstm.wasm.js'],
+    ['@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz', 'eng.traineddata.gz'],
+  ];
+  for (const [src, dest] of ocrFiles) {
+    const ocrSrc = path.join(__dirname, 'node_modules', src);
+    if (fs.existsSync(ocrSrc)) {
+      fs.copyFileSync(ocrSrc, path.join(ocrDir, dest));
+    } else {
+      console.warn(`Warning: ${src} not found. Run npm install first.`);
+    }
+  }
+
   // Copy assets (icons)
   const assetsDir = path.join(distDir, 'assets');
   if (!fs.existsSync(assetsDir)) {
@@ -85,9 +108,28 @@ const buildOptions = {
   },
 };
 
+// Headless parser CLI (Node). pdf.js stays external and uses its Node-compatible
+// legacy build so its worker resolves from node_modules at runtime. OCR needs a
+// DOM canvas and never runs here, so tesseract.js isn't bundled either.
+const cliBuildOptions = {
+  entryPoints: ['src/cli/parse-invoices.ts'],
+  bundle: true,
+  outfile: 'dist-cli/parse-invoices.mjs',
+  platform: 'node',
+  format: 'esm',
+  target: 'node18',
+  logLevel: 'warning',
+  alias: {
+    'pdfjs-dist': 'pdfjs-dist/legacy/build/pdf.mjs',
+  },
+  external: ['pdfjs-dist/legacy/build/pdf.mjs', 'tesseract.js'],
+};
+
 async function build() {
   try {
-    if (isWatch) {
+    if (isCli) {
+      await esbuild.build(cliBuildOptions);
+    } else if (isWatch) {
       // Watch mode
       const ctx = await esbuild.context(buildOptions);
       await ctx.watch();
@@ -0,0 +1,275 @@
+import { readdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { parseCultiveraInvoice } from '../lib/pdf-parser';
+import { PDFParseResult, ScrapedOrderData, ScrapedField, FieldConfidence } from '../lib/types';
+
+/**
+ * Headless invoice parser.
+ * Runs the extension's PDF parsing over a folder of PDFs and prints the
+ * extracted fields, or checks them against stored expected-output fixtures.
+ *
+ * Usage:
+ *   npm run parse-pdfs -- <folder> [--format json|csv]
+ *   npm run parse-pdfs -- <folder> --check    Compare with <name>.expected.json
+ *   npm run parse-pdfs -- <folder> --update   Rewrite <name>.expected.json
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface CliOptions {
+  folder: string;
+  format: 'json' | 'csv';
+  mode: 'print' | 'check' | 'update';
+}
+
+// The parts of a parse result that fixtures pin down (no raw text or snippets,
+// which churn without the extracted values changing)
+interface ParseSnapshot {
+  success: boolean;
+  template: string | null;
+  data: ScrapedOrderData | null;
+  confidence: Partial<Record<ScrapedField, FieldConfidence>>;
+  errors: string[];
+  warnings: string[];
+}
+
+const USAGE = 'Usage: parse-invoices <folder> [--format json|csv] [--check | --update]';
+
+// ============================================================================
+// Arguments
+// ============================================================================
+
+/**
+ * Parse command-line arguments
+ */
+function parseArgs(argv: string[]): CliOptions | null {
+  const options: CliOptions = { folder: '', format: 'json', mode: 'print' };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--format') {
+      const format = argv[++i];
+      if (format !== 'json' && format !== 'csv') {
+        return null;
+      }
+      options.format = format;
+    } else if (arg === '--check') {
+      options.mode = 'check';
+    } else if (arg === '--update') {
+      options.mode = 'update';
+    } else if (!arg.startsWith('--') && !options.folder) {
+      options.folder = arg;
+    } else {
+      return null;
+    }
+  }
+
+  return options.folder ? options : null;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse one PDF from disk through the same code path as the popup
+ */
+async function parseFile(filePath: string): Promise<PDFParseResult> {
+  const buffer = await readFile(filePath);
+  const file = new File([buffer], path.basename(filePath), { type: 'application/pdf' });
+  return parseCultiveraInvoice(file);
+}
+
+/**
+ * Reduce a parse result to the fields fixtures compare
+ */
+function toSnapshot(result: PDFParseResult): ParseSnapshot {
+  const confidence: Partial<Record<ScrapedField, FieldConfidence>> = {};
+  for (const [field, provenance] of Object.entries(result.fields || {})) {
+    confidence[field as ScrapedField] = provenance.confidence;
+  }
+
+  return {
+    success: result.success,
+    template: result.template?.id || null,
+    data: result.data || null,
+    confidence,
+    errors: result.errors,
+    warnings: result.warnings,
+  };
+}
+
+// ============================================================================
+// Output
+// ============================================================================
+
+/**
+ * Quote a value for CSV
+ */
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format snapshots as CSV, one row per PDF
+ */
+function toCsv(rows: Array<{ file: string; snapshot: ParseSnapshot }>): string {
+  const header = [
+    'file',
+    'success',
+    'template',
+    'order_number',
+    'customer_name',
+    'customer_email',
+    'amount_due',
+    'line_items',
+    'errors',
+    'warnings',
+  ];
+
+  const lines = rows.map(({ file, snapshot }) =>
+    [
+      file,
+      snapshot.success,
+      snapshot.template,
+      snapshot.data?.order_number,
+      snapshot.data?.customer_name,
+      snapshot.data?.customer_email,
+      snapshot.data?.amount_due,
+      snapshot.data?.line_items?.length ?? '',
+      snapshot.errors.join(' | '),
+      snapshot.warnings.join(' | '),
+    ]
+      .map(csvCell)
+      .join(',')
+  );
+
+  return [header.join(','), ...lines].join('\n');
+}
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+/**
+ * Path of the expected-output fixture stored next to a PDF
+ */
+function fixturePath(pdfPath: string): string {
+  return pdfPath.replace(/\.pdf$/i, '.expected.json');
+}
+
+/**
+ * List the differences between expected and actual values as "path: expected X, got Y"
+ */
+function diffValues(expected: unknown, actual: unknown, keyPath = ''): string[] {
+  if (
+    expected !== null &&
+    actual !== null &&
+    typeof expected === 'object' &&
+    typeof actual === 'object' &&
+    Array.isArray(expected) === Array.isArray(actual)
+  ) {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    const diffs: string[] = [];
+    for (const key of keys) {
+      diffs.push(
+        ...diffValues(
+          (expected as Record<string, unknown>)[key],
+          (actual as Record<string, unknown>)[key],
+          keyPath ? `${keyPath}.${key}` : key
+        )
+      );
+    }
+    return diffs;
+  }
+
+  if (JSON.stringify(expected) === JSON.stringify(actual)) {
+    return [];
+  }
+
+  return [`${keyPath || '(root)'}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`];
+}
+
+/**
+ * Compare a snapshot with its stored fixture; returns the differences found
+ */
+async function checkFixture(pdfPath: string, snapshot: ParseSnapshot): Promise<string[]> {
+  let expected: ParseSnapshot;
+  try {
+    expected = JSON.parse(await readFile(fixturePath(pdfPath), 'utf8'));
+  } catch {
+    return [`missing fixture ${path.basename(fixturePath(pdfPath))} (run with --update to create it)`];
+  }
+
+  return diffValues(expected, snapshot);
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    console.error(USAGE);
+    process.exitCode = 2;
+    return;
+  }
+
+  const entries = await readdir(options.folder);
+  const pdfs = entries.filter((name) => name.toLowerCase().endsWith('.pdf')).sort();
+
+  if (pdfs.length === 0) {
+    console.error(`No PDF files found in ${options.folder}`);
+    process.exitCode = 2;
+    return;
+  }
+
+  const rows: Array<{ file: string; snapshot: ParseSnapshot }> = [];
+  let failures = 0;
+
+  for (const name of pdfs) {
+    const pdfPath = path.join(options.folder, name);
+    const snapshot = toSnapshot(await parseFile(pdfPath));
+    rows.push({ file: name, snapshot });
+
+    if (options.mode === 'update') {
+      await writeFile(fixturePath(pdfPath), `${JSON.stringify(snapshot, null, 2)}\n`);
+      console.log(`updated ${path.basename(fixturePath(pdfPath))}`);
+    } else if (options.mode === 'check') {
+      const diffs = await checkFixture(pdfPath, snapshot);
+      if (diffs.length === 0) {
+        console.log(`ok   ${name}`);
+      } else {
+        failures++;
+        console.log(`FAIL ${name}`);
+        for (const diff of diffs) {
+          console.log(`       ${diff}`);
+        }
+      }
+    }
+  }
+
+  if (options.mode === 'print') {
+    console.log(
+      options.format === 'csv'
+        ? toCsv(rows)
+        : JSON.stringify(rows.map(({ file, snapshot }) => ({ file, ...snapshot })), null, 2)
+    );
+  }
+
+  if (options.mode === 'check') {
+    console.log(`\n${pdfs.length - failures}/${pdfs.length} fixtures match`);
+    if (failures > 0) {
+      process.exitCode = 1;
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
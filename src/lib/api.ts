@@ -1,19 +1,46 @@
 import { getAccessToken, SUPABASE_URL, SUPABASE_ANON_KEY } from './supabase';
+import { addPendingInvoiceJob, removePendingInvoiceJob } from './storage';
 import {
+  CancelInvoiceRequest,
+  CancelInvoiceResponse,
   CreateInvoiceRequest,
   CreateInvoiceResponse,
+  InvoiceJobResponse,
   OrderStatusResponse,
   ParsedOrderData,
+  PaymentStatus,
+  PaymentTerms,
+  PaymentTermsResponse,
+  InvoiceDeliverySettings,
+  QueuedInvoiceResponse,
+  SquareErrorKind,
+  SquareLocationResponse,
 } from './types';
 
 // Edge Function endpoint
 const EDGE_FUNCTION_URL = `${SUPABASE_URL}/functions/v1/create-square-invoice`;
+const CANCEL_FUNCTION_URL = `${SUPABASE_URL}/functions/v1/cancel-square-invoice`;
+
+// Queued invoices are polled until the worker finishes them or this runs out
+const JOB_POLL_INTERVAL_MS = 1500;
+const JOB_WAIT_LIMIT_MS = 3 * 60 * 1000;
+// A job the status lookup keeps coming back empty for is given up on
+const JOB_LOOKUP_MISS_LIMIT = 5;
 
 /**
- * Create a Square invoice from Cultivera order data
+ * Create a Square invoice from Cultivera order data, or with `amend` update
+ * the order's existing unpaid invoice to match it. New invoices are queued
+ * and sent by a worker; this follows the job to its outcome, reporting each
+ * poll to `onProgress`.
  */
 export async function createInvoice(
-  orderData: ParsedOrderData
+  orderData: ParsedOrderData,
+  options: {
+    amend?: boolean;
+    squareCustomerId?: string;
+    createCustomer?: boolean;
+    onProgress?: (job: InvoiceJobResponse) => void;
+  } = {}
 ): Promise<CreateInvoiceResponse> {
   const accessToken = await getAccessToken();
 
@@ -33,6 +60,22 @@ export async function createInvoice(
     customer_name: orderData.customer_name,
     customer_email: orderData.customer_email,
     amount_cents: orderData.amount_cents,
+    line_items: orderData.line_items,
+    adjustments: orderData.adjustments,
+    license_number: orderData.license_number,
+    manifest_number: orderData.manifest_number,
+    customer_phone: orderData.customer_phone,
+    ship_to_address: orderData.ship_to_address,
+    seller_license: orderData.seller_license,
+    brand: orderData.brand,
+    payment_terms: orderData.payment_terms,
+    payment_schedule: orderData.payment_schedule,
+    reminder_days: orderData.reminder_days,
+    send_date: orderData.send_date,
+    overrides: orderData.overrides,
+    amend: options.amend,
+    square_customer_id: options.squareCustomerId,
+    create_customer: options.createCustomer,
     request_timestamp: new Date().toISOString(),
   };
 
@@ -67,6 +110,12 @@ export async function createInvoice(
       };
     }
 
+    if (response.status === 202 && data.data?.job_id) {
+      const queued = data as QueuedInvoiceResponse;
+      await addPendingInvoiceJob(queued.data.job_id, orderData.order_number);
+      return await waitForInvoiceJob(queued.data.job_id, options.onProgress);
+    }
+
     return data as CreateInvoiceResponse;
   } catch (error) {
     const message =
@@ -85,6 +134,178 @@ export async function createInvoice(
   }
 }
 
+/**
+ * Get a queued invoice's status. Returns null if the lookup fails.
+ */
+export async function getInvoiceJob(jobId: string): Promise<InvoiceJobResponse | null> {
+  const accessToken = await getAccessToken();
+
+  if (!accessToken) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/rpc/get_invoice_job`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+          apikey: SUPABASE_ANON_KEY,
+        },
+        body: JSON.stringify({ check_job_id: jobId }),
+      }
+    );
+
+    if (!response.ok) {
+      console.log('[API] getInvoiceJob error:', await response.text());
+      return null;
+    }
+
+    const data = await response.json();
+    if (!data || data.length === 0) {
+      return null;
+    }
+
+    const job = data[0];
+    return {
+      job_id: job.job_id,
+      correlation_id: job.correlation_id,
+      order_number: job.order_number,
+      status: job.status,
+      steps_completed: job.steps_completed ?? [],
+      result: job.result,
+      error: job.error,
+    };
+  } catch (error) {
+    console.error('[API] getInvoiceJob exception:', error);
+    return null;
+  }
+}
+
+/**
+ * Poll a queued invoice until the worker finishes it, as a createInvoice
+ * result. A finished job is forgotten, as is one the lookup can't find
+ * JOB_LOOKUP_MISS_LIMIT times running; one still running when the wait runs
+ * out stays pending for the next time the popup opens.
+ */
+export async function waitForInvoiceJob(
+  jobId: string,
+  onProgress?: (job: InvoiceJobResponse) => void
+): Promise<CreateInvoiceResponse> {
+  const waitUntil = Date.now() + JOB_WAIT_LIMIT_MS;
+  let misses = 0;
+
+  while (Date.now() < waitUntil) {
+    // A failed lookup is retried on the next poll, up to the miss limit
+    const job = await getInvoiceJob(jobId);
+
+    if (job?.status === 'succeeded' || job?.status === 'failed') {
+      await removePendingInvoiceJob(jobId);
+      return job.status === 'succeeded'
+        ? { success: true, correlation_id: job.correlation_id, data: job.result ?? undefined }
+        : { success: false, correlation_id: job.correlation_id, error: job.error ?? undefined };
+    }
+    if (job) {
+      misses = 0;
+      onProgress?.(job);
+    } else if (++misses >= JOB_LOOKUP_MISS_LIMIT) {
+      await removePendingInvoiceJob(jobId);
+      return {
+        success: false,
+        correlation_id: '',
+        error: {
+          code: 'JOB_NOT_FOUND',
+          message: 'Could not look up how sending this invoice went. Check the order before sending it again.',
+        },
+      };
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+  }
+
+  return {
+    success: false,
+    correlation_id: '',
+    error: {
+      code: 'JOB_STILL_RUNNING',
+      message: 'The invoice is still being sent. Reopen the extension in a minute to see how it went.',
+    },
+  };
+}
+
+/**
+ * Cancel (or delete, if still a draft) an order's Square invoice and mark the
+ * order voided so it can be invoiced again
+ */
+export async function cancelInvoice(
+  orderNumber: string,
+  reason: string
+): Promise<CancelInvoiceResponse> {
+  const accessToken = await getAccessToken();
+
+  if (!accessToken) {
+    return {
+      success: false,
+      correlation_id: '',
+      error: {
+        code: 'AUTH_MISSING',
+        message: 'Please sign in to use the extension. Click the extension icon to log in.',
+      },
+    };
+  }
+
+  const requestBody: CancelInvoiceRequest = {
+    order_number: orderNumber,
+    reason,
+    request_timestamp: new Date().toISOString(),
+  };
+
+  try {
+    const response = await fetch(CANCEL_FUNCTION_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${accessToken}`,
+        apikey: SUPABASE_ANON_KEY,
+      },
+      body: JSON.stringify(requestBody),
+    });
+
+    const data = await response.json();
+    console.log('[API] cancelInvoice response:', response.status, data);
+
+    // Handle Supabase auth errors (different format than our edge function)
+    if (data.code && data.message && !('success' in data)) {
+      return {
+        success: false,
+        correlation_id: '',
+        error: {
+          code: data.code === 401 ? 'AUTH_INVALID' : 'INTERNAL_ERROR',
+          message: data.message,
+        },
+      };
+    }
+
+    return data as CancelInvoiceResponse;
+  } catch (error) {
+    const message =
+      error instanceof Error
+        ? error.message
+        : 'Unable to connect. Check internet connection.';
+
+    return {
+      success: false,
+      correlation_id: '',
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: `Network error: ${message}`,
+      },
+    };
+  }
+}
+
 /**
  * Check if an order has already been processed
  */
@@ -138,6 +359,13 @@ export async function checkOrderStatus(
       completed_at: order.completed_at,
       customer_name: order.customer_name,
       amount_cents: order.amount_cents,
+      payment_status: order.payment_status ?? undefined,
+      paid_amount_cents: order.paid_amount_cents ?? undefined,
+      due_date: order.due_date ?? undefined,
+      line_items: order.line_items ?? undefined,
+      adjustments: order.adjustments ?? undefined,
+      amendment_count: order.amendment_count ?? undefined,
+      steps_completed: order.steps_completed ?? undefined,
     };
   } catch (error) {
     console.error('[API] checkOrderStatus exception:', error);
@@ -145,6 +373,184 @@ export async function checkOrderStatus(
   }
 }
 
+/**
+ * Look up the payment terms the edge function will apply to a customer.
+ * Returns null if the lookup fails; the server resolves terms again on send.
+ */
+export async function getPaymentTerms(
+  customerEmail: string,
+  licenseNumber?: string
+): Promise<PaymentTermsResponse | null> {
+  const accessToken = await getAccessToken();
+
+  if (!accessToken) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/rpc/get_payment_terms`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+          apikey: SUPABASE_ANON_KEY,
+        },
+        body: JSON.stringify({
+          check_customer_email: customerEmail,
+          check_license_number: licenseNumber ?? null,
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      console.log('[API] getPaymentTerms error:', await response.text());
+      return null;
+    }
+
+    const data = await response.json();
+    return data && data.length > 0 ? { terms: data[0].terms, source: data[0].source } : null;
+  } catch (error) {
+    console.error('[API] getPaymentTerms exception:', error);
+    return null;
+  }
+}
+
+/**
+ * Get the Square location mapped to a seller's license or brand.
+ * Returns null for sellers without a mapping (the default location) or if
+ * the lookup fails; the server resolves the location itself either way.
+ */
+export async function getSquareLocation(
+  sellerLicense?: string,
+  brand?: string
+): Promise<SquareLocationResponse | null> {
+  if (!sellerLicense && !brand) {
+    return null;
+  }
+
+  const accessToken = await getAccessToken();
+
+  if (!accessToken) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/rpc/get_square_location`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+          apikey: SUPABASE_ANON_KEY,
+        },
+        body: JSON.stringify({
+          check_seller_license: sellerLicense ?? null,
+          check_brand: brand ?? null,
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      console.log('[API] getSquareLocation error:', await response.text());
+      return null;
+    }
+
+    const data = await response.json();
+    return data && data.length > 0
+      ? { square_location_id: data[0].square_location_id, location_name: data[0].location_name, source: data[0].source }
+      : null;
+  } catch (error) {
+    console.error('[API] getSquareLocation exception:', error);
+    return null;
+  }
+}
+
+/**
+ * Get the organization's default reminder schedule and send delay.
+ * Returns null if the lookup fails; the server applies the defaults itself.
+ */
+export async function getInvoiceDeliverySettings(): Promise<InvoiceDeliverySettings | null> {
+  const accessToken = await getAccessToken();
+
+  if (!accessToken) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/rpc/get_invoice_delivery_settings`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+          apikey: SUPABASE_ANON_KEY,
+        },
+        body: JSON.stringify({}),
+      }
+    );
+
+    if (!response.ok) {
+      console.log('[API] getInvoiceDeliverySettings error:', await response.text());
+      return null;
+    }
+
+    const data = await response.json();
+    return data && data.length > 0
+      ? { reminder_days: data[0].reminder_days, send_delay_days: data[0].send_delay_days }
+      : null;
+  } catch (error) {
+    console.error('[API] getInvoiceDeliverySettings exception:', error);
+    return null;
+  }
+}
+
+/**
+ * Format payment terms for display
+ */
+export function formatPaymentTerms(terms: PaymentTerms): string {
+  const labels: Record<PaymentTerms, string> = {
+    COD: 'COD',
+    NET_15: 'Net 15',
+    NET_30: 'Net 30',
+    NET_45: 'Net 45',
+  };
+
+  return labels[terms];
+}
+
+/**
+ * Format an invoice's payment status for display, with the amount paid so far
+ * when it's only partly paid
+ */
+export function formatPaymentStatus(status: OrderStatusResponse): string | null {
+  if (!status.payment_status) {
+    return null;
+  }
+
+  const labels: Record<PaymentStatus, string> = {
+    UNPAID: 'Unpaid',
+    SCHEDULED: 'Scheduled',
+    PARTIALLY_PAID: 'Partially paid',
+    PAID: 'Paid',
+    OVERDUE: 'Overdue',
+    PARTIALLY_REFUNDED: 'Partially refunded',
+    REFUNDED: 'Refunded',
+    CANCELED: 'Canceled',
+    PAYMENT_FAILED: 'Payment failed',
+  };
+
+  const label = labels[status.payment_status];
+  const partlyPaid = status.payment_status === 'PARTIALLY_PAID' || status.payment_status === 'OVERDUE';
+  if (partlyPaid && status.paid_amount_cents && status.amount_cents) {
+    return `${label} (${formatCurrency(status.paid_amount_cents)} of ${formatCurrency(status.amount_cents)})`;
+  }
+  return label;
+}
+
 /**
  * Format currency amount from cents
  */
@@ -168,15 +574,27 @@ export function getErrorTitle(code: string): string {
     VALIDATION_INVALID_EMAIL: 'Invalid Email',
     VALIDATION_INVALID_AMOUNT: 'Invalid Amount',
     VALIDATION_INVALID_ORDER: 'Invalid Order',
+    VALIDATION_INVALID_SCHEDULE: 'Invalid Payment Schedule',
     DUPLICATE_ORDER: 'Duplicate Order',
     RATE_LIMITED_USER: 'Too Many Requests',
     RATE_LIMITED_GLOBAL: 'System Busy',
     REPLAY_REJECTED: 'Request Expired',
     SQUARE_API_ERROR: 'Square Error',
     SQUARE_CUSTOMER_ERROR: 'Customer Error',
+    CUSTOMER_MATCH_AMBIGUOUS: 'Choose Customer',
     SQUARE_ORDER_ERROR: 'Order Error',
+    SQUARE_TOTAL_MISMATCH: 'Total Mismatch',
     SQUARE_INVOICE_ERROR: 'Invoice Error',
     SQUARE_PUBLISH_ERROR: 'Invoice Send Error',
+    ORDER_NOT_FOUND: 'Nothing to Void',
+    INVOICE_NOT_CANCELABLE: 'Cannot Void',
+    SQUARE_CANCEL_ERROR: 'Void Failed',
+    INVOICE_NOT_AMENDABLE: 'Cannot Amend',
+    SQUARE_AMEND_ERROR: 'Amend Failed',
+    ORDER_INTERRUPTED: 'Sending Interrupted',
+    ORDER_NEEDS_ATTENTION: 'Needs Checking',
+    JOB_STILL_RUNNING: 'Still Sending',
+    JOB_NOT_FOUND: 'Status Unknown',
     INTERNAL_ERROR: 'Something Went Wrong',
   };
 
@@ -202,6 +620,8 @@ export function getErrorMessage(code: string, defaultMessage: string): string {
       'Amount appears invalid (negative or exceeds maximum). Verify the order total in Cultivera.',
     VALIDATION_INVALID_ORDER:
       'Invalid order number format. Please verify the order in Cultivera.',
+    VALIDATION_INVALID_SCHEDULE:
+      'The deposit or installments must add up to the order total, with due dates in order on or after the send date.',
     DUPLICATE_ORDER:
       'Invoice already sent for this order. View in Square Dashboard.',
     RATE_LIMITED_USER:
@@ -212,14 +632,46 @@ export function getErrorMessage(code: string, defaultMessage: string): string {
     SQUARE_API_ERROR: 'Square error. Try again or contact admin.',
     SQUARE_CUSTOMER_ERROR:
       'Could not create or find customer in Square. Please try again.',
+    CUSTOMER_MATCH_AMBIGUOUS:
+      'Several Square customers could be this buyer. Choose one, or create a new customer.',
     SQUARE_ORDER_ERROR:
       'Could not create order in Square. Please try again.',
+    SQUARE_TOTAL_MISMATCH:
+      'Square calculated a different total than the PDF. Check the discounts, taxes and fees before sending.',
     SQUARE_INVOICE_ERROR:
       'Could not create invoice in Square. Please try again.',
     SQUARE_PUBLISH_ERROR:
       'Invoice created but could not be sent. Check Square Dashboard.',
+    ORDER_NOT_FOUND: 'No sent invoice was found for this order.',
+    INVOICE_NOT_CANCELABLE:
+      'This invoice has been paid or refunded and cannot be voided. Refund it from the Square Dashboard.',
+    SQUARE_CANCEL_ERROR:
+      'Could not cancel the invoice in Square. Try again or cancel it from the Square Dashboard.',
+    INVOICE_NOT_AMENDABLE:
+      'This invoice has payments against it, or a deposit or installments, and cannot be amended. Void it or adjust it in the Square Dashboard.',
+    SQUARE_AMEND_ERROR:
+      'Could not update the order in Square. The invoice was not changed; please try again.',
+    ORDER_INTERRUPTED:
+      'Sending this invoice was interrupted. Send it again to carry on where it stopped.',
+    ORDER_NEEDS_ATTENTION:
+      'Sending this order was interrupted and Square does not match it. An admin needs to check it in Square before it can be sent again.',
+    JOB_STILL_RUNNING:
+      'The invoice is still being sent. Reopen the extension in a minute to see how it went.',
+    JOB_NOT_FOUND:
+      'Could not look up how sending this invoice went. Check the order before sending it again.',
     INTERNAL_ERROR: 'An unexpected error occurred. Please try again.',
   };
 
   return errorMessages[code] || defaultMessage;
 }
+
+/**
+ * Get the message for a failed request. Square rejections and credential
+ * problems keep the server's message, since the generic one says to retry.
+ */
+export function getFailureMessage(error: { code: string; message: string; kind?: SquareErrorKind }): string {
+  if (error.kind === 'validation' || error.kind === 'auth') {
+    return error.message;
+  }
+  return getErrorMessage(error.code, error.message);
+}
@@ -0,0 +1,785 @@
+import {
+  PDFContent,
+  PDFPageLayout,
+  PDFTextRow,
+  ScrapedField,
+  ScrapedDetailField,
+  ScrapedLineItem,
+  ScrapedTotals,
+  AdjustmentType,
+  FieldConfidence,
+  FieldProvenance,
+} from './types';
+import { valueRightOf, valueBelow, blockBelow, linesAbove, LayoutValue } from './pdf-layout';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Characters of context kept either side of a regex match for provenance snippets
+const SNIPPET_CONTEXT_CHARS = 40;
+
+// US phone number as printed, e.g. "(540) 555-0100", "540.555.0100", "+1 540 555 0100"
+const PHONE_PATTERN = /(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}/;
+
+// License label as printed in address blocks, capturing the license number
+const LICENSE_PATTERN = /License\s*(?:#|No\.?|Number)?\s*:?\s*([A-Z0-9][A-Z0-9-]{3,})/i;
+
+// Letterhead lines that name the software or document rather than the seller
+const LETTERHEAD_BANNER_PATTERN = /^(?:Cultivera\b|(?:Tax\s+)?Invoice$)/i;
+
+// Most lines an address block (name, street, city, license, phone, email) spans
+const ADDRESS_BLOCK_MAX_LINES = 8;
+// Last line of a US address, e.g. "Harrisonburg, VA 22801"
+const CITY_LINE_PATTERN = /,?\s*[A-Z]{2}\s+\d{5}(-\d{4})?$/;
+
+// Totals-block amount, including discounts printed as "-$10.00" or "($10.00)"
+const TOTALS_AMOUNT_SOURCE = '(?:-\\s*\\$?|\\(\\s*\\$?|\\$\\s*-?)?\\s*[\\d,]+\\.\\d{2}\\)?';
+const TOTALS_AMOUNT_PATTERN = new RegExp(`^${TOTALS_AMOUNT_SOURCE}$`);
+// Label and amount set close enough together to share a cell
+const TOTALS_ROW_PATTERN = new RegExp(`^(.*[A-Za-z].*?)\\s+(${TOTALS_AMOUNT_SOURCE})$`);
+
+const SUBTOTAL_LABEL = /^Sub\s*-?\s*Total\b/i;
+
+// Totals-block labels, most specific first ("Delivery Tax" is a tax, not a fee)
+const ADJUSTMENT_LABELS: Array<[AdjustmentType, RegExp]> = [
+  ['discount', /\b(?:Discounts?|Promo(?:tion)?|Coupon)\b/i],
+  ['tax', /\bTax(?:es)?\b(?!\s*(?:ID|#|Exempt))/i],
+  ['fee', /\b(?:Delivery|Shipping|Freight|Transport(?:ation)?|Handling)\b|\bFees?\b/i],
+];
+
+// Units that appear in the quantity column of product rows
+const LINE_ITEM_UNITS = 'Each|Ea|Units?|Grams?|g|Ounces?|oz|Pounds?|lbs?|Cases?|Packs?|Pk';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A field value together with how it was found
+ */
+export interface ExtractedField {
+  value: string;
+  provenance: FieldProvenance;
+}
+
+export type FieldExtractor = (content: PDFContent) => ExtractedField | null;
+
+export type TemplateExtractors = Record<ScrapedField, FieldExtractor> &
+  Partial<Record<ScrapedDetailField, FieldExtractor>> & {
+    line_items: (content: PDFContent) => ScrapedLineItem[];
+    totals: (content: PDFContent) => ScrapedTotals;
+  };
+
+/**
+ * A PDF layout the parser understands: how to recognise it and how to read its fields
+ */
+export interface InvoiceTemplate {
+  id: string;
+  name: string;
+  minScore: number; // detect() score required before the template is considered
+  detect: (content: PDFContent) => number; // 0 (no match) to 1 (certain)
+  extractors: TemplateExtractors;
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const templates: InvoiceTemplate[] = [];
+
+/**
+ * Register a template. Registering an existing id replaces it in place.
+ * Earlier registrations win ties when two templates score the same.
+ */
+export function registerInvoiceTemplate(template: InvoiceTemplate): void {
+  const index = templates.findIndex((existing) => existing.id === template.id);
+  if (index >= 0) {
+    templates[index] = template;
+  } else {
+    templates.push(template);
+  }
+}
+
+/**
+ * Get all registered templates in priority order
+ */
+export function getInvoiceTemplates(): readonly InvoiceTemplate[] {
+  return templates;
+}
+
+/**
+ * Pick the registered template that best matches the PDF, or null if none clears its threshold
+ */
+export function selectInvoiceTemplate(
+  content: PDFContent
+): { template: InvoiceTemplate; score: number } | null {
+  let best: { template: InvoiceTemplate; score: number } | null = null;
+
+  for (const template of templates) {
+    const score = template.detect(content);
+    if (score >= template.minScore && (!best || score > best.score)) {
+      best = { template, score };
+    }
+  }
+
+  return best;
+}
+
+// ============================================================================
+// Shared Extraction Helpers
+// ============================================================================
+
+/**
+ * Fraction of indicator patterns found in the text
+ */
+function indicatorScore(text: string, indicators: RegExp[]): number {
+  const matches = indicators.filter((pattern) => pattern.test(text)).length;
+  return matches / indicators.length;
+}
+
+/**
+ * Build an extracted field from a layout lookup
+ */
+function fromLayout(
+  value: string,
+  found: LayoutValue,
+  pattern: string,
+  confidence: FieldConfidence
+): ExtractedField {
+  return {
+    value,
+    provenance: { pattern, confidence, snippet: found.snippet, page: found.pageNumber },
+  };
+}
+
+/**
+ * Build an extracted field from a regex match against the flat text
+ */
+function fromText(
+  value: string,
+  text: string,
+  index: number,
+  length: number,
+  pattern: string,
+  confidence: FieldConfidence
+): ExtractedField {
+  const snippet = text
+    .slice(Math.max(0, index - SNIPPET_CONTEXT_CHARS), index + length + SNIPPET_CONTEXT_CHARS)
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  // Pages are joined with newlines, so the page is one more than the newlines before the match
+  const page = text.slice(0, index).split('\n').length;
+
+  return { value, provenance: { pattern, confidence, snippet, page } };
+}
+
+/**
+ * Look up a value to the right of a label (high confidence), then below it (medium),
+ * keeping the first capture group of valuePattern
+ */
+function extractLabelledValue(
+  layout: PDFPageLayout[],
+  label: RegExp,
+  labelName: string,
+  valuePattern: RegExp
+): ExtractedField | null {
+  const lookups: Array<[LayoutValue | null, string, FieldConfidence]> = [
+    [valueRightOf(layout, label), `layout: right of "${labelName}"`, 'high'],
+    [valueBelow(layout, label), `layout: below "${labelName}"`, 'medium'],
+  ];
+
+  for (const [found, pattern, confidence] of lookups) {
+    const match = found?.text.match(valuePattern);
+    if (found && match) {
+      return fromLayout(match[1], found, pattern, confidence);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Try text patterns in order and return the first match's capture group
+ */
+function extractFromTextPatterns(
+  text: string,
+  patterns: Array<[RegExp, FieldConfidence]>,
+  accept: (value: string) => boolean = () => true
+): ExtractedField | null {
+  for (const [pattern, confidence] of patterns) {
+    const match = text.match(pattern);
+    if (match && accept(match[1])) {
+      return fromText(match[1], text, match.index!, match[0].length, pattern.source, confidence);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Take the first plausible name from a labelled address block (Ship To, Bill To, ...)
+ */
+function extractNameFromBlock(
+  layout: PDFPageLayout[],
+  label: RegExp,
+  labelName: string
+): ExtractedField | null {
+  const lines = blockBelow(layout, label, 3);
+  for (let i = 0; i < lines.length; i++) {
+    const name = cleanCustomerName(lines[i].text);
+    if (name) {
+      return fromLayout(
+        name,
+        lines[i],
+        `layout: ${labelName} block line ${i + 1}`,
+        i === 0 ? 'high' : 'medium'
+      );
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the first line of an address block matching a pattern and keep its first capture group
+ */
+function extractFromBlock(
+  layout: PDFPageLayout[],
+  label: RegExp,
+  labelName: string,
+  valuePattern: RegExp,
+  what: string
+): ExtractedField | null {
+  for (const line of blockBelow(layout, label, ADDRESS_BLOCK_MAX_LINES)) {
+    const match = line.text.match(valuePattern);
+    if (match) {
+      return fromLayout(match[1] ?? match[0], line, `layout: ${labelName} block ${what}`, 'high');
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Take the street and city lines of an address block, skipping the name,
+ * license, phone and email lines. Lines are returned newline separated.
+ */
+function extractAddressFromBlock(
+  layout: PDFPageLayout[],
+  label: RegExp,
+  labelName: string
+): ExtractedField | null {
+  const lines = blockBelow(layout, label, ADDRESS_BLOCK_MAX_LINES);
+  const nameIndex = lines.findIndex((line) => cleanCustomerName(line.text) !== null);
+
+  const candidates = lines.slice(nameIndex + 1).filter((line) =>
+    !LICENSE_PATTERN.test(line.text) &&
+    !/^(Phone|Tel|Email|Manifest)\b/i.test(line.text) &&
+    !line.text.includes('@') &&
+    !new RegExp(`^${PHONE_PATTERN.source}$`).test(line.text.trim())
+  );
+
+  // The "City, ST 12345" line ends the address; anything after it belongs to
+  // whatever follows the block (often the line-item table header)
+  const cityIndex = candidates.findIndex((line) => CITY_LINE_PATTERN.test(line.text));
+  const hasCityLine = cityIndex !== -1;
+  const addressLines = hasCityLine ? candidates.slice(0, cityIndex + 1) : candidates;
+
+  if (addressLines.length === 0) {
+    return null;
+  }
+
+  // Without a city line the block may have been cut short
+
+  return fromLayout(
+    addressLines.map((line) => line.text).join('\n'),
+    addressLines[0],
+    `layout: ${labelName} block address`,
+    hasCityLine ? 'high' : 'medium'
+  );
+}
+
+/**
+ * Find the seller's license in the letterhead above the customer block
+ */
+function extractSellerLicense(
+  layout: PDFPageLayout[],
+  label: RegExp,
+  labelName: string
+): ExtractedField | null {
+  for (const line of linesAbove(layout, label)) {
+    const match = line.text.match(LICENSE_PATTERN);
+    if (match) {
+      return fromLayout(match[1], line, `layout: above ${labelName} license`, 'high');
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Take the seller's name (the brand it invoices under) from the letterhead
+ * above the customer block
+ */
+function extractSellerBrand(
+  layout: PDFPageLayout[],
+  label: RegExp,
+  labelName: string
+): ExtractedField | null {
+  for (const line of linesAbove(layout, label)) {
+    if (LETTERHEAD_BANNER_PATTERN.test(line.text) || LICENSE_PATTERN.test(line.text)) {
+      continue;
+    }
+    const name = cleanCustomerName(line.text);
+    if (name) {
+      return fromLayout(name, line, `layout: above ${labelName} name`, 'medium');
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate and tidy a customer name candidate; null if it isn't a plausible name
+ */
+function cleanCustomerName(candidate: string): string | null {
+  let name = candidate.trim();
+
+  // Skip if it's just numbers or too short
+  if (name.length < 2 || /^\d+$/.test(name)) {
+    return null;
+  }
+
+  // Skip if it looks like an address (starts with numbers followed by street)
+  if (/^\d+\s+(N|S|E|W|North|South|East|West|\w+\s+(St|Ave|Rd|Blvd|Dr|Ln))/i.test(name)) {
+    return null;
+  }
+
+  // Skip labels, emails and phone numbers that sit in the same block
+  if (/^(License|Phone|Email|Manifest)\b/i.test(name) || name.includes('@') || /^[\d()\s.-]{7,}$/.test(name)) {
+    return null;
+  }
+
+  // Clean up: remove city/state/zip patterns
+  name = name.replace(/,?\s*(VA|CA|NY|TX|FL|[A-Z]{2})\s*\d{5}(-\d{4})?$/i, '').trim();
+
+  // Validate final name
+  if (name.length >= 2 && name.length < 100) {
+    return name;
+  }
+
+  return null;
+}
+
+/**
+ * Check that a captured amount is a positive number
+ */
+function isPositiveAmount(amount: string): boolean {
+  const numericAmount = parseFloat(amount.replace(/,/g, ''));
+  return !isNaN(numericAmount) && numericAmount > 0;
+}
+
+/**
+ * Prefix a captured amount with a dollar sign
+ */
+function asDollars(field: ExtractedField | null): ExtractedField | null {
+  return field ? { ...field, value: `$${field.value}` } : null;
+}
+
+/**
+ * Extract customer email from PDF text
+ */
+function extractCustomerEmail({ text }: PDFContent): ExtractedField | null {
+  // Find all email patterns in the text
+  const emailPattern = /[\w.-]+@[\w.-]+\.[a-z]{2,}/gi;
+  const emails = text.match(emailPattern);
+
+  if (emails && emails.length > 0) {
+    // Filter out common system/no-reply emails
+    const validEmails = emails.filter(email => {
+      const lower = email.toLowerCase();
+      return !lower.includes('noreply') &&
+             !lower.includes('no-reply') &&
+             !lower.includes('cultivera.com') &&
+             !lower.includes('example.com');
+    });
+
+    // One customer address is unambiguous; several means we picked the first;
+    // none means we fell back to a system address
+    const email = validEmails.length > 0 ? validEmails[0] : emails[0];
+    const distinct = new Set(validEmails.map((e) => e.toLowerCase())).size;
+    const confidence: FieldConfidence =
+      validEmails.length === 0 ? 'low' : distinct > 1 ? 'medium' : 'high';
+
+    return fromText(email, text, text.indexOf(email), email.length, emailPattern.source, confidence);
+  }
+
+  return null;
+}
+
+/**
+ * Extract product rows (SKU/strain, quantity, unit, unit price, line total) from PDF text
+ */
+function extractLineItems({ text }: PDFContent): ScrapedLineItem[] {
+  // Product rows sit between the table header and the totals block.
+  // Narrowing to that region keeps header text out of the first row's name.
+  const headerMatch = text.match(/(?:Product|Item|Description)\b.*?\bQty\b.*?\bTotal\b/i);
+  const start = headerMatch ? headerMatch.index! + headerMatch[0].length : 0;
+  const endMatch = text.slice(start).search(/Sub\s*Total|Amount\s*Due|Total\s*Due|Balance\s*Due/i);
+  const region = endMatch >= 0 ? text.slice(start, start + endMatch) : text.slice(start);
+
+  // Row layout: "<name> <qty> <unit> $<unit price> $<line total>"
+  const rowPattern = new RegExp(
+    `([A-Za-z0-9][\\w\\s\\-/().#&'+%]*?)\\s+(\\d+(?:\\.\\d+)?)\\s+(${LINE_ITEM_UNITS})\\s+\\$?([\\d,]+\\.\\d{2})\\s+\\$?([\\d,]+\\.\\d{2})`,
+    'gi'
+  );
+
+  const items: ScrapedLineItem[] = [];
+  for (const match of region.matchAll(rowPattern)) {
+    const name = match[1].replace(/\s+/g, ' ').trim();
+
+    // Skip rows where the name is only a number (stray column values)
+    if (name.length < 2 || /^[\d.,\s]+$/.test(name)) {
+      continue;
+    }
+
+    items.push({
+      name,
+      quantity: match[2],
+      unit: match[3],
+      unit_price: `$${match[4]}`,
+      line_total: `$${match[5]}`,
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Split a totals-block row into its label and amount: the amount is the last
+ * cell and the label the cell before it, unless both landed in the last cell
+ */
+function splitTotalsRow(row: PDFTextRow): { label: string; amount: string } | null {
+  const last = row.cells[row.cells.length - 1]?.text.trim() ?? '';
+  const merged = last.match(TOTALS_ROW_PATTERN);
+  if (merged) {
+    return { label: merged[1], amount: merged[2] };
+  }
+
+  if (row.cells.length < 2 || !TOTALS_AMOUNT_PATTERN.test(last)) {
+    return null;
+  }
+
+  const label = row.cells[row.cells.length - 2].text;
+  return /[A-Za-z]/.test(label) && !TOTALS_AMOUNT_PATTERN.test(label) ? { label, amount: last } : null;
+}
+
+/**
+ * Extract the subtotal and any discounts, taxes and fees from the totals block
+ */
+function extractTotals({ layout }: PDFContent): ScrapedTotals {
+  const totals: ScrapedTotals = { adjustments: [] };
+
+  for (const page of layout) {
+    for (const row of page.rows) {
+      const split = splitTotalsRow(row);
+      if (!split) {
+        continue;
+      }
+
+      const label = split.label.replace(/:\s*$/, '').trim();
+      const amount = split.amount;
+
+      if (SUBTOTAL_LABEL.test(label)) {
+        totals.subtotal ??= amount;
+        continue;
+      }
+
+      const type = ADJUSTMENT_LABELS.find(([, pattern]) => pattern.test(label))?.[0];
+      if (type) {
+        totals.adjustments.push({ type, name: label, amount });
+      }
+    }
+  }
+
+  return totals;
+}
+
+// ============================================================================
+// Cultivera PRO
+// ============================================================================
+
+const CULTIVERA_INDICATORS = [
+  /cultivera/i,
+  /invoice/i,
+  /order\s*#/i,
+  /ship\s*to/i,
+  /amount\s*due/i,
+  /manifest/i,
+  /license\s*#/i,
+];
+
+/**
+ * Extract order number from PDF layout, falling back to text patterns
+ */
+function extractCultiveraOrderNumber({ text, layout }: PDFContent): ExtractedField | null {
+  const fromLayoutLookup = extractLabelledValue(
+    layout,
+    /\b(?:Order|PO)\s*(?:#|Number)/i,
+    'Order #',
+    /^#?\s*(\d+)\b/
+  );
+  if (fromLayoutLookup) {
+    return fromLayoutLookup;
+  }
+
+  // Try multiple patterns for order number
+  // PDF text extraction may put value before or after label depending on layout
+  return extractFromTextPatterns(text, [
+    // Value after label: "Order #: 7600"
+    [/Order\s*#\s*:?\s*(\d+)/i, 'medium'],
+    [/Order\s*#[:\s]+(\d+)/i, 'medium'],
+    [/Order\s*Number[:\s]+(\d+)/i, 'medium'],
+    // Value before label (common in columnar PDFs): "7600 Order #"
+    [/(\d+)\s+Order\s*#/i, 'low'],
+    [/(\d+)\s+Order\s*Number/i, 'low'],
+    // PO patterns
+    [/PO\s*#[:\s]+(\d+)/i, 'low'],
+    [/(\d+)\s+PO\s*#/i, 'low'],
+  ]);
+}
+
+/**
+ * Extract customer name from PDF layout (the Ship To block), falling back to text patterns
+ */
+function extractCultiveraCustomerName({ text, layout }: PDFContent): ExtractedField | null {
+  // The first line of the Ship To block is the licensee name
+  const fromBlock = extractNameFromBlock(layout, /\bShip\s*To\b/i, 'Ship To');
+  if (fromBlock) {
+    return fromBlock;
+  }
+
+  // In Cultivera PDFs, "Ship To" and "Manifest Details" are column headers
+  // The customer name often appears after "Manifest #:" due to PDF extraction order
+  // Try multiple patterns
+  const shipToPatterns: Array<[RegExp, FieldConfidence]> = [
+    // Direct extraction after Ship To
+    [/Ship\s*To\s+([\w\s]+?)(?=\s{2,}|Manifest|License|Phone|harrisonburg|$)/i, 'medium'],
+    // After Manifest #: (common in columnar PDFs)
+    [/Manifest\s*#:\s*([\w\s]+?)(?=\s{2,}\d|\s+0\s|Plate|Vehicle|$)/i, 'low'],
+  ];
+
+  const found = extractFromTextPatterns(text, shipToPatterns, (value) => cleanCustomerName(value) !== null);
+  return found ? { ...found, value: cleanCustomerName(found.value)! } : null;
+}
+
+/**
+ * Extract amount due from PDF layout, falling back to text patterns
+ */
+function extractCultiveraAmountDue({ text, layout }: PDFContent): ExtractedField | null {
+  const fromLayoutLookup = extractLabelledValue(
+    layout,
+    /\b(?:Amount|Total|Balance)\s*Due\b/i,
+    'Amount Due',
+    /^\$?\s*([\d,]+\.?\d*)$/
+  );
+  if (fromLayoutLookup && isPositiveAmount(fromLayoutLookup.value)) {
+    return asDollars(fromLayoutLookup);
+  }
+
+  // Try multiple patterns for amount due
+  // PDF extraction may put value before or after label
+  return asDollars(extractFromTextPatterns(text, [
+    // Value after label: "Amount Due: $32.50"
+    [/Amount\s*Due[:\s]*\$?([\d,]+\.?\d*)/i, 'medium'],
+    [/Total\s*Due[:\s]*\$?([\d,]+\.?\d*)/i, 'medium'],
+    [/Balance\s*Due[:\s]*\$?([\d,]+\.?\d*)/i, 'medium'],
+    // Value before label: "$32.50 Amount Due"
+    [/\$([\d,]+\.?\d*)\s+Amount\s*Due/i, 'low'],
+    [/\$([\d,]+\.?\d*)\s+Total\s*Due/i, 'low'],
+    [/\$([\d,]+\.?\d*)\s+Balance\s*Due/i, 'low'],
+  ], isPositiveAmount));
+}
+
+/**
+ * Extract the buyer's license number from the Ship To block
+ */
+function extractCultiveraLicense({ text, layout }: PDFContent): ExtractedField | null {
+  // The License # at the top of the page is the seller's; only the Ship To block is the buyer's
+  return (
+    extractFromBlock(layout, /\bShip\s*To\b/i, 'Ship To', LICENSE_PATTERN, 'license') ||
+    extractFromTextPatterns(text, [
+      [/Ship\s*To[\s\S]{0,200}?License\s*(?:#|No\.?|Number)?\s*:?\s*([A-Z0-9][A-Z0-9-]{3,})/i, 'low'],
+    ])
+  );
+}
+
+/**
+ * Extract the seller's license from the letterhead
+ */
+function extractCultiveraSellerLicense({ text, layout }: PDFContent): ExtractedField | null {
+  return (
+    extractSellerLicense(layout, /\bShip\s*To\b/i, 'Ship To') ||
+    extractFromTextPatterns(text, [
+      [/License\s*(?:#|No\.?|Number)?\s*:?\s*([A-Z0-9][A-Z0-9-]{3,})(?=[\s\S]*?Ship\s*To)/i, 'low'],
+    ])
+  );
+}
+
+/**
+ * Extract the seller's name from the letterhead
+ */
+function extractCultiveraBrand({ layout }: PDFContent): ExtractedField | null {
+  return extractSellerBrand(layout, /\bShip\s*To\b/i, 'Ship To');
+}
+
+/**
+ * Extract the transport manifest number
+ */
+function extractCultiveraManifest({ text, layout }: PDFContent): ExtractedField | null {
+  return (
+    extractLabelledValue(layout, /\bManifest\s*(?:#|No\.?|Number)/i, 'Manifest #', /^#?\s*(\d[\w-]*)\b/) ||
+    extractFromTextPatterns(text, [[/Manifest\s*#\s*:?\s*(\d[\w-]*)/i, 'medium']])
+  );
+}
+
+/**
+ * Extract the buyer's phone number from the Ship To block
+ */
+function extractCultiveraPhone({ text, layout }: PDFContent): ExtractedField | null {
+  return (
+    extractFromBlock(layout, /\bShip\s*To\b/i, 'Ship To', PHONE_PATTERN, 'phone') ||
+    extractFromTextPatterns(text, [
+      [new RegExp(`Phone\\s*:?\\s*(${PHONE_PATTERN.source})`, 'i'), 'medium'],
+    ])
+  );
+}
+
+/**
+ * Extract the Ship To street address
+ */
+function extractCultiveraAddress({ layout }: PDFContent): ExtractedField | null {
+  return extractAddressFromBlock(layout, /\bShip\s*To\b/i, 'Ship To');
+}
+
+export const CULTIVERA_PRO_TEMPLATE: InvoiceTemplate = {
+  id: 'cultivera-pro',
+  name: 'Cultivera PRO',
+  // Need at least 3 indicators to consider it a valid invoice
+  minScore: 3 / CULTIVERA_INDICATORS.length,
+  detect: ({ text }) => indicatorScore(text, CULTIVERA_INDICATORS),
+  extractors: {
+    order_number: extractCultiveraOrderNumber,
+    customer_name: extractCultiveraCustomerName,
+    customer_email: extractCustomerEmail,
+    amount_due: extractCultiveraAmountDue,
+    license_number: extractCultiveraLicense,
+    manifest_number: extractCultiveraManifest,
+    customer_phone: extractCultiveraPhone,
+    ship_to_address: extractCultiveraAddress,
+    seller_license: extractCultiveraSellerLicense,
+    brand: extractCultiveraBrand,
+    line_items: extractLineItems,
+    totals: extractTotals,
+  },
+};
+
+// ============================================================================
+// Generic seed-to-sale invoice (Invoice # / Bill To / Total)
+// ============================================================================
+
+const GENERIC_INDICATORS = [
+  /invoice\s*(?:#|no\.?|number)/i,
+  /(?:bill|sold)\s*to/i,
+  /(?:balance\s*due|invoice\s*total|grand\s*total|total\s*due)/i,
+  /\b(?:qty|quantity)\b/i,
+  /\blicen[cs]e\b/i,
+];
+
+/**
+ * Extract the invoice number used as the order number
+ */
+function extractGenericOrderNumber({ text, layout }: PDFContent): ExtractedField | null {
+  return (
+    extractLabelledValue(
+      layout,
+      /\b(?:Invoice|Order)\s*(?:#|No\.?|Number)/i,
+      'Invoice #',
+      /^#?\s*([A-Za-z0-9-]*\d[A-Za-z0-9-]*)\b/
+    ) ||
+    extractFromTextPatterns(text, [
+      [/Invoice\s*(?:#|No\.?|Number)[:\s]+([A-Za-z0-9-]*\d[A-Za-z0-9-]*)/i, 'medium'],
+      [/Order\s*(?:#|No\.?|Number)[:\s]+([A-Za-z0-9-]*\d[A-Za-z0-9-]*)/i, 'medium'],
+    ])
+  );
+}
+
+/**
+ * Extract the customer from the Bill To / Sold To block
+ */
+function extractGenericCustomerName({ text, layout }: PDFContent): ExtractedField | null {
+  const fromBlock =
+    extractNameFromBlock(layout, /\bBill\s*To\b/i, 'Bill To') ||
+    extractNameFromBlock(layout, /\bSold\s*To\b/i, 'Sold To');
+  if (fromBlock) {
+    return fromBlock;
+  }
+
+  const found = extractFromTextPatterns(
+    text,
+    [[/(?:Bill|Sold)\s*To:?\s+([\w\s.&']+?)(?=\s{2,}|\d|$)/i, 'low']],
+    (value) => cleanCustomerName(value) !== null
+  );
+  return found ? { ...found, value: cleanCustomerName(found.value)! } : null;
+}
+
+/**
+ * Extract the balance due / invoice total
+ */
+function extractGenericAmountDue({ text, layout }: PDFContent): ExtractedField | null {
+  const fromLayoutLookup = extractLabelledValue(
+    layout,
+    /\b(?:Balance\s*Due|Total\s*Due|Invoice\s*Total|Grand\s*Total)\b/i,
+    'Balance Due',
+    /^\$?\s*([\d,]+\.?\d*)$/
+  );
+  if (fromLayoutLookup && isPositiveAmount(fromLayoutLookup.value)) {
+    return asDollars(fromLayoutLookup);
+  }
+
+  return asDollars(extractFromTextPatterns(text, [
+    [/Balance\s*Due[:\s]*\$?([\d,]+\.\d{2})/i, 'medium'],
+    [/Total\s*Due[:\s]*\$?([\d,]+\.\d{2})/i, 'medium'],
+    [/(?:Invoice|Grand)\s*Total[:\s]*\$?([\d,]+\.\d{2})/i, 'low'],
+  ], isPositiveAmount));
+}
+
+const GENERIC_CUSTOMER_BLOCK = /\b(?:Bill|Sold)\s*To\b/i;
+
+export const GENERIC_INVOICE_TEMPLATE: InvoiceTemplate = {
+  id: 'generic-invoice',
+  name: 'Generic seed-to-sale invoice',
+  minScore: 3 / GENERIC_INDICATORS.length,
+  detect: ({ text }) => indicatorScore(text, GENERIC_INDICATORS),
+  extractors: {
+    order_number: extractGenericOrderNumber,
+    customer_name: extractGenericCustomerName,
+    customer_email: extractCustomerEmail,
+    amount_due: extractGenericAmountDue,
+    license_number: ({ layout }) =>
+      extractFromBlock(layout, GENERIC_CUSTOMER_BLOCK, 'Bill To', LICENSE_PATTERN, 'license'),
+    customer_phone: ({ layout }) =>
+      extractFromBlock(layout, GENERIC_CUSTOMER_BLOCK, 'Bill To', PHONE_PATTERN, 'phone'),
+    ship_to_address: ({ layout }) => extractAddressFromBlock(layout, GENERIC_CUSTOMER_BLOCK, 'Bill To'),
+    seller_license: ({ layout }) => extractSellerLicense(layout, GENERIC_CUSTOMER_BLOCK, 'Bill To'),
+    brand: ({ layout }) => extractSellerBrand(layout, GENERIC_CUSTOMER_BLOCK, 'Bill To'),
+    line_items: extractLineItems,
+    totals: extractTotals,
+  },
+};
+
+// Built-in templates, most specific first
+registerInvoiceTemplate(CULTIVERA_PRO_TEMPLATE);
+registerInvoiceTemplate(GENERIC_INVOICE_TEMPLATE);
@@ -0,0 +1,94 @@
+import { formatCurrency } from './api';
+import { LineItem, OrderAdjustment, OrderStatusResponse, ParsedOrderData } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// One difference between what was invoiced and the re-uploaded PDF
+export interface OrderChange {
+  label: string;
+  before: string | null; // null = added
+  after: string | null; // null = removed
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+/**
+ * Compare an invoiced order with a newly parsed PDF of the same order.
+ * Lines and adjustments are matched by name; orders invoiced before line items
+ * were stored can only be compared by amount.
+ */
+export function diffInvoicedOrder(invoiced: OrderStatusResponse, parsed: ParsedOrderData): OrderChange[] {
+  const changes: OrderChange[] = [];
+
+  if (invoiced.line_items) {
+    changes.push(
+      ...diffByName(invoiced.line_items, parsed.line_items ?? [], (item) => item.name, formatLineItem)
+    );
+    changes.push(
+      ...diffByName(
+        invoiced.adjustments ?? [],
+        parsed.adjustments ?? [],
+        (adjustment) => `${adjustment.type}:${adjustment.name}`,
+        formatAdjustment,
+        (adjustment) => adjustment.name
+      )
+    );
+  }
+
+  if (invoiced.amount_cents !== undefined && invoiced.amount_cents !== parsed.amount_cents) {
+    changes.push({
+      label: 'Amount due',
+      before: formatCurrency(invoiced.amount_cents),
+      after: formatCurrency(parsed.amount_cents),
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Pair entries by key in order (so repeated names pair first with first) and
+ * report the ones that were added, removed or changed
+ */
+function diffByName<T>(
+  before: T[],
+  after: T[],
+  key: (entry: T) => string,
+  format: (entry: T) => string,
+  label: (entry: T) => string = key
+): OrderChange[] {
+  const changes: OrderChange[] = [];
+  const remaining = [...after];
+
+  for (const entry of before) {
+    const index = remaining.findIndex((candidate) => key(candidate) === key(entry));
+    if (index === -1) {
+      changes.push({ label: label(entry), before: format(entry), after: null });
+      continue;
+    }
+
+    const [match] = remaining.splice(index, 1);
+    if (format(match) !== format(entry)) {
+      changes.push({ label: label(entry), before: format(entry), after: format(match) });
+    }
+  }
+
+  for (const entry of remaining) {
+    changes.push({ label: label(entry), before: null, after: format(entry) });
+  }
+
+  return changes;
+}
+
+function formatLineItem(item: LineItem): string {
+  return `${item.quantity} ${item.unit} · ${formatCurrency(item.total_cents)}`;
+}
+
+function formatAdjustment(adjustment: OrderAdjustment): string {
+  const sign = adjustment.type === 'discount' ? '-' : '';
+  return `${sign}${formatCurrency(adjustment.amount_cents)}`;
+}
@@ -0,0 +1,231 @@
+import { PDFTextItem, PDFTextCell, PDFTextRow, PDFPageLayout } from './types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Items whose baselines differ by less than this fraction of their height share a row
+const ROW_TOLERANCE_EM = 0.5;
+
+// A horizontal gap wider than this (in multiples of text height) starts a new cell
+const CELL_GAP_EM = 1;
+
+// A vertical gap wider than this (in multiples of row height) ends a labelled block
+const BLOCK_GAP_EM = 2.5;
+
+// ============================================================================
+// Layout Reconstruction
+// ============================================================================
+
+/**
+ * Rebuild rows and cells for one page from positioned pdf.js text items
+ */
+export function buildPageLayout(
+  pageNumber: number,
+  width: number,
+  height: number,
+  items: PDFTextItem[]
+): PDFPageLayout {
+  const visible = items
+    .filter((item) => item.str.trim().length > 0)
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const rows: PDFTextRow[] = [];
+
+  for (const item of visible) {
+    const row = rows[rows.length - 1];
+    const tolerance = Math.max(row?.height || 0, item.height) * ROW_TOLERANCE_EM;
+
+    if (row && Math.abs(row.y - item.y) <= tolerance) {
+      row.items.push(item);
+      row.height = Math.max(row.height, item.height);
+    } else {
+      rows.push({ y: item.y, height: item.height, items: [item], cells: [], text: '' });
+    }
+  }
+
+  for (const row of rows) {
+    row.items.sort((a, b) => a.x - b.x);
+    row.cells = buildCells(row.items);
+    row.text = row.cells.map((cell) => cell.text).join('  ');
+  }
+
+  return { pageNumber, width, height, rows };
+}
+
+/**
+ * Split a row's items into cells wherever the horizontal gap looks like a column break
+ */
+function buildCells(items: PDFTextItem[]): PDFTextCell[] {
+  const cells: PDFTextCell[] = [];
+  let current: { parts: string[]; x: number; right: number } | null = null;
+
+  for (const item of items) {
+    const gap = current ? item.x - current.right : 0;
+
+    if (current && gap <= Math.max(item.height, 1) * CELL_GAP_EM) {
+      current.parts.push(item.str.trim());
+      current.right = Math.max(current.right, item.x + item.width);
+    } else {
+      if (current) {
+        cells.push({ text: current.parts.join(' '), x: current.x, right: current.right });
+      }
+      current = { parts: [item.str.trim()], x: item.x, right: item.x + item.width };
+    }
+  }
+
+  if (current) {
+    cells.push({ text: current.parts.join(' '), x: current.x, right: current.right });
+  }
+
+  return cells;
+}
+
+// ============================================================================
+// Label Lookup
+// ============================================================================
+
+// A value found by label lookup, with where it came from
+export interface LayoutValue {
+  text: string;
+  pageNumber: number;
+  snippet: string; // full text of the row the value was read from
+}
+
+interface LabelMatch {
+  page: PDFPageLayout;
+  rowIndex: number;
+  cellIndex: number;
+  remainder: string; // text in the label's cell after the label itself
+}
+
+/**
+ * Find the first cell (in reading order) containing a label
+ */
+function findLabel(layout: PDFPageLayout[], label: RegExp): LabelMatch | null {
+  for (const page of layout) {
+    for (let rowIndex = 0; rowIndex < page.rows.length; rowIndex++) {
+      const cells = page.rows[rowIndex].cells;
+      for (let cellIndex = 0; cellIndex < cells.length; cellIndex++) {
+        const match = cells[cellIndex].text.match(label);
+        if (match) {
+          const remainder = cells[cellIndex].text
+            .slice(match.index! + match[0].length)
+            .replace(/^[\s:#-]+/, '')
+            .trim();
+          return { page, rowIndex, cellIndex, remainder };
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the value to the right of a label: either the rest of the label's own cell
+ * ("Order #: 7600") or the next cell on the same row ("Order #    7600")
+ */
+export function valueRightOf(layout: PDFPageLayout[], label: RegExp): LayoutValue | null {
+  const found = findLabel(layout, label);
+  if (!found) {
+    return null;
+  }
+
+  const row = found.page.rows[found.rowIndex];
+  const value = found.remainder || row.cells[found.cellIndex + 1]?.text;
+  if (!value) {
+    return null;
+  }
+
+  return { text: value, pageNumber: found.page.pageNumber, snippet: row.text };
+}
+
+/**
+ * Get the value directly below a label, in the same column
+ */
+export function valueBelow(layout: PDFPageLayout[], label: RegExp): LayoutValue | null {
+  const lines = blockBelow(layout, label, 1);
+  return lines.length > 0 ? lines[0] : null;
+}
+
+/**
+ * Get the lines of a labelled block (e.g. "Ship To"): the text below the label,
+ * limited to the label's column and ending at the first large vertical gap
+ */
+export function blockBelow(layout: PDFPageLayout[], label: RegExp, maxLines = 6): LayoutValue[] {
+  const found = findLabel(layout, label);
+  if (!found) {
+    return [];
+  }
+
+  const { page, rowIndex } = found;
+  const labelRow = page.rows[rowIndex];
+  const { left, right } = labelColumn(found);
+
+  const lines: LayoutValue[] = [];
+  let previousY = labelRow.y;
+  let previousHeight = labelRow.height;
+
+  for (let i = rowIndex + 1; i < page.rows.length && lines.length < maxLines; i++) {
+    const row = page.rows[i];
+    if (previousY - row.y > Math.max(previousHeight, row.height) * BLOCK_GAP_EM) {
+      break;
+    }
+
+    const inColumn = row.cells.filter((cell) => cell.x >= left && cell.x < right);
+    if (inColumn.length === 0) {
+      continue;
+    }
+
+    lines.push({
+      text: inColumn.map((cell) => cell.text).join(' '),
+      pageNumber: page.pageNumber,
+      snippet: row.text,
+    });
+    previousY = row.y;
+    previousHeight = row.height;
+  }
+
+  return lines;
+}
+
+/**
+ * Get the lines above a label in its column, from the top of the page down
+ * (e.g. the seller's letterhead above "Ship To")
+ */
+export function linesAbove(layout: PDFPageLayout[], label: RegExp): LayoutValue[] {
+  const found = findLabel(layout, label);
+  if (!found) {
+    return [];
+  }
+
+  const { page, rowIndex } = found;
+  const { left, right } = labelColumn(found);
+
+  const lines: LayoutValue[] = [];
+  for (const row of page.rows.slice(0, rowIndex)) {
+    const inColumn = row.cells.filter((cell) => cell.x >= left && cell.x < right);
+    if (inColumn.length > 0) {
+      lines.push({
+        text: inColumn.map((cell) => cell.text).join(' '),
+        pageNumber: page.pageNumber,
+        snippet: row.text,
+      });
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * The column a label heads: from the label to the next header on the same row
+ */
+function labelColumn({ page, rowIndex, cellIndex }: LabelMatch): { left: number; right: number } {
+  const labelRow = page.rows[rowIndex];
+  const nextHeader = labelRow.cells[cellIndex + 1];
+  return {
+    left: labelRow.cells[cellIndex].x - labelRow.height,
+    right: nextHeader ? nextHeader.x : page.width,
+  };
+}
@@ -0,0 +1,102 @@
+import { createWorker, OEM, Worker } from 'tesseract.js';
+import type { PDFPageProxy } from 'pdfjs-dist';
+import { PDFTextItem } from './types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Render scale for OCR; 3 × 72 dpi = 216 dpi, enough for small invoice print
+const OCR_RENDER_SCALE = 3;
+
+// Where the build copies the tesseract worker, WASM cores and language data
+const OCR_ASSET_DIR = 'ocr';
+
+// Words Tesseract is less sure of than this (0-100) are dropped as noise
+const MIN_WORD_CONFIDENCE = 30;
+
+// ============================================================================
+// Worker
+// ============================================================================
+
+/**
+ * OCR needs a DOM canvas to render pages and the bundled engine from the
+ * extension package, so it only runs in the popup (not the headless CLI)
+ */
+export function isOCRAvailable(): boolean {
+  return (
+    typeof document !== 'undefined' &&
+    typeof chrome !== 'undefined' &&
+    typeof chrome.runtime?.getURL === 'function'
+  );
+}
+
+/**
+ * Start a Tesseract worker that loads everything from the extension package.
+ * Nothing is fetched from the network: the default CDN paths are all overridden.
+ */
+export async function createOCRWorker(): Promise<Worker> {
+  const assetUrl = (file: string) => chrome.runtime.getURL(`${OCR_ASSET_DIR}/${file}`);
+
+  return createWorker('eng', OEM.LSTM_ONLY, {
+    workerPath: assetUrl('worker.min.js'),
+    corePath: assetUrl(''),
+    langPath: assetUrl(''),
+    // MV3 extension pages can't start workers from blob: URLs
+    workerBlobURL: false,
+    gzip: true,
+    cacheMethod: 'none',
+  });
+}
+
+// ============================================================================
+// Page Recognition
+// ============================================================================
+
+/**
+ * Render a page to a canvas and OCR it, returning one positioned item per word
+ * in PDF user space so the result can go through the same layout rebuilding as
+ * a real text layer
+ */
+export async function recognizePage(worker: Worker, page: PDFPageProxy): Promise<PDFTextItem[]> {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context unavailable for OCR');
+  }
+
+  await page.render({ canvasContext: context, viewport }).promise;
+
+  const { data } = await worker.recognize(canvas, {}, { blocks: true });
+  const pageHeight = viewport.height / OCR_RENDER_SCALE;
+
+  // Canvas pixels have a top-left origin; PDF user space is bottom-left.
+  // Words take their line's box so a whole line shares one baseline.
+  const items: PDFTextItem[] = [];
+  for (const block of data.blocks ?? []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        for (const word of line.words) {
+          if (word.confidence < MIN_WORD_CONFIDENCE || word.text.trim().length === 0) {
+            continue;
+          }
+          items.push({
+            str: word.text,
+            x: word.bbox.x0 / OCR_RENDER_SCALE,
+            y: pageHeight - line.bbox.y1 / OCR_RENDER_SCALE,
+            width: (word.bbox.x1 - word.bbox.x0) / OCR_RENDER_SCALE,
+            height: (line.bbox.y1 - line.bbox.y0) / OCR_RENDER_SCALE,
+          });
+        }
+      }
+    }
+  }
+
+  canvas.width = 0;
+  canvas.height = 0;
+  return items;
+}
@@ -1,8 +1,31 @@
 import * as pdfjsLib from 'pdfjs-dist';
-import { ScrapedOrderData, ParsedOrderData, PDFParseResult } from './types';
-
-// Configure pdf.js worker for Chrome extension environment
-pdfjsLib.GlobalWorkerOptions.workerSrc = chrome.runtime.getURL('pdf.worker.min.mjs');
+import type { Worker as OCRWorker } from 'tesseract.js';
+import {
+  ScrapedOrderData,
+  ScrapedLineItem,
+  ParsedOrderData,
+  LineItem,
+  ScrapedAdjustment,
+  OrderAdjustment,
+  PDFParseResult,
+  PDFContent,
+  PDFTextItem,
+  PDFPageLayout,
+  ScrapedField,
+  ScrapedDetailField,
+  FieldProvenance,
+  FieldOverride,
+  PostalAddress,
+} from './types';
+import { buildPageLayout } from './pdf-layout';
+import { isOCRAvailable, createOCRWorker, recognizePage } from './pdf-ocr';
+import { selectInvoiceTemplate, ExtractedField } from './invoice-templates';
+
+// Configure pdf.js worker for Chrome extension environment.
+// Outside the extension (the headless CLI) pdf.js falls back to its bundled worker.
+if (typeof chrome !== 'undefined' && chrome.runtime?.getURL) {
+  pdfjsLib.GlobalWorkerOptions.workerSrc = chrome.runtime.getURL('pdf.worker.min.mjs');
+}
 
 // ============================================================================
 // Constants
@@ -11,6 +34,17 @@ pdfjsLib.GlobalWorkerOptions.workerSrc = chrome.runtime.getURL('pdf.worker.min.m
 const MAX_FILE_SIZE_MB = 10;
 const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
 
+// Pages with fewer visible characters than this are treated as scans with no text layer
+const MIN_TEXT_LAYER_CHARS = 20;
+
+// Human-readable field names for review messages
+export const FIELD_LABELS: Record<ScrapedField, string> = {
+  order_number: 'Order number',
+  customer_name: 'Customer name',
+  customer_email: 'Customer email',
+  amount_due: 'Amount due',
+};
+
 // ============================================================================
 // PDF Text Extraction
 // ============================================================================
@@ -19,21 +53,82 @@ const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
  * Extract text content from all pages of a PDF file
  */
 export async function extractTextFromPDF(file: File): Promise<string> {
+  const { text } = await extractPDFContent(file);
+  return text;
+}
+
+/**
+ * Extract both the flat text (content-stream order) and the positioned
+ * row/column layout of every page. Pages without a text layer are OCR'd
+ * where OCR is available.
+ */
+export async function extractPDFContent(file: File): Promise<PDFContent> {
   const arrayBuffer = await file.arrayBuffer();
-  const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+  // Only text is needed, so font and rendering warnings are noise (and would
+  // land on stdout in the headless CLI)
+  const pdf = await pdfjsLib.getDocument({
+    data: arrayBuffer,
+    verbosity: pdfjsLib.VerbosityLevel.ERRORS,
+  }).promise;
 
   const textParts: string[] = [];
+  const layout: PDFPageLayout[] = [];
+  const ocrPages: number[] = [];
+  let ocrWorker: OCRWorker | null = null;
+
+  try {
+    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+      const page = await pdf.getPage(pageNum);
+      const viewport = page.getViewport({ scale: 1 });
+      const textContent = await page.getTextContent();
+
+      let pageText = textContent.items
+        .map((item) => ('str' in item ? item.str : ''))
+        .join(' ');
+
+      // transform is [scaleX, skewY, skewX, scaleY, x, y]
+      let items: PDFTextItem[] = [];
+      for (const item of textContent.items) {
+        if ('str' in item) {
+          items.push({
+            str: item.str,
+            x: item.transform[4],
+            y: item.transform[5],
+            width: item.width,
+            height: item.height || Math.hypot(item.transform[2], item.transform[3]),
+          });
+        }
+      }
+
+      // A scan has no (or only a stray) text layer: read the rendered page instead
+      if (pageText.replace(/\s/g, '').length < MIN_TEXT_LAYER_CHARS && isOCRAvailable()) {
+        ocrWorker ??= await createOCRWorker();
+        items = await recognizePage(ocrWorker, page);
+        ocrPages.push(pageNum);
+      }
+
+      const pageLayout = buildPageLayout(pageNum, viewport.width, viewport.height, items);
+      if (ocrPages.includes(pageNum)) {
+        // OCR has no content stream, so reading order is top-to-bottom rows
+        pageText = pageLayout.rows.map((row) => row.text).join(' ');
+      }
 
-  for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
-    const page = await pdf.getPage(pageNum);
-    const textContent = await page.getTextContent();
-    const pageText = textContent.items
-      .map((item) => ('str' in item ? item.str : ''))
-      .join(' ');
-    textParts.push(pageText);
+      textParts.push(pageText);
+      layout.push(pageLayout);
+    }
+  } finally {
+    await ocrWorker?.terminate();
   }
 
-  return textParts.join('\n');
+  return { text: textParts.join('\n'), layout, ocrPages };
+}
+
+/**
+ * Lower a field's confidence one step when it was read from OCR text
+ */
+function downgradeForOCR(provenance: FieldProvenance): FieldProvenance {
+  const confidence = provenance.confidence === 'high' ? 'medium' : 'low';
+  return { ...provenance, pattern: `ocr ${provenance.pattern}`, confidence };
 }
 
 // ============================================================================
@@ -63,31 +158,6 @@ export function validatePDF(file: File): { valid: boolean; errors: string[] } {
   return { valid: errors.length === 0, errors };
 }
 
-/**
- * Check if the PDF text appears to be a Cultivera invoice
- */
-function isCultiveraInvoice(text: string): boolean {
-  const cultiveraIndicators = [
-    /cultivera/i,
-    /invoice/i,
-    /order\s*#/i,
-    /ship\s*to/i,
-    /amount\s*due/i,
-    /manifest/i,
-    /license\s*#/i,
-  ];
-
-  // Need at least 3 indicators to consider it a valid invoice
-  let matches = 0;
-  for (const pattern of cultiveraIndicators) {
-    if (pattern.test(text)) {
-      matches++;
-    }
-  }
-
-  return matches >= 3;
-}
-
 // ============================================================================
 // Data Parsing
 // ============================================================================
@@ -112,132 +182,115 @@ export function parseCurrencyToCents(currencyStr: string): number | null {
 }
 
 /**
- * Extract order number from PDF text
+ * Convert a scraped line item to numeric form
  */
-function extractOrderNumber(text: string): string | null {
-  // Try multiple patterns for order number
-  // PDF text extraction may put value before or after label depending on layout
-  const patterns = [
-    // Value after label: "Order #: 7600"
-    /Order\s*#\s*:?\s*(\d+)/i,
-    /Order\s*#[:\s]+(\d+)/i,
-    /Order\s*Number[:\s]+(\d+)/i,
-    // Value before label (common in columnar PDFs): "7600 Order #"
-    /(\d+)\s+Order\s*#/i,
-    /(\d+)\s+Order\s*Number/i,
-    // PO patterns
-    /PO\s*#[:\s]+(\d+)/i,
-    /(\d+)\s+PO\s*#/i,
-  ];
-
-  for (const pattern of patterns) {
-    const match = text.match(pattern);
-    if (match) {
-      return match[1];
-    }
+function parseLineItem(scraped: ScrapedLineItem): LineItem | null {
+  const quantity = parseFloat(scraped.quantity);
+  const unit_price_cents = parseCurrencyToCents(scraped.unit_price);
+  const total_cents = parseCurrencyToCents(scraped.line_total);
+
+  if (isNaN(quantity) || quantity <= 0 || unit_price_cents === null || total_cents === null) {
+    return null;
   }
 
-  return null;
+  return {
+    name: scraped.name,
+    quantity,
+    unit: scraped.unit,
+    unit_price_cents,
+    total_cents,
+  };
 }
 
 /**
- * Extract customer name from PDF text (typically from Ship To section)
+ * Convert a scraped adjustment to positive cents; discounts may be printed negative
  */
-function extractCustomerName(text: string): string | null {
-  // In Cultivera PDFs, "Ship To" and "Manifest Details" are column headers
-  // The customer name often appears after "Manifest #:" due to PDF extraction order
-  // Try multiple patterns
-
-  // Pattern 1: Look for text between "Ship To" and common delimiters
-  const shipToPatterns = [
-    // Direct extraction after Ship To
-    /Ship\s*To\s+([\w\s]+?)(?=\s{2,}|Manifest|License|Phone|harrisonburg|$)/i,
-    // After Manifest #: (common in columnar PDFs)
-    /Manifest\s*#:\s*([\w\s]+?)(?=\s{2,}\d|\s+0\s|Plate|Vehicle|$)/i,
-  ];
-
-  for (const pattern of shipToPatterns) {
-    const match = text.match(pattern);
-    if (match) {
-      let name = match[1].trim();
-
-      // Skip if it's just numbers or too short
-      if (name.length < 2 || /^\d+$/.test(name)) {
-        continue;
-      }
-
-      // Skip if it looks like an address (starts with numbers followed by street)
-      if (/^\d+\s+(N|S|E|W|North|South|East|West|\w+\s+(St|Ave|Rd|Blvd|Dr|Ln))/i.test(name)) {
-        continue;
-      }
-
-      // Clean up: remove city/state/zip patterns
-      name = name.replace(/,?\s*(VA|CA|NY|TX|FL|[A-Z]{2})\s*\d{5}(-\d{4})?$/i, '').trim();
-
-      // Validate final name
-      if (name.length >= 2 && name.length < 100) {
-        return name;
-      }
-    }
+function parseAdjustment(scraped: ScrapedAdjustment): OrderAdjustment | null {
+  const amount_cents = parseCurrencyToCents(scraped.amount.replace(/[-()]/g, ''));
+  if (amount_cents === null) {
+    return null;
   }
 
-  return null;
+  return { type: scraped.type, name: scraped.name, amount_cents };
 }
 
 /**
- * Extract customer email from PDF text
+ * Work out what the line items should add up to before discounts, taxes and fees.
+ * Adjustments are kept only when they take that subtotal to the amount due exactly
+ * (and match the printed subtotal, if any); otherwise adjustments is null and the
+ * subtotal is the amount due itself.
  */
-function extractCustomerEmail(text: string): string | null {
-  // Find all email patterns in the text
-  const emailPattern = /[\w.-]+@[\w.-]+\.[a-z]{2,}/gi;
-  const emails = text.match(emailPattern);
+function reconcileTotals(
+  subtotal: string | undefined,
+  scraped: ScrapedAdjustment[] | undefined,
+  amountCents: number
+): { subtotal_cents: number; adjustments: OrderAdjustment[] | null } {
+  const unreconciled = { subtotal_cents: amountCents, adjustments: null };
+  if (!scraped || scraped.length === 0) {
+    return { subtotal_cents: amountCents, adjustments: [] };
+  }
+
+  const parsed = scraped.map(parseAdjustment);
+  if (!parsed.every((adjustment): adjustment is OrderAdjustment => adjustment !== null)) {
+    return unreconciled;
+  }
+  const adjustments = parsed.filter((adjustment) => adjustment.amount_cents > 0);
+
+  let discountCents = 0;
+  let addedCents = 0;
+  for (const adjustment of adjustments) {
+    if (adjustment.type === 'discount') {
+      discountCents += adjustment.amount_cents;
+    } else {
+      addedCents += adjustment.amount_cents;
+    }
+  }
 
-  if (emails && emails.length > 0) {
-    // Filter out common system/no-reply emails
-    const validEmails = emails.filter(email => {
-      const lower = email.toLowerCase();
-      return !lower.includes('noreply') &&
-             !lower.includes('no-reply') &&
-             !lower.includes('cultivera.com') &&
-             !lower.includes('example.com');
-    });
+  const subtotalCents = amountCents + discountCents - addedCents;
+  const printedSubtotal = subtotal ? parseCurrencyToCents(subtotal) : null;
 
-    return validEmails.length > 0 ? validEmails[0] : emails[0];
+  // Taxes are sent to Square as a percentage of the discounted subtotal, so it can't be zero
+  if (
+    discountCents >= subtotalCents ||
+    (printedSubtotal !== null && printedSubtotal !== subtotalCents)
+  ) {
+    return unreconciled;
   }
 
-  return null;
+  return { subtotal_cents: subtotalCents, adjustments };
 }
 
 /**
- * Extract amount due from PDF text
+ * Get warnings for line items that don't reconcile with their own math or the subtotal
  */
-function extractAmountDue(text: string): string | null {
-  // Try multiple patterns for amount due
-  // PDF extraction may put value before or after label
-  const patterns = [
-    // Value after label: "Amount Due: $32.50"
-    /Amount\s*Due[:\s]*\$?([\d,]+\.?\d*)/i,
-    /Total\s*Due[:\s]*\$?([\d,]+\.?\d*)/i,
-    /Balance\s*Due[:\s]*\$?([\d,]+\.?\d*)/i,
-    // Value before label: "$32.50 Amount Due"
-    /\$([\d,]+\.?\d*)\s+Amount\s*Due/i,
-    /\$([\d,]+\.?\d*)\s+Total\s*Due/i,
-    /\$([\d,]+\.?\d*)\s+Balance\s*Due/i,
-  ];
-
-  for (const pattern of patterns) {
-    const match = text.match(pattern);
-    if (match) {
-      const amount = match[1];
-      // Validate it looks like a reasonable amount
-      const numericAmount = parseFloat(amount.replace(/,/g, ''));
-      if (!isNaN(numericAmount) && numericAmount > 0) {
-        return `$${amount}`;
-      }
+function getLineItemWarnings(items: ScrapedLineItem[], subtotalCents: number, itemized: boolean): string[] {
+  const warnings: string[] = [];
+
+  if (items.length === 0) {
+    warnings.push('No line items found in PDF. The invoice will show a single order total.');
+    return warnings;
+  }
+
+  let sumCents = 0;
+  for (const scraped of items) {
+    const item = parseLineItem(scraped);
+    if (!item) {
+      warnings.push(`Could not parse line item "${scraped.name}".`);
+      continue;
+    }
+    if (Math.abs(Math.round(item.quantity * item.unit_price_cents) - item.total_cents) > 1) {
+      warnings.push(`Line item "${item.name}" total does not equal quantity × unit price.`);
     }
+    sumCents += item.total_cents;
   }
 
-  return null;
+  if (sumCents !== subtotalCents) {
+    warnings.push(
+      `Line items do not add up to the ${itemized ? 'subtotal' : 'amount due'}. The invoice will show a single order total.`
+    );
+  }
+
+  return warnings;
 }
 
 // ============================================================================
@@ -262,24 +315,64 @@ export async function parseCultiveraInvoice(file: File): Promise<PDFParseResult>
   }
 
   try {
-    // Extract text from PDF
-    const rawText = await extractTextFromPDF(file);
+    // Extract text and positioned layout from PDF
+    const content = await extractPDFContent(file);
+    const rawText = content.text;
 
-    // Check if it's a Cultivera invoice
-    if (!isCultiveraInvoice(rawText)) {
+    // A scan that couldn't be OCR'd (e.g. in the headless CLI) has no text to match
+    if (rawText.replace(/\s/g, '').length < MIN_TEXT_LAYER_CHARS) {
       return {
         success: false,
-        errors: ['This does not appear to be a Cultivera invoice PDF. Please upload a Cultivera purchase order.'],
+        errors: ['This PDF has no readable text (it may be a scanned image). Upload it from the extension to read it with OCR, or export the invoice from Cultivera again.'],
         warnings: [],
         rawText,
       };
     }
 
-    // Extract data fields
-    const order_number = extractOrderNumber(rawText);
-    const customer_name = extractCustomerName(rawText);
-    const customer_email = extractCustomerEmail(rawText);
-    const amount_due = extractAmountDue(rawText);
+    // Pick the invoice layout that best matches this PDF
+    const selected = selectInvoiceTemplate(content);
+    if (!selected) {
+      return {
+        success: false,
+        errors: [
+          content.ocrPages.length > 0
+            ? 'This scanned PDF could not be read clearly enough to recognise it as a Cultivera invoice. Try a sharper scan.'
+            : 'This does not appear to be a Cultivera invoice PDF. Please upload a Cultivera purchase order.',
+        ],
+        warnings: [],
+        rawText,
+      };
+    }
+
+    const { template, score } = selected;
+    const templateMatch = { id: template.id, name: template.name, score };
+
+    // Extract data fields, keeping where each one came from
+    const extracted: Record<ScrapedField, ExtractedField | null> = {
+      order_number: template.extractors.order_number(content),
+      customer_name: template.extractors.customer_name(content),
+      customer_email: template.extractors.customer_email(content),
+      amount_due: template.extractors.amount_due(content),
+    };
+    // Text recognised by OCR can't be trusted as much as a real text layer
+    const fromOCR = (provenance: FieldProvenance) =>
+      provenance.page === null ? content.ocrPages.length > 0 : content.ocrPages.includes(provenance.page);
+
+    const fields: Partial<Record<ScrapedField, FieldProvenance>> = {};
+    for (const [field, value] of Object.entries(extracted)) {
+      if (value) {
+        fields[field as ScrapedField] = fromOCR(value.provenance)
+          ? downgradeForOCR(value.provenance)
+          : value.provenance;
+      }
+    }
+
+    const order_number = extracted.order_number?.value;
+    const customer_name = extracted.customer_name?.value;
+    const customer_email = extracted.customer_email?.value;
+    const amount_due = extracted.amount_due?.value;
+    const line_items = template.extractors.line_items(content);
+    const totals = template.extractors.totals(content);
 
     // Validate extracted data
     if (!order_number) {
@@ -310,23 +403,71 @@ export async function parseCultiveraInvoice(file: File): Promise<PDFParseResult>
     if (errors.length > 0) {
       return {
         success: false,
+        template: templateMatch,
+        fields,
         errors,
         warnings,
         rawText,
       };
     }
 
+    const { subtotal_cents, adjustments } = reconcileTotals(
+      totals.subtotal,
+      totals.adjustments,
+      parseCurrencyToCents(amount_due!)!
+    );
+    if (!adjustments) {
+      warnings.push('Discounts, taxes and fees do not add up to the amount due. The invoice will show a single order total.');
+    }
+    warnings.push(...getLineItemWarnings(line_items, subtotal_cents, !!adjustments?.length));
+
+    if (content.ocrPages.length > 0) {
+      const pages = content.ocrPages.length === 1
+        ? `Page ${content.ocrPages[0]} has no text layer and was`
+        : `Pages ${content.ocrPages.join(', ')} have no text layer and were`;
+      warnings.push(`${pages} read with OCR. Check every field before sending.`);
+    }
+
+    for (const field of getLowConfidenceFields(fields)) {
+      warnings.push(`${FIELD_LABELS[field]} was read with low confidence. Check it before sending.`);
+    }
+
     // All required fields extracted successfully
     const data: ScrapedOrderData = {
       order_number: order_number!,
       customer_name: customer_name!,
       customer_email: customer_email!,
       amount_due: amount_due!,
+      line_items,
     };
+    if (totals.subtotal) {
+      data.subtotal = totals.subtotal;
+    }
+    if (totals.adjustments.length > 0) {
+      data.adjustments = totals.adjustments;
+    }
+
+    // Optional details: only present when the template found them
+    const detailFields: ScrapedDetailField[] = [
+      'license_number',
+      'manifest_number',
+      'customer_phone',
+      'ship_to_address',
+      'seller_license',
+      'brand',
+    ];
+    for (const field of detailFields) {
+      const value = template.extractors[field]?.(content)?.value;
+      if (value) {
+        data[field] = value;
+      }
+    }
 
     return {
       success: true,
       data,
+      template: templateMatch,
+      fields,
       errors: [],
       warnings,
       rawText,
@@ -341,6 +482,21 @@ export async function parseCultiveraInvoice(file: File): Promise<PDFParseResult>
   }
 }
 
+/**
+ * Get the fields a reviewer should double-check before sending
+ */
+export function getLowConfidenceFields(
+  fields: Partial<Record<ScrapedField, FieldProvenance>> | undefined
+): ScrapedField[] {
+  if (!fields) {
+    return [];
+  }
+
+  return (Object.keys(fields) as ScrapedField[]).filter(
+    (field) => fields[field]?.confidence === 'low'
+  );
+}
+
 /**
  * Parse scraped data into the format needed for the API
  */
@@ -351,12 +507,82 @@ export function parseOrderData(scraped: ScrapedOrderData): ParsedOrderData | nul
     return null;
   }
 
-  return {
+  const parsed: ParsedOrderData = {
     order_number: scraped.order_number,
     customer_name: scraped.customer_name,
     customer_email: scraped.customer_email,
     amount_cents,
   };
+
+  if (scraped.license_number) {
+    parsed.license_number = scraped.license_number;
+  }
+  if (scraped.manifest_number) {
+    parsed.manifest_number = scraped.manifest_number;
+  }
+  if (scraped.customer_phone) {
+    parsed.customer_phone = scraped.customer_phone;
+  }
+  if (scraped.seller_license) {
+    parsed.seller_license = scraped.seller_license;
+  }
+  if (scraped.brand) {
+    parsed.brand = scraped.brand;
+  }
+  if (scraped.ship_to_address) {
+    const address = parseAddress(scraped.ship_to_address);
+    if (address) {
+      parsed.ship_to_address = address;
+    }
+  }
+
+  const { subtotal_cents, adjustments } = reconcileTotals(scraped.subtotal, scraped.adjustments, amount_cents);
+  if (adjustments && adjustments.length > 0) {
+    parsed.adjustments = adjustments;
+  }
+
+  // Only itemize when every row parses and the rows add up to the subtotal;
+  // otherwise Square would invoice a different total than the PDF.
+  if (scraped.line_items && scraped.line_items.length > 0) {
+    const items = scraped.line_items.map(parseLineItem);
+    if (items.every((item): item is LineItem => item !== null)) {
+      const sumCents = items.reduce((sum, item) => sum + item.total_cents, 0);
+      if (sumCents === subtotal_cents) {
+        parsed.line_items = items;
+      }
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Split raw address lines into Square's address fields
+ * Example: "123 Main St\nSuite 4\nHarrisonburg, VA 22801"
+ */
+export function parseAddress(raw: string): PostalAddress | null {
+  const lines = raw.split('\n').map((line) => line.trim()).filter(Boolean);
+  if (lines.length === 0) {
+    return null;
+  }
+
+  const address: PostalAddress = { address_line_1: lines[0] };
+
+  // "City, ST 12345" closes the block; anything between it and line 1 is line 2
+  const cityLine = lines.length > 1 ? lines[lines.length - 1] : '';
+  const cityMatch = cityLine.match(/^(.+?),?\s+([A-Z]{2})\s+(\d{5}(?:-\d{4})?)$/);
+  const middle = cityMatch ? lines.slice(1, -1) : lines.slice(1);
+
+  if (middle.length > 0) {
+    address.address_line_2 = middle.join(', ');
+  }
+  if (cityMatch) {
+    address.locality = cityMatch[1];
+    address.administrative_district_level_1 = cityMatch[2];
+    address.postal_code = cityMatch[3];
+  }
+
+  return address;
 }
 
 /**
@@ -397,3 +623,29 @@ export function getValidationErrors(scraped: ScrapedOrderData | null): string[]
 
   return errors;
 }
+
+/**
+ * List the fields the reviewer changed from what was parsed out of the PDF
+ */
+export function getFieldOverrides(
+  original: ScrapedOrderData,
+  edited: ScrapedOrderData
+): FieldOverride[] {
+  const overrides: FieldOverride[] = [];
+
+  for (const field of Object.keys(FIELD_LABELS) as ScrapedField[]) {
+    const before = original[field].trim();
+    const after = edited[field].trim();
+
+    // Amounts compare by value so "$1,200" and "1200.00" are the same
+    const unchanged = field === 'amount_due'
+      ? parseCurrencyToCents(before) === parseCurrencyToCents(after)
+      : before === after;
+
+    if (!unchanged) {
+      overrides.push({ field, original: before, value: after });
+    }
+  }
+
+  return overrides;
+}
@@ -5,8 +5,19 @@ const STORAGE_KEYS = {
   SESSION: 'cultivera_square_session',
   LAST_ORDER: 'cultivera_square_last_order',
   LOCAL_LOG: 'cultivera_square_local_log',
+  PENDING_JOBS: 'cultivera_square_pending_jobs',
 } as const;
 
+export interface PendingInvoiceJob {
+  jobId: string;
+  orderNumber: string;
+  queuedAt: number;
+}
+
+// The scheduled worker drains queued jobs every minute, so one still pending
+// after this long won't be seen to finish from this browser
+const PENDING_JOB_MAX_AGE_MS = 30 * 60 * 1000;
+
 /**
  * Get the current user session from chrome.storage.local
  */
@@ -171,13 +182,81 @@ export async function getLocalLog(): Promise<
   });
 }
 
+/**
+ * Get the invoice jobs sent from this browser that haven't been seen to
+ * finish. Jobs past PENDING_JOB_MAX_AGE_MS are left out, and dropped the next
+ * time the list is saved.
+ */
+export async function getPendingInvoiceJobs(): Promise<PendingInvoiceJob[]> {
+  const jobs = await new Promise<PendingInvoiceJob[]>((resolve) => {
+    chrome.storage.local.get([STORAGE_KEYS.PENDING_JOBS], (result) => {
+      try {
+        resolve(JSON.parse(result[STORAGE_KEYS.PENDING_JOBS] || '[]'));
+      } catch {
+        resolve([]);
+      }
+    });
+  });
+
+  const cutoff = Date.now() - PENDING_JOB_MAX_AGE_MS;
+  return jobs.filter((job) => job.queuedAt >= cutoff);
+}
+
+/**
+ * Remember a queued invoice job, so a reopened popup can pick it up again
+ */
+export async function addPendingInvoiceJob(jobId: string, orderNumber: string): Promise<void> {
+  const jobs = await getPendingInvoiceJobs();
+  jobs.push({ jobId, orderNumber, queuedAt: Date.now() });
+
+  return new Promise((resolve) => {
+    chrome.storage.local.set(
+      {
+        [STORAGE_KEYS.PENDING_JOBS]: JSON.stringify(jobs),
+      },
+      () => {
+        resolve();
+      }
+    );
+  });
+}
+
+/**
+ * Forget an invoice job once its outcome has been shown
+ */
+export async function removePendingInvoiceJob(jobId: string): Promise<void> {
+  const jobs = (await getPendingInvoiceJobs()).filter((job) => job.jobId !== jobId);
+
+  return new Promise((resolve) => {
+    chrome.storage.local.set(
+      {
+        [STORAGE_KEYS.PENDING_JOBS]: JSON.stringify(jobs),
+      },
+      () => {
+        resolve();
+      }
+    );
+  });
+}
+
+/**
+ * Forget every pending invoice job, e.g. on sign-out
+ */
+export async function clearPendingInvoiceJobs(): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.remove([STORAGE_KEYS.PENDING_JOBS], () => {
+      resolve();
+    });
+  });
+}
+
 /**
  * Clear all stored data
  */
 export async function clearAllStorage(): Promise<void> {
   return new Promise((resolve) => {
     chrome.storage.local.remove(
-      [STORAGE_KEYS.SESSION, STORAGE_KEYS.LAST_ORDER, STORAGE_KEYS.LOCAL_LOG],
+      [STORAGE_KEYS.SESSION, STORAGE_KEYS.LAST_ORDER, STORAGE_KEYS.LOCAL_LOG, STORAGE_KEYS.PENDING_JOBS],
       () => {
         resolve();
       }
@@ -7,9 +7,58 @@ export interface CreateInvoiceRequest {
   customer_name: string;
   customer_email: string;
   amount_cents: number;
+  line_items?: LineItem[];
+  adjustments?: OrderAdjustment[];
+  license_number?: string;
+  manifest_number?: string;
+  customer_phone?: string;
+  ship_to_address?: PostalAddress;
+  seller_license?: string; // With brand, picks the Square location the invoice is billed from
+  brand?: string;
+  payment_terms?: PaymentTerms; // Overrides the customer's terms on file
+  payment_schedule?: PaymentSchedule; // Deposit or installments instead of one payment due per the terms
+  reminder_days?: number[]; // Overrides the organization's reminder schedule
+  send_date?: string; // YYYY-MM-DD; overrides when Square emails the invoice (today = now)
+  overrides?: FieldOverride[];
+  amend?: boolean; // Update the order's existing unpaid invoice instead of rejecting a duplicate
+  square_customer_id?: string; // Picked from CUSTOMER_MATCH_AMBIGUOUS candidates
+  create_customer?: boolean; // Create a new Square customer instead of any candidate
   request_timestamp: string; // ISO 8601 timestamp for replay protection
 }
 
+export type PaymentTerms = 'COD' | 'NET_15' | 'NET_30' | 'NET_45';
+
+// A deposit then the balance, or 2 to 12 installments, in due date order.
+// The amounts add up to the order total.
+export interface PaymentSchedule {
+  type: 'DEPOSIT' | 'INSTALLMENTS';
+  payments: ScheduledPayment[];
+}
+
+export interface ScheduledPayment {
+  due_date: string; // YYYY-MM-DD
+  amount_cents: number;
+}
+
+// Terms on file for a customer, and which rule matched
+export interface PaymentTermsResponse {
+  terms: PaymentTerms;
+  source: 'license' | 'email' | 'default';
+}
+
+// Square location mapped to the seller on the invoice letterhead
+export interface SquareLocationResponse {
+  square_location_id: string;
+  location_name: string;
+  source: 'license' | 'brand';
+}
+
+// Organization defaults for reminders and delayed sends
+export interface InvoiceDeliverySettings {
+  reminder_days: number[]; // Relative to the due date: -3 = 3 days before, 7 = 7 days overdue
+  send_delay_days: number; // 0 = email the invoice immediately
+}
+
 export interface CreateInvoiceResponse {
   success: boolean;
   correlation_id: string;
@@ -18,24 +67,103 @@ export interface CreateInvoiceResponse {
     square_order_id: string;
     square_invoice_id: string;
     invoice_number: string;
+    scheduled_at?: string; // Set when Square will email the invoice later
+    amendment_number?: number; // Set when an existing invoice was amended
   };
   error?: {
     code: ErrorCode;
     message: string;
     retry_after?: number; // seconds until retry is allowed (for rate limiting)
+    candidates?: CustomerCandidate[]; // Set for CUSTOMER_MATCH_AMBIGUOUS
+    kind?: SquareErrorKind; // Set when a Square call failed
+    details?: string[]; // Square's own error messages
+  };
+}
+
+// create-square-invoice accepted the request and queued it for the worker
+export interface QueuedInvoiceResponse {
+  success: true;
+  correlation_id: string;
+  data: {
+    job_id: string;
+    status: 'queued';
+  };
+}
+
+export type InvoiceJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+// A queued invoice as get_invoice_job reports it while the worker runs it
+export interface InvoiceJobResponse {
+  job_id: string;
+  correlation_id: string;
+  order_number: string;
+  status: InvoiceJobStatus;
+  steps_completed: string[]; // Square steps done so far
+  result: CreateInvoiceResponse['data'] | null; // Set when succeeded
+  error: CreateInvoiceResponse['error'] | null; // Set when failed
+}
+
+// A Square customer that may be the buyer, and what matched it
+export interface CustomerCandidate {
+  id: string;
+  name: string;
+  email_address?: string;
+  license_number?: string;
+  matched_by: ('email' | 'license' | 'company')[];
+}
+
+export interface CancelInvoiceRequest {
+  order_number: string;
+  reason: string; // Required; recorded in the audit log
+  request_timestamp: string; // ISO 8601 timestamp for replay protection
+}
+
+export interface CancelInvoiceResponse {
+  success: boolean;
+  correlation_id: string;
+  data?: {
+    order_number: string;
+    square_invoice_id: string;
+    action: 'canceled' | 'deleted' | 'already_canceled'; // Drafts are deleted, sent invoices canceled
+  };
+  error?: {
+    code: ErrorCode;
+    message: string;
+    kind?: SquareErrorKind;
+    details?: string[];
   };
 }
 
 export interface OrderStatusResponse {
   exists: boolean;
   order_number?: string;
-  status?: 'pending' | 'processing' | 'completed' | 'failed';
+  status?: 'pending' | 'processing' | 'completed' | 'failed' | 'voided' | 'needs_attention';
   square_invoice_id?: string;
   completed_at?: string;
   customer_name?: string;
   amount_cents?: number;
+  payment_status?: PaymentStatus;
+  paid_amount_cents?: number;
+  due_date?: string; // YYYY-MM-DD
+  line_items?: LineItem[]; // As last invoiced; missing for orders invoiced before amendments
+  adjustments?: OrderAdjustment[];
+  amendment_count?: number;
+  steps_completed?: string[]; // Square steps finished, for resuming a failed order
 }
 
+// Kept current by the square-webhook function. OVERDUE is derived on read for
+// unpaid or partially paid invoices past their due date.
+export type PaymentStatus =
+  | 'UNPAID'
+  | 'SCHEDULED'
+  | 'PARTIALLY_PAID'
+  | 'PAID'
+  | 'OVERDUE'
+  | 'PARTIALLY_REFUNDED'
+  | 'REFUNDED'
+  | 'CANCELED'
+  | 'PAYMENT_FAILED';
+
 // ============================================================================
 // Error Codes
 // ============================================================================
@@ -49,17 +177,35 @@ export type ErrorCode =
   | 'VALIDATION_INVALID_EMAIL'
   | 'VALIDATION_INVALID_AMOUNT'
   | 'VALIDATION_INVALID_ORDER'
+  | 'VALIDATION_INVALID_SCHEDULE'
   | 'DUPLICATE_ORDER'
   | 'RATE_LIMITED_USER'
   | 'RATE_LIMITED_GLOBAL'
   | 'REPLAY_REJECTED'
   | 'SQUARE_API_ERROR'
   | 'SQUARE_CUSTOMER_ERROR'
+  | 'CUSTOMER_MATCH_AMBIGUOUS'
   | 'SQUARE_ORDER_ERROR'
+  | 'SQUARE_TOTAL_MISMATCH'
   | 'SQUARE_INVOICE_ERROR'
   | 'SQUARE_PUBLISH_ERROR'
+  | 'ORDER_NOT_FOUND'
+  | 'INVOICE_NOT_CANCELABLE'
+  | 'SQUARE_CANCEL_ERROR'
+  | 'INVOICE_NOT_AMENDABLE'
+  | 'SQUARE_AMEND_ERROR'
+  | 'ORDER_INTERRUPTED'
+  | 'ORDER_NEEDS_ATTENTION'
+  | 'JOB_STILL_RUNNING' // Client only: stopped waiting on a queued invoice
+  | 'JOB_NOT_FOUND' // Client only: the queued invoice's status couldn't be looked up
   | 'INTERNAL_ERROR';
 
+// How a failed Square call can be fixed:
+// retryable = Square or the network failed, send the same invoice again
+// validation = Square rejected the data, fix the order first
+// auth = Square rejected the access token, an admin must fix it
+export type SquareErrorKind = 'retryable' | 'validation' | 'auth';
+
 // ============================================================================
 // Scraped Data Types
 // ============================================================================
@@ -69,6 +215,38 @@ export interface ScrapedOrderData {
   customer_name: string;
   customer_email: string;
   amount_due: string; // Raw string from PDF (e.g., "$1,234.56")
+  line_items?: ScrapedLineItem[];
+  subtotal?: string; // Raw string from PDF, before discounts, taxes and fees
+  adjustments?: ScrapedAdjustment[];
+  license_number?: string; // Buyer's license from the Ship To block
+  manifest_number?: string;
+  customer_phone?: string; // Raw string from PDF (e.g., "(540) 555-0100")
+  ship_to_address?: string; // Raw Ship To address lines, newline separated
+  seller_license?: string; // Seller's license from the letterhead
+  brand?: string; // Seller's name from the letterhead
+}
+
+export interface ScrapedLineItem {
+  name: string; // SKU / strain as printed on the invoice
+  quantity: string; // Raw string from PDF (e.g., "10", "3.5")
+  unit: string; // e.g., "Each", "Gram"
+  unit_price: string; // Raw string from PDF (e.g., "$25.00")
+  line_total: string; // Raw string from PDF (e.g., "$250.00")
+}
+
+export type AdjustmentType = 'discount' | 'tax' | 'fee';
+
+// An order-level discount, tax or fee from the totals block
+export interface ScrapedAdjustment {
+  type: AdjustmentType;
+  name: string; // Label as printed (e.g., "Excise Tax (37%)")
+  amount: string; // Raw string from PDF (e.g., "$12.50", "-$10.00", "($10.00)")
+}
+
+// Everything in the totals block above the amount due
+export interface ScrapedTotals {
+  subtotal?: string;
+  adjustments: ScrapedAdjustment[];
 }
 
 // ============================================================================
@@ -78,16 +256,128 @@ export interface ScrapedOrderData {
 export interface PDFParseResult {
   success: boolean;
   data?: ScrapedOrderData;
+  template?: TemplateMatch;
+  fields?: Partial<Record<ScrapedField, FieldProvenance>>;
   errors: string[];
   warnings: string[];
   rawText?: string;
 }
 
+// Which invoice template parsed the PDF, and how strongly it matched
+export interface TemplateMatch {
+  id: string;
+  name: string;
+  score: number; // 0 to 1
+}
+
+export type ScrapedField = 'order_number' | 'customer_name' | 'customer_email' | 'amount_due';
+
+// Optional details carried through to the Square customer and invoice, and
+// the seller details that pick the Square location
+export type ScrapedDetailField =
+  | 'license_number'
+  | 'manifest_number'
+  | 'customer_phone'
+  | 'ship_to_address'
+  | 'seller_license'
+  | 'brand';
+
+export type FieldConfidence = 'high' | 'medium' | 'low';
+
+// Where an extracted field came from, so reviewers can judge how far to trust it
+export interface FieldProvenance {
+  pattern: string; // layout lookup or regex source that matched
+  confidence: FieldConfidence;
+  snippet: string; // surrounding PDF text the value was read from
+  page: number | null;
+}
+
+// Positioned text from pdf.js, in PDF user space (origin bottom-left)
+export interface PDFTextItem {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Adjacent items on a row, separated from neighbours by a column gap
+export interface PDFTextCell {
+  text: string;
+  x: number;
+  right: number;
+}
+
+export interface PDFTextRow {
+  y: number;
+  height: number;
+  items: PDFTextItem[];
+  cells: PDFTextCell[];
+  text: string;
+}
+
+export interface PDFPageLayout {
+  pageNumber: number;
+  width: number;
+  height: number;
+  rows: PDFTextRow[]; // top to bottom
+}
+
+// Everything pulled out of a PDF before field extraction
+export interface PDFContent {
+  text: string; // content-stream order, pages separated by newlines
+  layout: PDFPageLayout[];
+  ocrPages: number[]; // pages read by OCR because they had no text layer
+}
+
 export interface ParsedOrderData {
   order_number: string;
   customer_name: string;
   customer_email: string;
   amount_cents: number;
+  line_items?: LineItem[];
+  adjustments?: OrderAdjustment[];
+  license_number?: string;
+  manifest_number?: string;
+  customer_phone?: string;
+  ship_to_address?: PostalAddress;
+  seller_license?: string;
+  brand?: string;
+  payment_terms?: PaymentTerms; // Only set when the reviewer overrides the terms on file
+  payment_schedule?: PaymentSchedule;
+  reminder_days?: number[];
+  send_date?: string; // YYYY-MM-DD; today sends immediately
+  overrides?: FieldOverride[];
+}
+
+// Address in Square's field names
+export interface PostalAddress {
+  address_line_1: string;
+  address_line_2?: string;
+  locality?: string; // city
+  administrative_district_level_1?: string; // state
+  postal_code?: string;
+}
+
+// A field the reviewer corrected by hand before sending
+export interface FieldOverride {
+  field: ScrapedField;
+  original: string; // value parsed from the PDF
+  value: string; // value sent to Square
+}
+
+export interface LineItem {
+  name: string;
+  quantity: number;
+  unit: string;
+  unit_price_cents: number;
+  total_cents: number;
+}
+
+export interface OrderAdjustment {
+  type: AdjustmentType;
+  name: string;
+  amount_cents: number; // Always positive; the type decides whether it adds or subtracts
 }
 
 // ============================================================================
@@ -109,7 +399,7 @@ export interface ProcessedOrder {
   id: string;
   order_number: string;
   user_id: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'voided' | 'needs_attention';
   square_customer_id: string | null;
   square_order_id: string | null;
   square_invoice_id: string | null;
@@ -118,12 +408,72 @@ export interface ProcessedOrder {
   customer_name: string;
   customer_email: string;
   idempotency_key: string;
+  content_hash: string | null; // Invoiced content the Square keys were derived from
+  square_keys: SquareIdempotencyKeys | null;
   error_message: string | null;
+  payment_terms: PaymentTerms | null;
+  payment_schedule: PaymentSchedule | null;
+  due_date: string | null; // Last payment's due date when there's a schedule
+  payment_status: Exclude<PaymentStatus, 'OVERDUE'> | null;
+  paid_amount_cents: number | null;
+  square_invoice_version: number | null;
+  payment_status_updated_at: string | null;
+  voided_at: string | null;
+  voided_by: string | null;
+  void_reason: string | null;
+  reissue_count: number;
+  line_items: LineItem[] | null;
+  adjustments: OrderAdjustment[] | null;
+  amendment_count: number;
+  amended_at: string | null;
+  square_location_id: string | null;
+  seller_license: string | null;
+  brand: string | null;
   created_at: string;
   updated_at: string;
   completed_at: string | null;
 }
 
+// Square idempotency keys an order's invoicing used, per step
+export interface SquareIdempotencyKeys {
+  customer: string;
+  order: string;
+  invoice: string;
+  publish: string;
+}
+
+export interface SquareLocationMapping {
+  id: string;
+  seller_license: string | null;
+  brand: string | null;
+  square_location_id: string;
+  location_name: string;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InvoiceAmendment {
+  id: string;
+  processed_order_id: string;
+  order_number: string;
+  amendment_number: number;
+  amended_by: string;
+  correlation_id: string;
+  previous_amount_cents: number;
+  new_amount_cents: number;
+  previous_line_items: LineItem[] | null;
+  new_line_items: LineItem[] | null;
+  previous_adjustments: OrderAdjustment[] | null;
+  new_adjustments: OrderAdjustment[] | null;
+  square_order_id: string;
+  square_invoice_id: string;
+  square_order_version: number | null;
+  square_invoice_version: number | null;
+  created_at: string;
+}
+
 export interface InvoiceAuditLog {
   id: string;
   correlation_id: string;
@@ -143,6 +493,8 @@ export interface InvoiceAuditLog {
   error_message: string | null;
   request_timestamp: string | null;
   steps_completed: string[] | null;
+  payment_terms: PaymentTerms | null;
+  reason: string | null; // Required for VOIDED
   metadata: Record<string, unknown>;
   created_at: string;
 }
@@ -155,7 +507,9 @@ export type AuditResult =
   | 'UNAUTHORIZED'
   | 'AUTH_MISSING'
   | 'RATE_LIMITED'
-  | 'REPLAY_REJECTED';
+  | 'REPLAY_REJECTED'
+  | 'VOIDED'
+  | 'AMENDED';
 
 // ============================================================================
 // Session Types
@@ -183,6 +537,26 @@ export interface ModalState {
   isLoading?: boolean;
 }
 
+export type QueueItemStatus =
+  | 'parsing'
+  | 'ready'
+  | 'skipped'
+  | 'invalid'
+  | 'duplicate'
+  | 'sending'
+  | 'waiting' // paused on a rate limit until retry_after elapses
+  | 'sent'
+  | 'failed';
+
+export interface QueueItem {
+  id: number;
+  fileName: string;
+  status: QueueItemStatus;
+  data?: ParsedOrderData;
+  message?: string;
+  retryable?: boolean; // false when a failed item must be fixed before sending again
+}
+
 export interface ButtonState {
   isDisabled: boolean;
   isLoading: boolean;
@@ -1,10 +1,50 @@
 console.log('[Popup] Script loading...');
 
 import { signIn, signOut, getUser, onAuthStateChange } from '../lib/supabase';
-import { parseCultiveraInvoice, parseOrderData } from '../lib/pdf-parser';
-import { createInvoice, checkOrderStatus, formatCurrency, getErrorMessage, getErrorTitle } from '../lib/api';
-import { addToLocalLog } from '../lib/storage';
-import { ScrapedOrderData, ParsedOrderData } from '../lib/types';
+import {
+  parseCultiveraInvoice,
+  parseOrderData,
+  parseCurrencyToCents,
+  getValidationErrors,
+  getFieldOverrides,
+  getLowConfidenceFields,
+  FIELD_LABELS,
+} from '../lib/pdf-parser';
+import {
+  createInvoice,
+  cancelInvoice,
+  checkOrderStatus,
+  getPaymentTerms,
+  getInvoiceDeliverySettings,
+  getSquareLocation,
+  formatCurrency,
+  formatPaymentTerms,
+  formatPaymentStatus,
+  getErrorMessage,
+  getErrorTitle,
+  getFailureMessage,
+  waitForInvoiceJob,
+} from '../lib/api';
+import { diffInvoicedOrder, OrderChange } from '../lib/order-diff';
+import { addToLocalLog, clearPendingInvoiceJobs, getPendingInvoiceJobs } from '../lib/storage';
+import {
+  ScrapedOrderData,
+  ParsedOrderData,
+  PDFParseResult,
+  ScrapedField,
+  CreateInvoiceResponse,
+  QueueItem,
+  QueueItemStatus,
+  PaymentTerms,
+  PaymentTermsResponse,
+  PaymentSchedule,
+  InvoiceDeliverySettings,
+  CustomerCandidate,
+  SquareErrorKind,
+  SquareLocationResponse,
+  OrderStatusResponse,
+  InvoiceJobResponse,
+} from '../lib/types';
 
 console.log('[Popup] Imports loaded');
 
@@ -20,29 +60,69 @@ const loginButton = document.getElementById('login-button') as HTMLButtonElement
 const loginError = document.getElementById('login-error')!;
 const userEmail = document.getElementById('user-email')!;
 const signOutButton = document.getElementById('sign-out-button') as HTMLButtonElement;
+const pendingNotice = document.getElementById('pending-notice')!;
 
 // Upload elements
 const uploadZone = document.getElementById('upload-zone')!;
 const fileInput = document.getElementById('file-input') as HTMLInputElement;
 const processingState = document.getElementById('processing-state')!;
+const processingMessage = document.getElementById('processing-message')!;
 const parseResult = document.getElementById('parse-result')!;
 const parseError = document.getElementById('parse-error')!;
 const successState = document.getElementById('success-state')!;
 
 // Result elements
-const resultOrderNumber = document.getElementById('result-order-number')!;
-const resultCustomerName = document.getElementById('result-customer-name')!;
-const resultCustomerEmail = document.getElementById('result-customer-email')!;
-const resultAmount = document.getElementById('result-amount')!;
+const resultOrderNumber = document.getElementById('result-order-number') as HTMLInputElement;
+const resultCustomerName = document.getElementById('result-customer-name') as HTMLInputElement;
+const resultCustomerEmail = document.getElementById('result-customer-email') as HTMLInputElement;
+const resultAmount = document.getElementById('result-amount') as HTMLInputElement;
+const resultPaymentTerms = document.getElementById('result-payment-terms') as HTMLSelectElement;
+const resultPaymentPlan = document.getElementById('result-payment-plan') as HTMLSelectElement;
+const resultInstallmentCount = document.getElementById('result-installment-count') as HTMLInputElement;
+const resultSchedule = document.getElementById('result-schedule')!;
+const resultSendDate = document.getElementById('result-send-date') as HTMLInputElement;
+const resultReminders = document.getElementById('result-reminders')!;
+const resultErrors = document.getElementById('result-errors')!;
+const resultTemplate = document.getElementById('result-template')!;
+const resultLocation = document.getElementById('result-location')!;
+const resultLicense = document.getElementById('result-license')!;
+const resultManifest = document.getElementById('result-manifest')!;
+const resultPhone = document.getElementById('result-phone')!;
+const resultAddress = document.getElementById('result-address')!;
+const resultLineItems = document.getElementById('result-line-items')!;
+const resultReviewNotice = document.getElementById('result-review-notice')!;
+const resultResumeNotice = document.getElementById('result-resume-notice')!;
+const customerMatch = document.getElementById('customer-match')!;
+const customerCandidates = document.getElementById('customer-candidates')!;
 const sendInvoiceBtn = document.getElementById('send-invoice-btn') as HTMLButtonElement;
 const uploadAnotherBtn = document.getElementById('upload-another-btn') as HTMLButtonElement;
 
+// Queue elements
+const queueView = document.getElementById('queue-view')!;
+const queueSummary = document.getElementById('queue-summary')!;
+const queueList = document.getElementById('queue-list')!;
+const queueNotice = document.getElementById('queue-notice')!;
+const sendAllBtn = document.getElementById('send-all-btn') as HTMLButtonElement;
+const clearQueueBtn = document.getElementById('clear-queue-btn') as HTMLButtonElement;
+
 // Error elements
 const errorTitle = document.getElementById('error-title')!;
 const errorDetails = document.getElementById('error-details')!;
 const retryUploadBtn = document.getElementById('retry-upload-btn') as HTMLButtonElement;
+const errorSquareDetails = document.getElementById('error-square-details')!;
+const sendAgainBtn = document.getElementById('send-again-btn') as HTMLButtonElement;
+const editOrderBtn = document.getElementById('edit-order-btn') as HTMLButtonElement;
+const amendPanel = document.getElementById('amend-panel')!;
+const amendChanges = document.getElementById('amend-changes')!;
+const amendError = document.getElementById('amend-error')!;
+const amendInvoiceBtn = document.getElementById('amend-invoice-btn') as HTMLButtonElement;
+const voidPanel = document.getElementById('void-panel')!;
+const voidReason = document.getElementById('void-reason') as HTMLTextAreaElement;
+const voidError = document.getElementById('void-error')!;
+const voidInvoiceBtn = document.getElementById('void-invoice-btn') as HTMLButtonElement;
 
 // Success elements
+const successTitle = document.getElementById('success-title')!;
 const successDetails = document.getElementById('success-details')!;
 const uploadNewBtn = document.getElementById('upload-new-btn') as HTMLButtonElement;
 
@@ -51,6 +131,79 @@ const uploadNewBtn = document.getElementById('upload-new-btn') as HTMLButtonElem
 // ============================================================================
 
 let currentParsedData: ParsedOrderData | null = null;
+let currentScrapedData: ScrapedOrderData | null = null; // as parsed, before review edits
+let currentTermsOnFile: PaymentTermsResponse | null = null; // null if the lookup failed
+let currentDeliverySettings: InvoiceDeliverySettings | null = null; // null if the lookup failed
+let currentCustomerCandidates: CustomerCandidate[] | null = null; // set when Square matching needs the invoicer
+// Already-invoiced PDF shown on the error screen, kept so it can be amended or resent after a void
+let duplicateCandidate: { result: PDFParseResult; scraped: ScrapedOrderData; parsedData: ParsedOrderData } | null = null;
+
+let queue: QueueItem[] = [];
+let nextQueueItemId = 1;
+let queueBusy = false; // a send is in flight
+let queueRunning = false; // "Send All Valid" loop is active
+let followedJobId: string | null = null; // pending invoice shown in the notice
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Pause between batch sends so a burst doesn't trip the edge function's rate limits
+const QUEUE_SEND_INTERVAL_MS = 1500;
+
+// Longest rate-limit pause the batch will sit through before stopping
+const MAX_RATE_LIMIT_WAIT_SECONDS = 15 * 60;
+
+const RATE_LIMIT_CODES = ['RATE_LIMITED_USER', 'RATE_LIMITED_GLOBAL'];
+
+// Money has moved on these, so they aren't voided; they're refunded in the dashboard
+const NON_VOIDABLE_PAYMENT_STATUSES = ['PARTIALLY_PAID', 'PAID', 'PARTIALLY_REFUNDED', 'REFUNDED'];
+
+// Invoices that may have nothing paid against them yet; the edge function checks Square before amending
+const AMENDABLE_PAYMENT_STATUSES = ['UNPAID', 'SCHEDULED', 'OVERDUE', 'PAYMENT_FAILED'];
+
+// Reminder choices offered alongside the organization defaults (days from the due date)
+const REMINDER_PRESET_DAYS = [-7, -3, 0, 7, 14, 30];
+
+// Square's limit per payment request
+const MAX_REMINDERS = 5;
+
+// Furthest out an invoice send can be scheduled
+const MAX_SEND_DELAY_DAYS = 90;
+
+// Square allows a deposit plus up to 12 installments; these match the edge function
+const MIN_INSTALLMENTS = 2;
+const MAX_INSTALLMENTS = 12;
+
+// Default gap between a deposit and the balance
+const BALANCE_DUE_DAYS = 30;
+
+// Radio value for "none of these" in the customer picker
+const NEW_CUSTOMER_CHOICE = 'new';
+
+const CUSTOMER_MATCH_LABELS: Record<CustomerCandidate['matched_by'][number], string> = {
+  email: 'email',
+  license: 'license',
+  company: 'name',
+};
+
+const TERMS_SOURCE_LABELS: Record<PaymentTermsResponse['source'], string> = {
+  license: 'on file for this license',
+  email: 'on file for this email',
+  default: 'default',
+};
+
+const QUEUE_STATUS_LABELS: Record<QueueItemStatus, string> = {
+  parsing: 'Parsing...',
+  ready: 'Ready',
+  skipped: 'Skipped',
+  invalid: 'Could not parse',
+  duplicate: 'Already sent',
+  sending: 'Sending...',
+  waiting: 'Waiting',
+  sent: 'Sent',
+  failed: 'Failed',
+};
 
 // ============================================================================
 // State Management
@@ -80,12 +233,18 @@ function showState(state: 'loading' | 'login' | 'signed-in'): void {
 /**
  * Show a specific upload state
  */
-function showUploadState(state: 'upload' | 'processing' | 'result' | 'error' | 'success'): void {
+function showUploadState(state: 'upload' | 'processing' | 'result' | 'queue' | 'error' | 'success'): void {
   uploadZone.classList.add('hidden');
   processingState.classList.add('hidden');
   parseResult.classList.add('hidden');
+  queueView.classList.add('hidden');
   parseError.classList.add('hidden');
   successState.classList.add('hidden');
+  amendPanel.classList.add('hidden');
+  voidPanel.classList.add('hidden');
+  errorSquareDetails.classList.add('hidden');
+  sendAgainBtn.classList.add('hidden');
+  editOrderBtn.classList.add('hidden');
 
   switch (state) {
     case 'upload':
@@ -97,6 +256,9 @@ function showUploadState(state: 'upload' | 'processing' | 'result' | 'error' | '
     case 'result':
       parseResult.classList.remove('hidden');
       break;
+    case 'queue':
+      queueView.classList.remove('hidden');
+      break;
     case 'error':
       parseError.classList.remove('hidden');
       break;
@@ -129,8 +291,13 @@ function hideLoginError(): void {
  * Handle a file upload
  */
 async function handleFile(file: File): Promise<void> {
+  processingMessage.textContent = 'Parsing PDF...';
   showUploadState('processing');
   currentParsedData = null;
+  currentScrapedData = null;
+  currentTermsOnFile = null;
+  currentDeliverySettings = null;
+  duplicateCandidate = null;
 
   try {
     const result = await parseCultiveraInvoice(file);
@@ -154,16 +321,35 @@ async function handleFile(file: File): Promise<void> {
     // Check if order was already processed
     const orderStatus = await checkOrderStatus(parsedData.order_number);
     if (orderStatus.exists && orderStatus.status === 'completed') {
-      errorTitle.textContent = 'Duplicate Order';
-      errorDetails.textContent = `Invoice already sent for order #${parsedData.order_number}. View in Square Dashboard.`;
+      const paymentStatus = formatPaymentStatus(orderStatus);
+      const sent = paymentStatus
+        ? `Invoice already sent for order #${parsedData.order_number} (${paymentStatus}).`
+        : `Invoice already sent for order #${parsedData.order_number}.`;
+      const changes = diffInvoicedOrder(orderStatus, parsedData);
+      // Orders invoiced before webhooks were set up have no payment status; Square decides
+      const amendable = changes.length > 0 &&
+        (!orderStatus.payment_status || AMENDABLE_PAYMENT_STATUSES.includes(orderStatus.payment_status));
+
+      errorTitle.textContent = amendable ? 'Order Changed' : 'Duplicate Order';
+      errorDetails.textContent = amendable
+        ? `${sent} Amend it to match this PDF?`
+        : `${sent} View in Square Dashboard.`;
       showUploadState('error');
+      duplicateCandidate = { result, scraped: result.data, parsedData };
+      if (amendable) {
+        showAmendPanel(changes);
+      }
+      if (
+        !NON_VOIDABLE_PAYMENT_STATUSES.includes(orderStatus.payment_status ?? '') &&
+        !orderStatus.paid_amount_cents
+      ) {
+        showVoidPanel();
+      }
       return;
     }
 
-    // Store parsed data and show result
-    currentParsedData = parsedData;
-    displayParseResult(result.data, parsedData);
-    showUploadState('result');
+    // A failed attempt is resumed; say what it got done
+    await showReview(result, result.data, parsedData, orderStatus.status === 'failed' ? orderStatus : null);
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
     errorTitle.textContent = 'Could not parse PDF';
@@ -172,20 +358,532 @@ async function handleFile(file: File): Promise<void> {
   }
 }
 
+/**
+ * Look up the customer's terms and the delivery defaults, then show the
+ * review form for a parsed PDF
+ */
+async function showReview(
+  result: PDFParseResult,
+  scraped: ScrapedOrderData,
+  parsedData: ParsedOrderData,
+  failedAttempt: OrderStatusResponse | null = null
+): Promise<void> {
+  currentParsedData = parsedData;
+  currentScrapedData = scraped;
+  displayCustomerCandidates(null);
+  displayResumeNotice(failedAttempt?.steps_completed ?? []);
+  let location: SquareLocationResponse | null;
+  [currentTermsOnFile, currentDeliverySettings, location] = await Promise.all([
+    getPaymentTerms(parsedData.customer_email, parsedData.license_number),
+    getInvoiceDeliverySettings(),
+    getSquareLocation(parsedData.seller_license, parsedData.brand),
+  ]);
+  displayLocation(location, scraped);
+  displayPaymentTerms(currentTermsOnFile?.terms ?? '');
+  displayDelivery(currentDeliverySettings);
+  resultPaymentPlan.value = '';
+  displaySchedule();
+  displayParseResult(scraped, parsedData, result.fields);
+  resultTemplate.textContent = result.template ? `Layout: ${result.template.name}` : '';
+  showUploadState('result');
+}
+
+/**
+ * Say how far a failed attempt at this order got in Square. Sending again
+ * reuses what it created, if Square still has it unchanged, and carries on
+ * from the first step it didn't finish.
+ */
+function displayResumeNotice(steps: string[]): void {
+  const done: string[] = [];
+  if (steps.includes('customer_created') || steps.includes('customer_found')) done.push('customer');
+  if (steps.includes('order_created')) done.push('order');
+  if (steps.includes('invoice_created')) done.push('invoice');
+
+  resultResumeNotice.classList.toggle('hidden', done.length === 0);
+  if (done.length === 0) {
+    return;
+  }
+
+  const next = !steps.includes('order_created')
+    ? 'creating the order'
+    : !steps.includes('invoice_created')
+      ? 'creating the invoice'
+      : 'sending the invoice';
+  const list = done.length === 1 ? done[0] : `${done.slice(0, -1).join(', ')} and ${done[done.length - 1]}`;
+  resultResumeNotice.textContent =
+    `An earlier attempt already set up the ${list} in Square. Sending reuses ${done.length === 1 ? 'it' : 'them'} if nothing changed and carries on from ${next}.`;
+}
+
 /**
  * Display parsed order data
  */
-function displayParseResult(scraped: ScrapedOrderData, parsed: ParsedOrderData): void {
-  resultOrderNumber.textContent = `#${parsed.order_number}`;
-  resultCustomerName.textContent = scraped.customer_name;
-  resultCustomerEmail.textContent = scraped.customer_email;
-  resultAmount.textContent = formatCurrency(parsed.amount_cents);
+function displayParseResult(
+  scraped: ScrapedOrderData,
+  parsed: ParsedOrderData,
+  fields: PDFParseResult['fields']
+): void {
+  resultOrderNumber.value = parsed.order_number;
+  resultCustomerName.value = scraped.customer_name;
+  resultCustomerEmail.value = scraped.customer_email;
+  resultAmount.value = formatCurrency(parsed.amount_cents);
+  displayLineItems(parsed);
+  displayDetails(scraped);
+  displayFieldConfidence(fields);
+  validateReviewForm();
+}
+
+/**
+ * Show the optional details that go to the Square customer and invoice,
+ * hiding rows the PDF didn't have
+ */
+function displayDetails(scraped: ScrapedOrderData): void {
+  const details: Array<[HTMLElement, string | undefined]> = [
+    [resultLicense, scraped.license_number],
+    [resultManifest, scraped.manifest_number],
+    [resultPhone, scraped.customer_phone],
+    [resultAddress, scraped.ship_to_address?.replace(/\n/g, ', ')],
+  ];
+
+  for (const [element, value] of details) {
+    element.textContent = value || '';
+    element.closest('.detail-row')!.classList.toggle('hidden', !value);
+  }
+}
+
+/**
+ * Show which Square location the invoice will be billed from
+ */
+function displayLocation(location: SquareLocationResponse | null, scraped: ScrapedOrderData): void {
+  if (!location) {
+    resultLocation.textContent = 'Default location';
+    return;
+  }
+
+  const matchedOn = location.source === 'license'
+    ? `seller license ${scraped.seller_license}`
+    : `brand ${scraped.brand}`;
+  resultLocation.textContent = `${location.location_name} (${matchedOn})`;
+}
+
+/**
+ * Show the customer's terms on file in the terms picker and select `selected`.
+ * If the lookup failed, "Terms on file" leaves the choice to the server.
+ */
+function displayPaymentTerms(selected: PaymentTerms | ''): void {
+  for (const option of Array.from(resultPaymentTerms.options)) {
+    if (!option.value) {
+      option.hidden = currentTermsOnFile !== null;
+      continue;
+    }
+    const label = formatPaymentTerms(option.value as PaymentTerms);
+    option.textContent = option.value === currentTermsOnFile?.terms
+      ? `${label} (${TERMS_SOURCE_LABELS[currentTermsOnFile.source]})`
+      : label;
+  }
+  resultPaymentTerms.value = selected;
+}
+
+/**
+ * Look terms up again after the email changes, keeping any terms the reviewer chose
+ */
+async function refreshPaymentTerms(): Promise<void> {
+  const chosen = resultPaymentTerms.value as PaymentTerms | '';
+  const wasOverridden = chosen !== (currentTermsOnFile?.terms ?? '');
+
+  currentTermsOnFile = await getPaymentTerms(
+    resultCustomerEmail.value.trim(),
+    currentScrapedData?.license_number
+  );
+  displayPaymentTerms(wasOverridden ? chosen : currentTermsOnFile?.terms ?? '');
+  validateReviewForm();
+}
+
+/**
+ * Fill the send date and reminder choices from the organization defaults.
+ * Without them the rows stay hidden and the server applies its defaults.
+ */
+function displayDelivery(settings: InvoiceDeliverySettings | null): void {
+  resultSendDate.closest('.detail-row')!.classList.toggle('hidden', !settings);
+  resultReminders.closest('.detail-row')!.classList.toggle('hidden', !settings);
+  resultReminders.replaceChildren();
+
+  if (!settings) {
+    return;
+  }
+
+  const today = localDate(0);
+  resultSendDate.min = today;
+  resultSendDate.max = localDate(MAX_SEND_DELAY_DAYS);
+  resultSendDate.value = localDate(settings.send_delay_days);
+
+  const choices = [...new Set([...REMINDER_PRESET_DAYS, ...settings.reminder_days])].sort((a, b) => a - b);
+  for (const days of choices) {
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.value = String(days);
+    checkbox.checked = settings.reminder_days.includes(days);
+
+    const label = document.createElement('label');
+    label.append(checkbox, formatReminderDays(days));
+    resultReminders.appendChild(label);
+  }
+}
+
+/**
+ * Short label for a reminder relative to the due date
+ */
+function formatReminderDays(days: number): string {
+  if (days === 0) return 'Due date';
+  return days < 0 ? `${-days}d before` : `${days}d overdue`;
+}
+
+/**
+ * Local calendar date `days` from now as YYYY-MM-DD
+ */
+function localDate(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return formatLocalDate(date);
+}
+
+/**
+ * A YYYY-MM-DD date moved by whole months (clamped to the end of shorter
+ * months) and then by days
+ */
+function shiftDate(date: string, { months = 0, days = 0 }: { months?: number; days?: number }): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const lastDayOfMonth = new Date(year, month + months, 0).getDate();
+  return formatLocalDate(new Date(year, month - 1 + months, Math.min(day, lastDayOfMonth) + days));
+}
+
+function formatLocalDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Lay out the payments for the chosen plan: half up front and the balance
+ * later, or equal monthly installments from the send date. Each date and
+ * amount can then be edited; the balance is always what's left.
+ */
+function displaySchedule(): void {
+  const plan = resultPaymentPlan.value as PaymentSchedule['type'] | '';
+  resultInstallmentCount.closest('.detail-row')!.classList.toggle('hidden', plan !== 'INSTALLMENTS');
+  resultSchedule.closest('.detail-row')!.classList.toggle('hidden', !plan);
+  resultSchedule.replaceChildren();
+
+  if (!plan) {
+    return;
+  }
+
+  const totalCents = parseCurrencyToCents(resultAmount.value.trim()) ?? 0;
+  const sendDate = resultSendDate.value || localDate(0);
+
+  const addPayment = (label: string, dueDate: string, amountCents: number, isBalance = false) => {
+    const row = document.createElement('div');
+    row.className = 'schedule-payment';
+
+    const date = document.createElement('input');
+    date.type = 'date';
+    date.className = 'detail-input';
+    date.value = dueDate;
+
+    const amount = document.createElement('input');
+    amount.type = 'text';
+    amount.inputMode = 'decimal';
+    amount.className = 'detail-input';
+    amount.value = formatCurrency(amountCents);
+    amount.readOnly = isBalance;
+
+    row.append(label, date, amount);
+    resultSchedule.appendChild(row);
+  };
+
+  if (plan === 'DEPOSIT') {
+    const depositCents = Math.round(totalCents / 2);
+    addPayment('Deposit', sendDate, depositCents);
+    addPayment('Balance', shiftDate(sendDate, { days: BALANCE_DUE_DAYS }), totalCents - depositCents, true);
+    return;
+  }
+
+  const count = Math.min(
+    Math.max(Math.trunc(Number(resultInstallmentCount.value)) || MIN_INSTALLMENTS, MIN_INSTALLMENTS),
+    MAX_INSTALLMENTS
+  );
+  resultInstallmentCount.value = String(count);
+
+  // Cents that don't split evenly go on the last installment
+  const eachCents = Math.floor(totalCents / count);
+  for (let i = 0; i < count; i++) {
+    const amountCents = i === count - 1 ? totalCents - eachCents * (count - 1) : eachCents;
+    addPayment(`${i + 1} of ${count}`, shiftDate(sendDate, { months: i }), amountCents);
+  }
+}
+
+/**
+ * Read the payment schedule back from the form; null when paying in full.
+ * A deposit's balance is recalculated from the total so it always adds up.
+ */
+function readSchedule(totalCents: number): PaymentSchedule | null {
+  const type = resultPaymentPlan.value as PaymentSchedule['type'] | '';
+  if (!type) {
+    return null;
+  }
+
+  const rows = Array.from(resultSchedule.querySelectorAll<HTMLDivElement>('.schedule-payment'));
+  const payments = rows.map((row) => {
+    const [date, amount] = Array.from(row.querySelectorAll('input'));
+    return { due_date: date.value, amount_cents: parseCurrencyToCents(amount.value.trim()) ?? NaN };
+  });
+
+  if (type === 'DEPOSIT' && payments.length === 2) {
+    payments[1].amount_cents = totalCents - payments[0].amount_cents;
+    const balanceInput = rows[1].querySelectorAll('input')[1];
+    balanceInput.value = Number.isFinite(payments[1].amount_cents) ? formatCurrency(payments[1].amount_cents) : '';
+  }
+
+  return { type, payments };
+}
+
+/**
+ * Problems with a payment schedule, checked the same way as the edge function
+ */
+function getScheduleErrors(schedule: PaymentSchedule, totalCents: number, sendDate: string): string[] {
+  const errors: string[] = [];
+  const { payments } = schedule;
+
+  if (payments.some((payment) => !Number.isInteger(payment.amount_cents) || payment.amount_cents <= 0)) {
+    errors.push('Each payment needs an amount above zero.');
+  } else {
+    const sumCents = payments.reduce((sum, payment) => sum + payment.amount_cents, 0);
+    if (sumCents !== totalCents) {
+      errors.push(`Payments add up to ${formatCurrency(sumCents)}, not ${formatCurrency(totalCents)}.`);
+    }
+  }
+
+  const dueDates = payments.map((payment) => payment.due_date);
+  if (dueDates.some((date) => !date)) {
+    errors.push('Each payment needs a due date.');
+  } else if (dueDates.some((date, i) => i > 0 && date <= dueDates[i - 1])) {
+    errors.push('Payment due dates must be in order, on different days.');
+  } else if (dueDates[0] < sendDate) {
+    errors.push("The first payment can't be due before the invoice is sent.");
+  }
+
+  return errors;
+}
+
+/**
+ * Read the chosen reminders and send date; null when the defaults weren't loaded
+ */
+function readDelivery(): { reminder_days: number[]; send_date: string } | null {
+  if (!currentDeliverySettings) {
+    return null;
+  }
+
+  const checked = Array.from(resultReminders.querySelectorAll<HTMLInputElement>('input:checked'));
+  return {
+    reminder_days: checked.map((checkbox) => Number(checkbox.value)),
+    // Clearing the date means send now
+    send_date: resultSendDate.value || localDate(0),
+  };
+}
+
+/**
+ * Read the review form back into scraped-data form
+ */
+function readReviewForm(): ScrapedOrderData {
+  return {
+    ...currentScrapedData,
+    order_number: resultOrderNumber.value.trim().replace(/^#/, ''),
+    customer_name: resultCustomerName.value.trim(),
+    customer_email: resultCustomerEmail.value.trim(),
+    amount_due: resultAmount.value.trim(),
+  };
+}
+
+/**
+ * Validate the review form with the same rules as the parser, mark edited
+ * fields and enable Send only when the data is valid
+ */
+function validateReviewForm(): ParsedOrderData | null {
+  if (!currentScrapedData) {
+    return null;
+  }
+
+  const edited = readReviewForm();
+  const overrides = getFieldOverrides(currentScrapedData, edited);
+  const editedFields = overrides.map((override) => override.field);
+
+  const inputs: Record<ScrapedField, HTMLInputElement> = {
+    order_number: resultOrderNumber,
+    customer_name: resultCustomerName,
+    customer_email: resultCustomerEmail,
+    amount_due: resultAmount,
+  };
+  for (const [field, input] of Object.entries(inputs) as Array<[ScrapedField, HTMLInputElement]>) {
+    input.closest('.detail-row')!.classList.toggle('edited', editedFields.includes(field));
+  }
+
+  const delivery = readDelivery();
+  const errors = getValidationErrors(edited);
+  if (delivery && delivery.reminder_days.length > MAX_REMINDERS) {
+    errors.push(`Square allows at most ${MAX_REMINDERS} reminders.`);
+  }
+  if (delivery && (delivery.send_date < localDate(0) || delivery.send_date > localDate(MAX_SEND_DELAY_DAYS))) {
+    errors.push(`Send date must be between today and ${MAX_SEND_DELAY_DAYS} days from now.`);
+  }
+  if (currentCustomerCandidates && !readCustomerChoice()) {
+    errors.push('Choose the Square customer for this invoice.');
+  }
+  const totalCents = parseCurrencyToCents(edited.amount_due);
+  const schedule = totalCents !== null ? readSchedule(totalCents) : null;
+  if (schedule && totalCents !== null) {
+    errors.push(...getScheduleErrors(schedule, totalCents, delivery?.send_date ?? localDate(0)));
+  }
+  const parsed = errors.length === 0 ? parseOrderData(edited) : null;
+
+  if (!parsed) {
+    resultErrors.textContent = errors.length > 0 ? errors.join(' ') : 'Amount appears invalid.';
+    resultErrors.classList.remove('hidden');
+    sendInvoiceBtn.disabled = true;
+    return null;
+  }
+
+  resultErrors.classList.add('hidden');
+  sendInvoiceBtn.disabled = false;
+
+  if (overrides.length > 0) {
+    parsed.overrides = overrides;
+  }
+
+  // Terms are only sent when they differ from what the server would apply
+  const terms = resultPaymentTerms.value as PaymentTerms | '';
+  const termsOverridden = terms !== '' && terms !== currentTermsOnFile?.terms;
+  resultPaymentTerms.closest('.detail-row')!.classList.toggle('edited', termsOverridden);
+  if (termsOverridden) {
+    parsed.payment_terms = terms;
+  }
+  if (schedule) {
+    parsed.payment_schedule = schedule;
+  }
+
+  // What the reviewer sees is what gets sent, so defaults changed since
+  // the popup opened can't alter this invoice
+  if (delivery && currentDeliverySettings) {
+    parsed.reminder_days = delivery.reminder_days;
+    parsed.send_date = delivery.send_date;
+
+    const defaultDays = [...currentDeliverySettings.reminder_days].sort((a, b) => a - b);
+    resultReminders.closest('.detail-row')!.classList.toggle(
+      'edited',
+      delivery.reminder_days.join() !== defaultDays.join()
+    );
+    resultSendDate.closest('.detail-row')!.classList.toggle(
+      'edited',
+      delivery.send_date !== localDate(currentDeliverySettings.send_delay_days)
+    );
+  }
+
+  // Editing the amount can drop itemization, so keep the list in step
+  displayLineItems(parsed);
+
+  return parsed;
+}
+
+/**
+ * Highlight fields read with low confidence so they are checked before sending
+ */
+function displayFieldConfidence(fields: PDFParseResult['fields']): void {
+  const valueElements: Record<ScrapedField, HTMLElement> = {
+    order_number: resultOrderNumber,
+    customer_name: resultCustomerName,
+    customer_email: resultCustomerEmail,
+    amount_due: resultAmount,
+  };
+
+  const lowConfidence = getLowConfidenceFields(fields);
+
+  for (const [field, element] of Object.entries(valueElements) as Array<[ScrapedField, HTMLElement]>) {
+    const row = element.closest('.detail-row') as HTMLElement;
+    const provenance = fields?.[field];
+
+    row.classList.toggle('low-confidence', lowConfidence.includes(field));
+    row.title = provenance
+      ? `Read from${provenance.page ? ` page ${provenance.page}` : ''}: "${provenance.snippet}" (${provenance.confidence} confidence)`
+      : '';
+  }
+
+  if (lowConfidence.length > 0) {
+    const names = lowConfidence.map((field) => FIELD_LABELS[field].toLowerCase()).join(', ');
+    resultReviewNotice.textContent = `Check the highlighted fields against the PDF before sending: ${names}.`;
+    resultReviewNotice.classList.remove('hidden');
+  } else {
+    resultReviewNotice.classList.add('hidden');
+  }
+}
+
+/**
+ * Display the line items that will appear on the Square invoice
+ */
+function displayLineItems(parsed: ParsedOrderData): void {
+  resultLineItems.replaceChildren();
+
+  const lineItems = parsed.line_items ?? [];
+  const adjustments = parsed.adjustments ?? [];
+  if (lineItems.length === 0 && adjustments.length === 0) {
+    resultLineItems.classList.add('hidden');
+    return;
+  }
+
+  for (const item of lineItems) {
+    const row = document.createElement('li');
+    row.className = 'line-item';
+
+    const name = document.createElement('span');
+    name.className = 'line-item-name';
+    name.textContent = item.name;
+
+    const qty = document.createElement('span');
+    qty.className = 'line-item-qty';
+    qty.textContent = `${item.quantity} ${item.unit} @ ${formatCurrency(item.unit_price_cents)}`;
+    name.appendChild(qty);
+
+    const total = document.createElement('span');
+    total.className = 'line-item-total';
+    total.textContent = formatCurrency(item.total_cents);
+
+    row.append(name, total);
+    resultLineItems.appendChild(row);
+  }
+
+  // Discounts, taxes and fees as Square will show them below the items
+  for (const adjustment of adjustments) {
+    const row = document.createElement('li');
+    row.className = 'line-item adjustment';
+
+    const name = document.createElement('span');
+    name.className = 'line-item-name';
+    name.textContent = adjustment.name;
+
+    const total = document.createElement('span');
+    total.className = 'line-item-total';
+    const amount = formatCurrency(adjustment.amount_cents);
+    total.textContent = adjustment.type === 'discount' ? `-${amount}` : amount;
+
+    row.append(name, total);
+    resultLineItems.appendChild(row);
+  }
+
+  resultLineItems.classList.remove('hidden');
 }
 
 /**
  * Send invoice to Square
  */
 async function handleSendInvoice(): Promise<void> {
+  currentParsedData = validateReviewForm();
   if (!currentParsedData) {
     console.log('[Popup] No parsed data');
     return;
@@ -196,7 +894,12 @@ async function handleSendInvoice(): Promise<void> {
   sendInvoiceBtn.textContent = 'Sending...';
 
   try {
-    const result = await createInvoice(currentParsedData);
+    const result = await createInvoice(currentParsedData, {
+      ...readCustomerChoice(),
+      onProgress: (job) => {
+        sendInvoiceBtn.textContent = describeJobProgress(job);
+      },
+    });
     console.log('[Popup] Invoice result:', result);
 
     // Log the action locally
@@ -209,18 +912,12 @@ async function handleSendInvoice(): Promise<void> {
         : result.error?.message,
     });
 
-    if (result.success && result.data) {
-      successDetails.textContent = `Invoice #${result.data.invoice_number} has been emailed to the customer.`;
-      showUploadState('success');
+    if (result.error?.code === 'CUSTOMER_MATCH_AMBIGUOUS' && result.error.candidates) {
+      // Stay on the review form so the invoicer can pick and send again
+      displayCustomerCandidates(result.error.candidates);
+      validateReviewForm();
     } else {
-      console.log('[Popup] Invoice error response:', JSON.stringify(result, null, 2));
-      const errorCode = result.error?.code || '';
-      errorTitle.textContent = getErrorTitle(errorCode);
-      const errorMessage = result.error?.message
-        ? getErrorMessage(result.error.code, result.error.message)
-        : (typeof result === 'object' ? JSON.stringify(result) : 'An unexpected error occurred.');
-      errorDetails.textContent = errorMessage;
-      showUploadState('error');
+      displaySendResult(result);
     }
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
@@ -233,15 +930,770 @@ async function handleSendInvoice(): Promise<void> {
   }
 }
 
+/**
+ * Show how a send ended: the success page, or the error with what can be
+ * done about it. Send Again and Edit Order are only offered while the
+ * reviewed order is still loaded.
+ */
+function displaySendResult(result: CreateInvoiceResponse): void {
+  if (result.success && result.data) {
+    successTitle.textContent = 'Invoice Sent!';
+    successDetails.textContent = result.data.scheduled_at
+      ? `Invoice #${result.data.invoice_number} will be emailed to the customer on ${new Date(result.data.scheduled_at).toLocaleDateString()}.`
+      : `Invoice #${result.data.invoice_number} has been emailed to the customer.`;
+    showUploadState('success');
+    return;
+  }
+
+  console.log('[Popup] Invoice error response:', JSON.stringify(result, null, 2));
+  const errorCode = result.error?.code || '';
+  errorTitle.textContent = getErrorTitle(errorCode);
+  const errorMessage = result.error?.message
+    ? getFailureMessage(result.error)
+    : (typeof result === 'object' ? JSON.stringify(result) : 'An unexpected error occurred.');
+  errorDetails.textContent = errorMessage;
+  showUploadState('error');
+  if (result.error?.kind && currentParsedData) {
+    showSendFailureActions(result.error.kind, result.error.details ?? []);
+  }
+}
+
+/**
+ * What a queued invoice is doing, from the Square steps its worker has finished
+ */
+function describeJobProgress(job: InvoiceJobResponse): string {
+  const steps = job.steps_completed;
+  if (job.status === 'queued') return 'Queued...';
+  if (!steps.includes('customer_found') && !steps.includes('customer_created')) return 'Finding customer...';
+  if (!steps.includes('order_created')) return 'Creating order...';
+  if (!steps.includes('order_total_verified')) return 'Checking total...';
+  if (!steps.includes('invoice_created')) return 'Creating invoice...';
+  return 'Sending invoice...';
+}
+
+/**
+ * Follow the newest invoice still being sent when the popup last closed,
+ * through to its result, in a notice above the upload views so new orders can
+ * be started meanwhile. Older ones are left for the next time it opens.
+ */
+async function resumePendingInvoice(): Promise<void> {
+  const pending = await getPendingInvoiceJobs();
+  const job = pending[pending.length - 1];
+  if (!job) {
+    return;
+  }
+
+  followedJobId = job.jobId;
+  const label = `Sending order #${job.orderNumber}`;
+  const showNotice = (text: string) => {
+    // Signing out stops the notice; the poll just runs out
+    if (followedJobId === job.jobId) {
+      pendingNotice.textContent = text;
+      pendingNotice.classList.remove('hidden');
+    }
+  };
+  showNotice(`${label}...`);
+
+  const result = await waitForInvoiceJob(job.jobId, (progress) => {
+    showNotice(`${label}: ${describeJobProgress(progress)}`);
+  });
+  if (followedJobId !== job.jobId) {
+    return;
+  }
+
+  await addToLocalLog({
+    orderNumber: job.orderNumber,
+    action: 'create_invoice',
+    success: result.success,
+    message: result.success
+      ? `Invoice ${result.data?.invoice_number} created`
+      : result.error?.message,
+  });
+  showNotice(
+    result.success
+      ? `Order #${job.orderNumber} was sent as invoice #${result.data?.invoice_number}.`
+      : `Order #${job.orderNumber}: ${result.error ? getFailureMessage(result.error) : 'An unexpected error occurred.'}`
+  );
+}
+
+/**
+ * Stop following a resumed invoice and forget every pending one, so the next
+ * person to sign in here doesn't see them
+ */
+async function forgetPendingInvoices(): Promise<void> {
+  followedJobId = null;
+  pendingNotice.classList.add('hidden');
+  await clearPendingInvoiceJobs();
+}
+
+/**
+ * Offer the way forward after Square failed: the same invoice again when
+ * Square or the network failed, or back to the review form with Square's
+ * messages when it rejected the data. Credential problems only get the
+ * message, since an admin has to fix them.
+ */
+function showSendFailureActions(kind: SquareErrorKind, details: string[]): void {
+  if (kind === 'retryable') {
+    sendAgainBtn.classList.remove('hidden');
+  } else if (kind === 'validation') {
+    errorSquareDetails.replaceChildren(
+      ...details.map((detail) => {
+        const item = document.createElement('li');
+        item.textContent = detail;
+        return item;
+      })
+    );
+    errorSquareDetails.classList.toggle('hidden', details.length === 0);
+    editOrderBtn.classList.remove('hidden');
+  }
+}
+
+/**
+ * Resend the reviewed invoice after a failure Square said may pass next time.
+ * The server resumes the earlier attempt with the same idempotency keys.
+ */
+async function handleSendAgain(): Promise<void> {
+  showUploadState('result');
+  await handleSendInvoice();
+}
+
+/**
+ * Back to the review form, as filled in, to fix what Square rejected
+ */
+function handleEditOrder(): void {
+  showUploadState('result');
+  validateReviewForm();
+}
+
+// ============================================================================
+// Customer Choice
+// ============================================================================
+
+/**
+ * Show the Square customers the server couldn't choose between, plus a
+ * "new customer" option. Null hides the picker.
+ */
+function displayCustomerCandidates(candidates: CustomerCandidate[] | null): void {
+  currentCustomerCandidates = candidates;
+  customerCandidates.replaceChildren();
+  customerMatch.classList.toggle('hidden', !candidates);
+  if (!candidates) {
+    return;
+  }
+
+  const addOption = (value: string, name: string, meta: string) => {
+    const label = document.createElement('label');
+    label.className = 'customer-candidate';
+
+    const radio = document.createElement('input');
+    radio.type = 'radio';
+    radio.name = 'customer-candidate';
+    radio.value = value;
+
+    const nameText = document.createElement('span');
+    nameText.textContent = name;
+
+    const metaText = document.createElement('span');
+    metaText.className = 'customer-candidate-meta';
+    metaText.textContent = meta;
+
+    label.append(radio, nameText, metaText);
+    customerCandidates.appendChild(label);
+  };
+
+  for (const candidate of candidates) {
+    const meta = [
+      candidate.email_address,
+      candidate.license_number ? `License ${candidate.license_number}` : undefined,
+      `matched by ${candidate.matched_by.map((reason) => CUSTOMER_MATCH_LABELS[reason]).join(', ')}`,
+    ].filter(Boolean).join(' · ');
+    addOption(candidate.id, candidate.name, meta);
+  }
+  addOption(NEW_CUSTOMER_CHOICE, 'None of these', 'Create a new Square customer');
+}
+
+/**
+ * The picked customer as createInvoice options, or null if the picker is
+ * showing and nothing is picked yet
+ */
+function readCustomerChoice(): { squareCustomerId?: string; createCustomer?: boolean } | null {
+  if (!currentCustomerCandidates) {
+    return {};
+  }
+
+  const checked = customerCandidates.querySelector<HTMLInputElement>('input[name="customer-candidate"]:checked');
+  if (!checked) {
+    return null;
+  }
+  return checked.value === NEW_CUSTOMER_CHOICE ? { createCustomer: true } : { squareCustomerId: checked.value };
+}
+
+// ============================================================================
+// Amend Invoice
+// ============================================================================
+
+/**
+ * List what changed since the duplicate order was invoiced and offer to amend
+ */
+function showAmendPanel(changes: OrderChange[]): void {
+  amendChanges.replaceChildren();
+
+  for (const change of changes) {
+    const row = document.createElement('li');
+    row.className = 'line-item';
+
+    const name = document.createElement('span');
+    name.className = 'line-item-name';
+    name.textContent = change.label;
+
+    const value = document.createElement('span');
+    value.className = 'line-item-change';
+    if (change.before === null) {
+      value.textContent = `Added: ${change.after}`;
+    } else if (change.after === null) {
+      value.textContent = `Removed: ${change.before}`;
+    } else {
+      const before = document.createElement('span');
+      before.className = 'before';
+      before.textContent = change.before;
+      value.append(before, change.after);
+    }
+
+    row.append(name, value);
+    amendChanges.appendChild(row);
+  }
+
+  amendError.classList.add('hidden');
+  amendInvoiceBtn.disabled = false;
+  amendPanel.classList.remove('hidden');
+}
+
+/**
+ * Update the duplicate order's Square invoice to match the uploaded PDF
+ */
+async function handleAmendInvoice(): Promise<void> {
+  if (!duplicateCandidate) {
+    return;
+  }
+
+  const { parsedData } = duplicateCandidate;
+  amendInvoiceBtn.disabled = true;
+  amendInvoiceBtn.textContent = 'Amending...';
+  amendError.classList.add('hidden');
+
+  try {
+    const result = await createInvoice(parsedData, { amend: true });
+
+    await addToLocalLog({
+      orderNumber: parsedData.order_number,
+      action: 'amend_invoice',
+      success: result.success,
+      message: result.success
+        ? `Invoice ${result.data?.invoice_number} amended to ${formatCurrency(parsedData.amount_cents)}`
+        : result.error?.message,
+    });
+
+    if (result.success && result.data) {
+      duplicateCandidate = null;
+      successTitle.textContent = 'Invoice Amended!';
+      successDetails.textContent = `Invoice #${result.data.invoice_number} now totals ${formatCurrency(parsedData.amount_cents)}.`;
+      showUploadState('success');
+    } else {
+      const code = result.error?.code || '';
+      amendError.textContent = result.error
+        ? getFailureMessage(result.error)
+        : getErrorMessage(code, 'Could not amend the invoice.');
+      amendError.classList.remove('hidden');
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    amendError.textContent = `Failed to amend invoice: ${message}`;
+    amendError.classList.remove('hidden');
+  } finally {
+    amendInvoiceBtn.disabled = false;
+    amendInvoiceBtn.textContent = 'Amend Invoice';
+  }
+}
+
+// ============================================================================
+// Void Invoice
+// ============================================================================
+
+/**
+ * Offer to void the invoice of the duplicate order on the error screen
+ */
+function showVoidPanel(): void {
+  voidReason.value = '';
+  voidError.classList.add('hidden');
+  voidInvoiceBtn.disabled = true;
+  voidPanel.classList.remove('hidden');
+}
+
+/**
+ * Void the duplicate order's invoice, then open the same PDF for review so
+ * the corrected order can be sent
+ */
+async function handleVoidInvoice(): Promise<void> {
+  const reason = voidReason.value.trim();
+  if (!duplicateCandidate || !reason) {
+    return;
+  }
+
+  const { result, scraped, parsedData } = duplicateCandidate;
+  voidInvoiceBtn.disabled = true;
+  voidInvoiceBtn.textContent = 'Voiding...';
+  voidError.classList.add('hidden');
+
+  try {
+    const response = await cancelInvoice(parsedData.order_number, reason);
+
+    await addToLocalLog({
+      orderNumber: parsedData.order_number,
+      action: 'void_invoice',
+      success: response.success,
+      message: response.success ? `Invoice ${response.data?.action}: ${reason}` : response.error?.message,
+    });
+
+    if (response.success) {
+      duplicateCandidate = null;
+      await showReview(result, scraped, parsedData);
+    } else {
+      const code = response.error?.code || '';
+      voidError.textContent = response.error
+        ? getFailureMessage(response.error)
+        : getErrorMessage(code, 'Could not void the invoice.');
+      voidError.classList.remove('hidden');
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    voidError.textContent = `Failed to void invoice: ${message}`;
+    voidError.classList.remove('hidden');
+  } finally {
+    voidInvoiceBtn.disabled = voidReason.value.trim().length === 0;
+    voidInvoiceBtn.textContent = 'Void Invoice';
+  }
+}
+
 /**
  * Reset to upload state
  */
 function resetToUpload(): void {
+  duplicateCandidate = null;
   currentParsedData = null;
+  currentScrapedData = null;
+  currentTermsOnFile = null;
+  currentDeliverySettings = null;
+  queueRunning = false;
+  queue = [];
+  queueNotice.classList.add('hidden');
   fileInput.value = '';
   showUploadState('upload');
 }
 
+// ============================================================================
+// Batch Queue
+// ============================================================================
+
+/**
+ * Route selected or dropped files: one file uses the single-invoice flow,
+ * several files go through the queue
+ */
+function handleFiles(files: File[]): void {
+  if (files.length === 0) {
+    return;
+  }
+
+  if (files.length === 1) {
+    handleFile(files[0]);
+    return;
+  }
+
+  handleBatch(files);
+}
+
+/**
+ * Parse a batch of PDFs one at a time and build the queue
+ */
+async function handleBatch(files: File[]): Promise<void> {
+  queue = files.map((file) => ({
+    id: nextQueueItemId++,
+    fileName: file.name,
+    status: 'parsing' as const,
+  }));
+  queueNotice.classList.add('hidden');
+  renderQueue();
+  showUploadState('queue');
+
+  // Parse sequentially - pdf.js is memory hungry and the popup is small
+  const batch = queue;
+  for (let i = 0; i < files.length; i++) {
+    if (queue !== batch) {
+      // Queue was cleared while parsing
+      return;
+    }
+
+    await parseQueueItem(batch[i], files[i]);
+    renderQueue();
+  }
+}
+
+/**
+ * Parse one queued file and check it for duplicates
+ */
+async function parseQueueItem(item: QueueItem, file: File): Promise<void> {
+  try {
+    const result = await parseCultiveraInvoice(file);
+
+    if (!result.success || !result.data) {
+      item.status = 'invalid';
+      item.message = result.errors.join(' ');
+      return;
+    }
+
+    const parsedData = parseOrderData(result.data);
+    if (!parsedData) {
+      item.status = 'invalid';
+      item.message = 'Could not parse order amount.';
+      return;
+    }
+
+    item.data = parsedData;
+
+    // Same order dropped twice in one batch
+    const earlier = queue
+      .slice(0, queue.indexOf(item))
+      .find((other) => other.data?.order_number === parsedData.order_number);
+    if (earlier) {
+      item.status = 'duplicate';
+      item.message = `Same order as ${earlier.fileName}.`;
+      return;
+    }
+
+    const orderStatus = await checkOrderStatus(parsedData.order_number);
+    if (orderStatus.exists && orderStatus.status === 'completed') {
+      item.status = 'duplicate';
+      const paymentStatus = formatPaymentStatus(orderStatus);
+      item.message = paymentStatus
+        ? `Invoice already sent for this order (${paymentStatus}).`
+        : 'Invoice already sent for this order.';
+      return;
+    }
+
+    item.status = 'ready';
+    const lowConfidence = getLowConfidenceFields(result.fields);
+    item.message = lowConfidence.length > 0
+      ? `Check ${lowConfidence.map((field) => FIELD_LABELS[field].toLowerCase()).join(', ')}`
+      : undefined;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    item.status = 'invalid';
+    item.message = `Failed to parse PDF: ${message}`;
+  }
+}
+
+/**
+ * Render the queue list, summary and controls
+ */
+function renderQueue(): void {
+  queueList.replaceChildren(...queue.map(renderQueueItem));
+
+  const counts = queue.reduce<Partial<Record<QueueItemStatus, number>>>((acc, item) => {
+    acc[item.status] = (acc[item.status] || 0) + 1;
+    return acc;
+  }, {});
+  const parts = [`${queue.length} files`];
+  if (counts.ready) parts.push(`${counts.ready} ready`);
+  if (counts.sent) parts.push(`${counts.sent} sent`);
+  if (counts.failed) parts.push(`${counts.failed} failed`);
+  queueSummary.textContent = parts.join(' · ');
+
+  const stillParsing = queue.some((item) => item.status === 'parsing');
+  if (queueRunning) {
+    sendAllBtn.disabled = false;
+    sendAllBtn.textContent = 'Stop Sending';
+  } else {
+    sendAllBtn.disabled = queueBusy || stillParsing || !counts.ready;
+    sendAllBtn.textContent = counts.ready ? `Send All Valid (${counts.ready})` : 'Send All Valid';
+  }
+  clearQueueBtn.disabled = queueBusy;
+}
+
+/**
+ * Render a single queue row
+ */
+function renderQueueItem(item: QueueItem): HTMLLIElement {
+  const row = document.createElement('li');
+  row.className = 'queue-item';
+
+  const header = document.createElement('div');
+  header.className = 'queue-item-header';
+
+  const title = document.createElement('span');
+  title.className = 'queue-item-title';
+  title.textContent = item.data
+    ? `#${item.data.order_number} · ${item.data.customer_name}`
+    : item.fileName;
+  header.appendChild(title);
+
+  if (item.data) {
+    const amount = document.createElement('span');
+    amount.className = 'queue-item-amount';
+    amount.textContent = formatCurrency(item.data.amount_cents);
+    header.appendChild(amount);
+  }
+
+  const meta = document.createElement('span');
+  meta.className = 'queue-item-meta';
+  const status = document.createElement('span');
+  status.className = `queue-status ${item.status}`;
+  status.textContent = QUEUE_STATUS_LABELS[item.status];
+  meta.appendChild(status);
+  if (item.message) {
+    meta.append(` - ${item.message}`);
+  }
+
+  row.append(header, meta);
+
+  const actions = document.createElement('div');
+  actions.className = 'queue-item-actions';
+
+  if (item.status === 'ready') {
+    actions.append(
+      createQueueButton('Send', 'btn-primary', () => handleSendQueueItem(item)),
+      createQueueButton('Skip', 'btn-secondary', () => setQueueItemStatus(item, 'skipped'))
+    );
+  } else if (item.status === 'skipped') {
+    actions.append(
+      createQueueButton('Include', 'btn-secondary', () => setQueueItemStatus(item, 'ready'))
+    );
+  } else if (item.status === 'failed' && item.retryable !== false) {
+    actions.append(
+      createQueueButton('Retry', 'btn-secondary', () => handleSendQueueItem(item))
+    );
+  }
+
+  if (actions.childElementCount > 0) {
+    row.appendChild(actions);
+  }
+
+  return row;
+}
+
+/**
+ * Create a small action button for a queue row
+ */
+function createQueueButton(label: string, variant: string, onClick: () => void): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.className = `btn ${variant}`;
+  button.textContent = label;
+  button.disabled = queueBusy || queueRunning;
+  button.addEventListener('click', onClick);
+  return button;
+}
+
+/**
+ * Change a queue item's status (send/skip choice) and re-render
+ */
+function setQueueItemStatus(item: QueueItem, status: QueueItemStatus): void {
+  item.status = status;
+  item.message = undefined;
+  renderQueue();
+}
+
+/**
+ * Send a single queue item from its row button
+ */
+async function handleSendQueueItem(item: QueueItem): Promise<void> {
+  if (queueBusy || queueRunning) {
+    return;
+  }
+
+  await sendQueueItem(item, false);
+  renderQueue();
+}
+
+/**
+ * Send every ready item in order, pacing requests and pausing on rate limits
+ */
+async function handleSendAll(): Promise<void> {
+  if (queueRunning) {
+    // Button doubles as "Stop Sending" while the batch runs
+    queueRunning = false;
+    renderQueue();
+    return;
+  }
+
+  queueRunning = true;
+  renderQueue();
+
+  try {
+    for (const item of queue) {
+      if (!queueRunning) {
+        break;
+      }
+      if (item.status !== 'ready') {
+        continue;
+      }
+
+      const keepGoing = await sendQueueItem(item, true);
+      renderQueue();
+      if (!keepGoing) {
+        break;
+      }
+
+      if (queue.some((other) => other.status === 'ready')) {
+        await delay(QUEUE_SEND_INTERVAL_MS);
+      }
+    }
+  } finally {
+    queueRunning = false;
+    renderQueue();
+  }
+}
+
+/**
+ * Send one queue item. When a rate limit comes back and waiting is allowed,
+ * sit out retry_after and try again. Returns false when the batch should stop.
+ */
+async function sendQueueItem(item: QueueItem, waitOnRateLimit: boolean): Promise<boolean> {
+  if (!item.data) {
+    return true;
+  }
+
+  queueBusy = true;
+
+  try {
+    for (;;) {
+      item.status = 'sending';
+      item.message = undefined;
+      item.retryable = undefined;
+      renderQueue();
+
+      let result: CreateInvoiceResponse;
+      try {
+        result = await createInvoice(item.data, {
+          onProgress: (job) => {
+            item.message = describeJobProgress(job);
+            renderQueue();
+          },
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        item.status = 'failed';
+        item.message = `Failed to create invoice: ${message}`;
+        return true;
+      }
+
+      await addToLocalLog({
+        orderNumber: item.data.order_number,
+        action: 'create_invoice',
+        success: result.success,
+        message: result.success
+          ? `Invoice ${result.data?.invoice_number} created`
+          : result.error?.message,
+      });
+
+      if (result.success && result.data) {
+        item.status = 'sent';
+        item.message = `Invoice #${result.data.invoice_number}`;
+        return true;
+      }
+
+      const errorCode = result.error?.code || '';
+
+      if (RATE_LIMIT_CODES.includes(errorCode)) {
+        const retryAfter = result.error?.retry_after || 60;
+
+        if (!waitOnRateLimit || retryAfter > MAX_RATE_LIMIT_WAIT_SECONDS) {
+          item.status = 'ready';
+          item.message = `Rate limited. Try again in ${formatWait(retryAfter)}.`;
+          return false;
+        }
+
+        item.status = 'waiting';
+        item.message = `Rate limited. Retrying in ${formatWait(retryAfter)}.`;
+        renderQueue();
+
+        const waited = await waitForRetry(retryAfter);
+        if (!waited) {
+          item.status = 'ready';
+          item.message = undefined;
+          return false;
+        }
+        continue;
+      }
+
+      if (errorCode === 'DUPLICATE_ORDER') {
+        item.status = 'duplicate';
+      } else {
+        item.status = 'failed';
+      }
+      item.message = errorCode === 'CUSTOMER_MATCH_AMBIGUOUS'
+        ? 'Several Square customers match. Upload this PDF on its own to choose one.'
+        : result.error?.message
+          ? getFailureMessage(result.error)
+          : 'An unexpected error occurred.';
+      // Square rejected the data or the credentials; resending won't help
+      item.retryable = result.error?.kind !== 'validation' && result.error?.kind !== 'auth';
+      if (result.error?.kind === 'validation') {
+        item.message += ' Upload this PDF on its own to fix it.';
+      }
+      return true;
+    }
+  } finally {
+    queueBusy = false;
+  }
+}
+
+/**
+ * Count down a rate-limit pause in the queue notice.
+ * Resolves false if the batch is stopped before the wait ends.
+ */
+function waitForRetry(seconds: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    let remaining = seconds;
+
+    const tick = () => {
+      if (!queueRunning) {
+        clearInterval(timer);
+        queueNotice.classList.add('hidden');
+        resolve(false);
+        return;
+      }
+
+      if (remaining <= 0) {
+        clearInterval(timer);
+        queueNotice.classList.add('hidden');
+        resolve(true);
+        return;
+      }
+
+      queueNotice.textContent = `Rate limit reached. Resuming in ${formatWait(remaining)}. Keep this popup open.`;
+      queueNotice.classList.remove('hidden');
+      remaining--;
+    };
+
+    const timer = setInterval(tick, 1000);
+    tick();
+  });
+}
+
+/**
+ * Format a wait in seconds as m:ss
+ */
+function formatWait(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const secs = String(seconds % 60).padStart(2, '0');
+  return `${minutes}:${secs}`;
+}
+
+/**
+ * Sleep for the given number of milliseconds
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
 // ============================================================================
 // Event Handlers - Upload
 // ============================================================================
@@ -253,10 +1705,7 @@ uploadZone.addEventListener('click', () => {
 
 // File input change
 fileInput.addEventListener('change', () => {
-  const file = fileInput.files?.[0];
-  if (file) {
-    handleFile(file);
-  }
+  handleFiles(Array.from(fileInput.files || []));
 });
 
 // Drag and drop
@@ -277,10 +1726,7 @@ uploadZone.addEventListener('drop', (e) => {
   e.stopPropagation();
   uploadZone.classList.remove('dragover');
 
-  const file = e.dataTransfer?.files[0];
-  if (file) {
-    handleFile(file);
-  }
+  handleFiles(Array.from(e.dataTransfer?.files || []));
 });
 
 // Send invoice button
@@ -290,11 +1736,63 @@ sendInvoiceBtn.addEventListener('click', () => {
   handleSendInvoice();
 });
 
+// Queue buttons
+sendAllBtn.addEventListener('click', handleSendAll);
+clearQueueBtn.addEventListener('click', resetToUpload);
+
+// Review form fields
+for (const input of [resultOrderNumber, resultCustomerName, resultCustomerEmail, resultAmount]) {
+  input.addEventListener('input', () => {
+    validateReviewForm();
+  });
+}
+for (const input of [resultPaymentTerms, resultSendDate, resultReminders]) {
+  input.addEventListener('change', () => {
+    validateReviewForm();
+  });
+}
+// A new plan, installment count or total lays the payments out again
+for (const input of [resultPaymentPlan, resultInstallmentCount, resultAmount]) {
+  input.addEventListener('change', () => {
+    displaySchedule();
+    validateReviewForm();
+  });
+}
+resultSchedule.addEventListener('input', () => {
+  validateReviewForm();
+});
+resultCustomerEmail.addEventListener('change', () => {
+  refreshPaymentTerms();
+});
+// Candidates were matched on the old name and email; the server matches again
+for (const input of [resultCustomerName, resultCustomerEmail]) {
+  input.addEventListener('change', () => {
+    if (currentCustomerCandidates) {
+      displayCustomerCandidates(null);
+      validateReviewForm();
+    }
+  });
+}
+customerCandidates.addEventListener('change', () => {
+  validateReviewForm();
+});
+
 // Upload another button
 uploadAnotherBtn.addEventListener('click', resetToUpload);
 
 // Retry button
 retryUploadBtn.addEventListener('click', resetToUpload);
+sendAgainBtn.addEventListener('click', handleSendAgain);
+editOrderBtn.addEventListener('click', handleEditOrder);
+
+// Void invoice (duplicate orders); a reason is required
+voidReason.addEventListener('input', () => {
+  voidInvoiceBtn.disabled = voidReason.value.trim().length === 0;
+});
+voidInvoiceBtn.addEventListener('click', handleVoidInvoice);
+
+// Amend invoice (changed duplicate orders)
+amendInvoiceBtn.addEventListener('click', handleAmendInvoice);
 
 // Upload new button (after success)
 uploadNewBtn.addEventListener('click', resetToUpload);
@@ -348,6 +1846,7 @@ signOutButton.addEventListener('click', async () => {
 
   try {
     await signOut();
+    await forgetPendingInvoices();
     showState('login');
     resetToUpload();
   } catch (error) {
@@ -375,6 +1874,8 @@ async function init(): Promise<void> {
       userEmail.textContent = user.email;
       showState('signed-in');
       showUploadState('upload');
+      // Not awaited: the upload view stays usable while it's followed
+      resumePendingInvoice();
     } else {
       showState('login');
     }
@@ -390,6 +1891,7 @@ async function init(): Promise<void> {
       showState('signed-in');
       showUploadState('upload');
     } else if (event === 'SIGNED_OUT') {
+      forgetPendingInvoices();
       showState('login');
       resetToUpload();
     }
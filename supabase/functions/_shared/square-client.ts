@@ -0,0 +1,226 @@
+// Square API client shared by the edge functions.
+// Retries rate limits, server errors and network failures with jittered
+// backoff inside the calling function's time budget, and turns whatever is
+// left into a SquareApiError that says whether trying again can help.
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SquareError {
+  category: string;
+  code: string;
+  detail?: string;
+  field?: string;
+}
+
+// retryable: Square or the network failed; the same request may succeed later
+// validation: Square rejected the data; sending it again won't help
+// auth: Square rejected the access token or its permissions; an admin must fix it
+export type SquareErrorKind = 'retryable' | 'validation' | 'auth';
+
+export interface SquareRequestOptions {
+  idempotencyKey?: string;
+  // A POST that only reads (searches, calculations) is as safe to resend as a GET
+  readOnly?: boolean;
+}
+
+export interface SquareClient {
+  request<T = Record<string, unknown>>(
+    endpoint: string,
+    method: string,
+    body?: unknown,
+    options?: SquareRequestOptions
+  ): Promise<T>;
+}
+
+export interface SquareClientConfig {
+  accessToken: string;
+  baseUrl: string;
+  apiVersion: string;
+  deadline: number; // epoch ms; no attempt starts or waits past it
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MAX_ATTEMPTS = 4;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8000;
+const ATTEMPT_TIMEOUT_MS = 15000;
+// Too little time left for an attempt to be worth starting
+const MIN_ATTEMPT_MS = 1000;
+
+/**
+ * Square API root. SQUARE_BASE_URL points the functions at another server
+ * (the local mock in tests); otherwise SQUARE_ENVIRONMENT=production picks
+ * live Square and anything else the sandbox.
+ */
+export function getSquareBaseUrl(): string {
+  const override = Deno.env.get('SQUARE_BASE_URL');
+  if (override) {
+    return override.replace(/\/+$/, '');
+  }
+  return Deno.env.get('SQUARE_ENVIRONMENT') === 'production'
+    ? 'https://connect.squareup.com'
+    : 'https://connect.squareupsandbox.com';
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export class SquareApiError extends Error {
+  constructor(
+    message: string,
+    readonly kind: SquareErrorKind,
+    readonly status: number | null, // null when no response came back
+    readonly errors: SquareError[],
+    readonly attempts: number
+  ) {
+    super(message);
+    this.name = 'SquareApiError';
+  }
+
+  // Whether Square said this about any of its errors
+  hasCode(code: string): boolean {
+    return this.errors.some((error) => error.code === code);
+  }
+}
+
+/**
+ * Classify a failed response by HTTP status, falling back to Square's error
+ * categories when the status alone doesn't say
+ */
+function classify(status: number, errors: SquareError[]): SquareErrorKind {
+  if (status === 401 || status === 403) {
+    return 'auth';
+  }
+  if (status === 429 || status >= 500) {
+    return 'retryable';
+  }
+  if (errors.some((error) => error.category === 'AUTHENTICATION_ERROR')) {
+    return 'auth';
+  }
+  if (errors.some((error) => error.category === 'RATE_LIMIT_ERROR' || error.category === 'API_ERROR')) {
+    return 'retryable';
+  }
+  return 'validation';
+}
+
+function describe(method: string, endpoint: string, errors: SquareError[], fallback: string): string {
+  const details = errors.map((error) => error.detail ?? error.code).filter(Boolean);
+  return `Square ${method} ${endpoint.split('?')[0]} failed: ${details.length > 0 ? details.join('; ') : fallback}`;
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+export function createSquareClient(config: SquareClientConfig): SquareClient {
+  return {
+    async request<T>(endpoint: string, method: string, body?: unknown, options: SquareRequestOptions = {}): Promise<T> {
+      // Without an idempotency key, a write that timed out may have gone
+      // through, so only a rate limit (never processed) is retried
+      const safeToResend = method === 'GET' || options.readOnly === true || options.idempotencyKey !== undefined;
+
+      const headers: Record<string, string> = {
+        'Square-Version': config.apiVersion,
+        'Authorization': `Bearer ${config.accessToken}`,
+        'Content-Type': 'application/json',
+      };
+      if (options.idempotencyKey) {
+        headers['Idempotency-Key'] = options.idempotencyKey;
+      }
+
+      for (let attempt = 1; ; attempt++) {
+        const remainingMs = config.deadline - Date.now();
+        let failure: SquareApiError;
+        let retryAfterMs: number | null = null;
+
+        try {
+          const response = await fetch(`${config.baseUrl}/v2${endpoint}`, {
+            method,
+            headers,
+            body: body ? JSON.stringify(body) : undefined,
+            signal: AbortSignal.timeout(Math.max(Math.min(ATTEMPT_TIMEOUT_MS, remainingMs), MIN_ATTEMPT_MS)),
+          });
+
+          const result = await response.json().catch(() => ({})) as { errors?: SquareError[] };
+          if (response.ok && !result.errors) {
+            return result as T;
+          }
+
+          const errors = result.errors ?? [];
+          const kind = classify(response.status, errors);
+          failure = new SquareApiError(
+            describe(method, endpoint, errors, `HTTP ${response.status}`),
+            kind,
+            response.status,
+            errors,
+            attempt
+          );
+
+          const isRateLimit = response.status === 429;
+          if (kind !== 'retryable' || (!safeToResend && !isRateLimit)) {
+            throw failure;
+          }
+
+          const retryAfter = Number(response.headers.get('Retry-After'));
+          if (retryAfter > 0) {
+            retryAfterMs = retryAfter * 1000;
+          }
+        } catch (error) {
+          if (error instanceof SquareApiError) {
+            throw error;
+          }
+          // Network failure or attempt timeout: no response at all
+          const message = error instanceof Error ? error.message : String(error);
+          failure = new SquareApiError(
+            describe(method, endpoint, [], message),
+            'retryable',
+            null,
+            [],
+            attempt
+          );
+          if (!safeToResend) {
+            throw failure;
+          }
+        }
+
+        // Full jitter spreads retries from concurrent invocations apart
+        const backoffMs = retryAfterMs ?? Math.random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (attempt - 1));
+        if (attempt >= MAX_ATTEMPTS || Date.now() + backoffMs + MIN_ATTEMPT_MS > config.deadline) {
+          throw failure;
+        }
+        await new Promise((resolve) => setTimeout(resolve, backoffMs));
+      }
+    },
+  };
+}
+
+// ============================================================================
+// Error Reporting
+// ============================================================================
+
+/**
+ * Kind of a caught failure. Anything that isn't a Square error (the database,
+ * a bug in the function) is treated as retryable.
+ */
+export function getErrorKind(error: unknown): SquareErrorKind {
+  return error instanceof SquareApiError ? error.kind : 'retryable';
+}
+
+// Square's full error array and how it was classified, for audit metadata
+export function getSquareErrorMetadata(error: unknown): Record<string, unknown> {
+  if (!(error instanceof SquareApiError)) {
+    return {};
+  }
+  return {
+    square_error_kind: error.kind,
+    square_http_status: error.status,
+    square_attempts: error.attempts,
+    square_errors: error.errors,
+  };
+}
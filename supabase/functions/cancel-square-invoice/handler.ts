@@ -0,0 +1,572 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import {
+  createSquareClient,
+  getErrorKind,
+  getSquareBaseUrl,
+  getSquareErrorMetadata,
+  SquareApiError,
+  SquareClient,
+  SquareErrorKind,
+} from '../_shared/square-client.ts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface CancelInvoiceRequest {
+  order_number: string;
+  reason: string;
+  request_timestamp: string;
+}
+
+interface SquareInvoice {
+  id: string;
+  version: number;
+  status: string;
+  payment_requests?: { total_completed_amount_money?: { amount: number } }[];
+}
+
+// What was done to the Square invoice
+type CancelAction = 'canceled' | 'deleted' | 'already_canceled';
+
+type ErrorCode =
+  | 'AUTH_MISSING'
+  | 'AUTH_INVALID'
+  | 'AUTH_EXPIRED'
+  | 'UNAUTHORIZED'
+  | 'VALIDATION_MISSING_FIELD'
+  | 'VALIDATION_INVALID_ORDER'
+  | 'REPLAY_REJECTED'
+  | 'ORDER_NOT_FOUND'
+  | 'INVOICE_NOT_CANCELABLE'
+  | 'SQUARE_CANCEL_ERROR'
+  | 'INTERNAL_ERROR';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const REPLAY_WINDOW_SECONDS = 120;
+const MAX_REASON_LENGTH = 500;
+// Invoices still waiting on their first payment. Square would also cancel a
+// partially paid one, but a reissue would bill the paid part again.
+const CANCELABLE_STATUSES = ['SCHEDULED', 'UNPAID'];
+const SQUARE_API_VERSION = '2024-01-18';
+// Square calls (with retries) stop here; Supabase ends the request at 150 s
+const SQUARE_TIME_BUDGET_MS = 100000;
+const SQUARE_AUTH_MESSAGE = 'Square rejected the access token or its permissions. Ask an admin to check the Square connection; trying again won\'t help.';
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function generateCorrelationId(): string {
+  return crypto.randomUUID();
+}
+
+function jsonResponse(
+  data: unknown,
+  status: number = 200,
+  correlationId?: string
+): Response {
+  const headers: Record<string, string> = {
+    ...CORS_HEADERS,
+    'Content-Type': 'application/json',
+  };
+  if (correlationId) {
+    headers['X-Correlation-ID'] = correlationId;
+  }
+  return new Response(JSON.stringify(data), { status, headers });
+}
+
+function errorResponse(
+  code: ErrorCode,
+  message: string,
+  status: number,
+  correlationId: string
+): Response {
+  return jsonResponse(
+    {
+      success: false,
+      correlation_id: correlationId,
+      error: { code, message },
+    },
+    status,
+    correlationId
+  );
+}
+
+/**
+ * Error response for a failed Square call. `kind` tells the popup whether to
+ * offer a retry or point the invoicer at an admin; `details` carries Square's
+ * own messages.
+ */
+function squareErrorResponse(
+  code: ErrorCode,
+  message: string,
+  status: number,
+  correlationId: string,
+  error: unknown
+): Response {
+  const kind: SquareErrorKind = getErrorKind(error);
+  const details = error instanceof SquareApiError
+    ? error.errors.map((squareError) => squareError.detail ?? squareError.code)
+    : [];
+  return jsonResponse(
+    {
+      success: false,
+      correlation_id: correlationId,
+      error: {
+        code,
+        message: kind === 'auth' ? SQUARE_AUTH_MESSAGE : message,
+        kind,
+        details,
+      },
+    },
+    status,
+    correlationId
+  );
+}
+
+function isValidOrderNumber(orderNumber: string): boolean {
+  // Order numbers should be alphanumeric, possibly with dashes
+  const orderRegex = /^[A-Za-z0-9-]+$/;
+  return orderRegex.test(orderNumber) && orderNumber.length > 0 && orderNumber.length <= 50;
+}
+
+// ============================================================================
+// Supabase Client
+// ============================================================================
+
+function createSupabaseClient(serviceRoleKey: string, supabaseUrl: string) {
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+}
+
+// ============================================================================
+// Square API Functions
+// ============================================================================
+
+async function getInvoice(invoiceId: string, square: SquareClient): Promise<SquareInvoice> {
+  const result = await square.request<{ invoice: SquareInvoice }>(`/invoices/${invoiceId}`, 'GET');
+  return result.invoice;
+}
+
+/**
+ * Drafts were never sent, so they're deleted outright. Anything Square can
+ * still collect on is canceled, which emails the customer a cancellation.
+ */
+async function cancelOrDeleteInvoice(
+  invoice: SquareInvoice,
+  square: SquareClient
+): Promise<CancelAction> {
+  if (invoice.status === 'CANCELED') {
+    return 'already_canceled';
+  }
+
+  if (invoice.status === 'DRAFT') {
+    await square.request(`/invoices/${invoice.id}?version=${invoice.version}`, 'DELETE');
+    return 'deleted';
+  }
+
+  await square.request(`/invoices/${invoice.id}/cancel`, 'POST', { version: invoice.version });
+  return 'canceled';
+}
+
+// ============================================================================
+// Audit Logging
+// ============================================================================
+
+async function logAudit(
+  supabase: ReturnType<typeof createClient>,
+  correlationId: string,
+  data: {
+    user_id?: string;
+    user_email?: string;
+    cultivera_order_number?: string;
+    customer_name?: string;
+    customer_email?: string;
+    amount_cents?: number;
+    square_invoice_id?: string;
+    result: string;
+    error_code?: string;
+    error_message?: string;
+    request_timestamp?: string;
+    reason?: string;
+    metadata?: Record<string, unknown>;
+  }
+): Promise<void> {
+  try {
+    await supabase.from('invoice_audit_log').insert({
+      correlation_id: correlationId,
+      ...data,
+    });
+  } catch (error) {
+    console.error('Failed to write audit log:', error);
+  }
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Handle one void request. index.ts serves this; tests call it with an
+ * in-memory database in place of the service role client.
+ */
+export async function handleRequest(
+  req: Request,
+  connectSupabase: typeof createSupabaseClient = createSupabaseClient
+): Promise<Response> {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: CORS_HEADERS });
+  }
+
+  const correlationId = generateCorrelationId();
+  const startedAt = Date.now();
+
+  // Only allow POST
+  if (req.method !== 'POST') {
+    return errorResponse('INTERNAL_ERROR', 'Method not allowed', 405, correlationId);
+  }
+
+  // Get environment variables
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  const squareAccessToken = Deno.env.get('SQUARE_ACCESS_TOKEN');
+
+  if (!supabaseUrl || !supabaseServiceKey || !squareAccessToken) {
+    console.error('Missing required environment variables');
+    return errorResponse('INTERNAL_ERROR', 'Server configuration error', 500, correlationId);
+  }
+
+  const supabase = connectSupabase(supabaseServiceKey, supabaseUrl);
+  const square = createSquareClient({
+    accessToken: squareAccessToken,
+    baseUrl: getSquareBaseUrl(),
+    apiVersion: SQUARE_API_VERSION,
+    deadline: startedAt + SQUARE_TIME_BUDGET_MS,
+  });
+
+  // ============================================================================
+  // 1. Authentication
+  // ============================================================================
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    await logAudit(supabase, correlationId, {
+      result: 'AUTH_MISSING',
+      error_code: 'AUTH_MISSING',
+      error_message: 'No authorization header provided',
+    });
+    return errorResponse('AUTH_MISSING', 'Authentication required', 401, correlationId);
+  }
+
+  const jwt = authHeader.replace('Bearer ', '');
+
+  // Validate the user's JWT using the service role client
+  const { data: { user }, error: authError } = await supabase.auth.getUser(jwt);
+
+  if (authError || !user) {
+    const code = authError?.message?.includes('expired') ? 'AUTH_EXPIRED' : 'AUTH_INVALID';
+    await logAudit(supabase, correlationId, {
+      result: 'AUTH_MISSING',
+      error_code: code,
+      error_message: authError?.message || 'Invalid authentication token',
+    });
+
+    const message = code === 'AUTH_EXPIRED' ? 'Session expired. Please sign in again.' : 'Invalid authentication';
+    return errorResponse(code, message, 401, correlationId);
+  }
+
+  // ============================================================================
+  // 2. Authorization
+  // ============================================================================
+  // Voiding is open to the same invoicers who send invoices
+  const { data: isAuthorized } = await supabase.rpc('is_authorized_invoicer', {
+    p_user_id: user.id,
+  });
+
+  if (!isAuthorized) {
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      result: 'UNAUTHORIZED',
+      error_code: 'UNAUTHORIZED',
+      error_message: 'User is not authorized to void invoices',
+    });
+    return errorResponse(
+      'UNAUTHORIZED',
+      'Your account is not authorized to void invoices. Contact your admin for access.',
+      403,
+      correlationId
+    );
+  }
+
+  // ============================================================================
+  // 3. Parse and Validate Request
+  // ============================================================================
+  let body: CancelInvoiceRequest;
+  try {
+    body = await req.json();
+  } catch {
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      result: 'VALIDATION_FAILED',
+      error_code: 'VALIDATION_MISSING_FIELD',
+      error_message: 'Invalid JSON body',
+    });
+    return errorResponse('VALIDATION_MISSING_FIELD', 'Invalid request body', 400, correlationId);
+  }
+
+  const { order_number, request_timestamp } = body;
+  const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+
+  if (!order_number || !request_timestamp || !reason) {
+    const missingFields = [];
+    if (!order_number) missingFields.push('order_number');
+    if (!reason) missingFields.push('reason');
+    if (!request_timestamp) missingFields.push('request_timestamp');
+
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      cultivera_order_number: order_number,
+      result: 'VALIDATION_FAILED',
+      error_code: 'VALIDATION_MISSING_FIELD',
+      error_message: `Missing required fields: ${missingFields.join(', ')}`,
+    });
+    return errorResponse(
+      'VALIDATION_MISSING_FIELD',
+      `Missing required fields: ${missingFields.join(', ')}`,
+      400,
+      correlationId
+    );
+  }
+
+  if (reason.length > MAX_REASON_LENGTH) {
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      cultivera_order_number: order_number,
+      result: 'VALIDATION_FAILED',
+      error_code: 'VALIDATION_MISSING_FIELD',
+      error_message: 'Void reason too long',
+    });
+    return errorResponse(
+      'VALIDATION_MISSING_FIELD',
+      `Reason must be ${MAX_REASON_LENGTH} characters or fewer`,
+      400,
+      correlationId
+    );
+  }
+
+  if (!isValidOrderNumber(order_number)) {
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      cultivera_order_number: order_number,
+      result: 'VALIDATION_FAILED',
+      error_code: 'VALIDATION_INVALID_ORDER',
+      error_message: 'Invalid order number format',
+    });
+    return errorResponse('VALIDATION_INVALID_ORDER', 'Invalid order number format', 400, correlationId);
+  }
+
+  // ============================================================================
+  // 4. Replay Protection
+  // ============================================================================
+  const requestTime = new Date(request_timestamp).getTime();
+  const ageSeconds = (Date.now() - requestTime) / 1000;
+
+  if (isNaN(requestTime) || ageSeconds > REPLAY_WINDOW_SECONDS || ageSeconds < -30) {
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      cultivera_order_number: order_number,
+      request_timestamp,
+      result: 'REPLAY_REJECTED',
+      error_code: 'REPLAY_REJECTED',
+      error_message: `Request timestamp outside acceptable window (${ageSeconds.toFixed(1)}s old)`,
+    });
+    return errorResponse('REPLAY_REJECTED', 'Request expired. Please try again.', 400, correlationId);
+  }
+
+  // ============================================================================
+  // 5. Find the Invoiced Order
+  // ============================================================================
+  const { data: existingOrder } = await supabase
+    .from('processed_orders')
+    .select('*')
+    .eq('order_number', order_number)
+    .single();
+
+  // Failed and in-flight orders have nothing to void; they can simply be resent
+  if (!existingOrder || existingOrder.status !== 'completed' || !existingOrder.square_invoice_id) {
+    const message = existingOrder?.status === 'voided'
+      ? `Invoice for order #${order_number} was already voided`
+      : `No sent invoice found for order #${order_number}`;
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      cultivera_order_number: order_number,
+      request_timestamp,
+      result: 'VALIDATION_FAILED',
+      error_code: 'ORDER_NOT_FOUND',
+      error_message: message,
+    });
+    return errorResponse('ORDER_NOT_FOUND', message, 404, correlationId);
+  }
+
+  const auditBase = {
+    user_id: user.id,
+    user_email: user.email,
+    cultivera_order_number: order_number,
+    customer_name: existingOrder.customer_name,
+    customer_email: existingOrder.customer_email,
+    amount_cents: existingOrder.amount_cents,
+    square_invoice_id: existingOrder.square_invoice_id,
+    request_timestamp,
+    reason,
+  };
+
+  // ============================================================================
+  // 6. Cancel or Delete in Square
+  // ============================================================================
+  let invoice: SquareInvoice;
+  let action: CancelAction;
+  try {
+    invoice = await getInvoice(existingOrder.square_invoice_id, square);
+
+    const paidCents = (invoice.payment_requests ?? [])
+      .reduce((sum, request) => sum + (request.total_completed_amount_money?.amount ?? 0), 0);
+    if (
+      paidCents > 0 ||
+      (invoice.status !== 'CANCELED' && invoice.status !== 'DRAFT' && !CANCELABLE_STATUSES.includes(invoice.status))
+    ) {
+      await logAudit(supabase, correlationId, {
+        ...auditBase,
+        result: 'FAILURE',
+        error_code: 'INVOICE_NOT_CANCELABLE',
+        error_message: paidCents > 0
+          ? `Square invoice is ${invoice.status} with ${paidCents} cents paid`
+          : `Square invoice is ${invoice.status}`,
+      });
+      return errorResponse(
+        'INVOICE_NOT_CANCELABLE',
+        paidCents > 0
+          ? `The invoice for order #${order_number} has payments against it in Square and can't be voided. Refund it from the Square Dashboard instead.`
+          : `The invoice for order #${order_number} is ${invoice.status.toLowerCase().replace(/_/g, ' ')} in Square and can't be voided. Refund it from the Square Dashboard instead.`,
+        409,
+        correlationId
+      );
+    }
+
+    action = await cancelOrDeleteInvoice(invoice, square);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    await logAudit(supabase, correlationId, {
+      ...auditBase,
+      result: 'FAILURE',
+      error_code: 'SQUARE_CANCEL_ERROR',
+      error_message: errorMessage,
+      metadata: getSquareErrorMetadata(error),
+    });
+    return squareErrorResponse(
+      'SQUARE_CANCEL_ERROR',
+      'Could not cancel the invoice in Square. Try again or cancel it from the Square Dashboard.',
+      502,
+      correlationId,
+      error
+    );
+  }
+
+  // ============================================================================
+  // 7. Mark the Order Voided
+  // ============================================================================
+  // Only while it's still the completed order that was checked: a reissue or
+  // amendment that got in first isn't overwritten
+  const now = new Date().toISOString();
+  const { data: voided, error: updateError } = await supabase
+    .from('processed_orders')
+    .update({
+      status: 'voided',
+      voided_at: now,
+      voided_by: user.id,
+      void_reason: reason,
+      payment_status: 'CANCELED',
+      payment_status_updated_at: now,
+      updated_at: now,
+    })
+    .eq('id', existingOrder.id)
+    .eq('status', 'completed')
+    .select('id');
+
+  // Square has already canceled it, so voiding again finds it CANCELED and
+  // only retries this update
+  if (updateError) {
+    console.error('Failed to mark order voided:', updateError);
+    await logAudit(supabase, correlationId, {
+      ...auditBase,
+      result: 'FAILURE',
+      error_code: 'INTERNAL_ERROR',
+      error_message: `Square invoice ${action} but order record not updated: ${updateError.message}`,
+    });
+    return errorResponse(
+      'INTERNAL_ERROR',
+      'The invoice was canceled in Square but the order was not marked voided. Void it again to finish.',
+      500,
+      correlationId
+    );
+  }
+
+  if (!voided || voided.length === 0) {
+    await logAudit(supabase, correlationId, {
+      ...auditBase,
+      result: 'FAILURE',
+      error_code: 'ORDER_NOT_FOUND',
+      error_message: `Square invoice ${action} but the order changed before it was marked voided`,
+    });
+    return errorResponse(
+      'ORDER_NOT_FOUND',
+      `Order #${order_number} changed while it was being voided. Check it in the Square Dashboard before trying again.`,
+      409,
+      correlationId
+    );
+  }
+
+  await logAudit(supabase, correlationId, {
+    ...auditBase,
+    result: 'VOIDED',
+    metadata: {
+      action,
+      square_status: invoice.status,
+      square_invoice_version: invoice.version,
+    },
+  });
+
+  return jsonResponse(
+    {
+      success: true,
+      correlation_id: correlationId,
+      data: {
+        order_number,
+        square_invoice_id: existingOrder.square_invoice_id,
+        action,
+      },
+    },
+    200,
+    correlationId
+  );
+}
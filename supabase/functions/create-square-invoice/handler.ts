@@ -0,0 +1,2973 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import {
+  createSquareClient,
+  getErrorKind,
+  getSquareBaseUrl,
+  getSquareErrorMetadata,
+  SquareApiError,
+  SquareClient,
+  SquareErrorKind,
+} from '../_shared/square-client.ts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface CreateInvoiceRequest {
+  order_number: string;
+  customer_name: string;
+  customer_email: string;
+  amount_cents: number;
+  line_items?: LineItem[];
+  adjustments?: OrderAdjustment[];
+  license_number?: string;
+  manifest_number?: string;
+  customer_phone?: string;
+  ship_to_address?: PostalAddress;
+  seller_license?: string; // Letterhead details that pick the Square location
+  brand?: string;
+  payment_terms?: PaymentTerms; // Overrides the customer's terms on file
+  payment_schedule?: PaymentSchedule; // Deposit or installments instead of one payment due per the terms
+  reminder_days?: number[]; // Overrides the organization's reminder schedule
+  send_date?: string; // YYYY-MM-DD; overrides when Square emails the invoice (today = now)
+  overrides?: FieldOverride[];
+  amend?: boolean; // Update the existing unpaid invoice for this order instead of rejecting a duplicate
+  square_customer_id?: string; // Customer the invoicer picked from CUSTOMER_MATCH_AMBIGUOUS candidates
+  create_customer?: boolean; // The invoicer chose a new customer over the candidates
+  request_timestamp: string;
+}
+
+type PaymentTerms = 'COD' | 'NET_15' | 'NET_30' | 'NET_45';
+
+// A deposit then the balance, or installments, in due date order
+interface PaymentSchedule {
+  type: 'DEPOSIT' | 'INSTALLMENTS';
+  payments: ScheduledPayment[];
+}
+
+interface ScheduledPayment {
+  due_date: string; // YYYY-MM-DD
+  amount_cents: number;
+}
+
+interface InvoiceDelivery {
+  reminderDays: number[]; // relative to the due date
+  sendDate?: string; // YYYY-MM-DD, only when later than today
+}
+
+interface OrderAdjustment {
+  type: 'discount' | 'tax' | 'fee';
+  name: string;
+  amount_cents: number;
+}
+
+interface PostalAddress {
+  address_line_1: string;
+  address_line_2?: string;
+  locality?: string;
+  administrative_district_level_1?: string;
+  postal_code?: string;
+}
+
+interface CustomerDetails {
+  license_number?: string;
+  customer_phone?: string;
+  ship_to_address?: PostalAddress;
+}
+
+interface FieldOverride {
+  field: 'order_number' | 'customer_name' | 'customer_email' | 'amount_due';
+  original: string;
+  value: string;
+}
+
+interface LineItem {
+  name: string;
+  quantity: number;
+  unit: string;
+  unit_price_cents: number;
+  total_cents: number;
+}
+
+interface SquareCustomer {
+  id: string;
+  email_address?: string;
+  given_name?: string;
+  family_name?: string;
+  company_name?: string;
+  reference_id?: string; // Buyer's license number
+}
+
+type CustomerMatchReason = 'email' | 'license' | 'company';
+
+// Offered to the invoicer when matching can't settle on one customer
+interface CustomerCandidate {
+  id: string;
+  name: string;
+  email_address?: string;
+  license_number?: string;
+  matched_by: CustomerMatchReason[];
+}
+
+type CustomerMatch =
+  | { customer: SquareCustomer; matchedBy: CustomerMatchReason[] }
+  | { customer: null } // nobody matched; create one
+  | { candidates: CustomerCandidate[] };
+
+// Where an invoice is billed from, and what picked it
+interface SquareLocation {
+  locationId: string;
+  name: string | null; // null for the default location
+  source: 'license' | 'brand' | 'default' | 'previous_attempt';
+}
+
+interface SquareInvoice {
+  id: string;
+  version: number;
+  status: string;
+  order_id?: string;
+  invoice_number?: string;
+  description?: string;
+  scheduled_at?: string;
+  payment_requests?: { due_date?: string }[];
+}
+
+interface CreatedInvoice {
+  invoiceId: string;
+  invoiceNumber: string;
+  dueDate: string;
+  scheduledAt?: string;
+}
+
+interface SquareOrder {
+  id: string;
+  state: string;
+  customer_id?: string;
+  total_money?: { amount: number };
+}
+
+// The processed_orders columns an amendment reads
+interface ProcessedOrder {
+  id: string;
+  order_number: string;
+  customer_name: string;
+  customer_email: string;
+  amount_cents: number;
+  line_items: LineItem[] | null;
+  adjustments: OrderAdjustment[] | null;
+  payment_schedule: PaymentSchedule | null;
+  square_customer_id: string;
+  square_order_id: string;
+  square_invoice_id: string;
+  square_location_id: string | null;
+  payment_status: string | null;
+  amendment_count: number;
+  reissue_count: number;
+}
+
+// Idempotency keys for the Square objects one invoicing of an order creates
+interface SquareKeys {
+  customer: string;
+  order: string;
+  invoice: string;
+  publish: string;
+}
+
+// Everything the worker needs to send an accepted invoice, resolved when the
+// request was accepted
+interface InvoiceJobInput {
+  order_number: string;
+  customer_name: string;
+  customer_email: string;
+  amount_cents: number;
+  subtotal_cents: number;
+  line_items?: LineItem[];
+  adjustments?: OrderAdjustment[];
+  license_number?: string;
+  manifest_number?: string;
+  customer_phone?: string;
+  ship_to_address?: PostalAddress;
+  payment_terms: PaymentTerms;
+  payment_schedule?: PaymentSchedule;
+  delivery: InvoiceDelivery;
+  location_id: string;
+  square_customer_id: string | null; // Null creates a new customer
+  square_keys: SquareKeys;
+  idempotency_key: string;
+  request_timestamp: string;
+  audit_metadata: Record<string, unknown>;
+}
+
+interface InvoiceJob {
+  id: string;
+  correlation_id: string;
+  user_id: string;
+  user_email: string | undefined;
+  processed_order_id: string;
+  input: InvoiceJobInput;
+}
+
+interface InvoiceJobResult {
+  square_customer_id: string;
+  square_order_id: string;
+  square_invoice_id: string;
+  invoice_number: string | undefined;
+  scheduled_at?: string;
+}
+
+interface InvoiceJobError {
+  code: ErrorCode;
+  message: string;
+  kind: SquareErrorKind;
+  details: string[];
+}
+
+// The processed_orders columns resuming a failed attempt reads
+interface FailedAttempt {
+  content_hash: string | null;
+  square_keys: SquareKeys | null;
+  square_customer_id: string | null;
+  square_order_id: string | null;
+  square_invoice_id: string | null;
+  line_items: LineItem[] | null;
+  adjustments: OrderAdjustment[] | null;
+}
+
+// What a failed attempt left in Square that the next one carries on from
+interface ResumePoint {
+  order: SquareOrder | null;
+  invoice: SquareInvoice | null;
+  replaced: string | null; // the stale Square object the chain restarts after
+}
+
+type ErrorCode =
+  | 'AUTH_MISSING'
+  | 'AUTH_INVALID'
+  | 'AUTH_EXPIRED'
+  | 'UNAUTHORIZED'
+  | 'VALIDATION_MISSING_FIELD'
+  | 'VALIDATION_INVALID_EMAIL'
+  | 'VALIDATION_INVALID_AMOUNT'
+  | 'VALIDATION_INVALID_ORDER'
+  | 'VALIDATION_INVALID_SCHEDULE'
+  | 'DUPLICATE_ORDER'
+  | 'RATE_LIMITED_USER'
+  | 'RATE_LIMITED_GLOBAL'
+  | 'REPLAY_REJECTED'
+  | 'SQUARE_API_ERROR'
+  | 'SQUARE_CUSTOMER_ERROR'
+  | 'CUSTOMER_MATCH_AMBIGUOUS'
+  | 'SQUARE_ORDER_ERROR'
+  | 'SQUARE_TOTAL_MISMATCH'
+  | 'SQUARE_INVOICE_ERROR'
+  | 'SQUARE_PUBLISH_ERROR'
+  | 'INVOICE_NOT_AMENDABLE'
+  | 'SQUARE_AMEND_ERROR'
+  | 'ORDER_NEEDS_ATTENTION'
+  | 'INTERNAL_ERROR';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const REPLAY_WINDOW_SECONDS = 120;
+const MAX_AMOUNT_CENTS = 5000000; // $50,000
+const MAX_LINE_ITEMS = 500;
+const MAX_ADJUSTMENTS = 20;
+const ADJUSTMENT_TYPES = ['discount', 'tax', 'fee'];
+const OVERRIDABLE_FIELDS = ['order_number', 'customer_name', 'customer_email', 'amount_due'];
+const MAX_OVERRIDE_LENGTH = 500;
+const MAX_DETAIL_LENGTH = 100;
+const MAX_CUSTOMER_CANDIDATES = 5;
+const ADDRESS_FIELDS = [
+  'address_line_1',
+  'address_line_2',
+  'locality',
+  'administrative_district_level_1',
+  'postal_code',
+];
+const DEFAULT_PAYMENT_TERMS: PaymentTerms = 'NET_30';
+const PAYMENT_TERMS_DAYS: Record<PaymentTerms, number> = {
+  COD: 0,
+  NET_15: 15,
+  NET_30: 30,
+  NET_45: 45,
+};
+const DEFAULT_REMINDER_DAYS = [-3, 0, 7];
+const MAX_REMINDERS = 5; // Square's limit per payment request
+const MAX_REMINDER_OFFSET_DAYS = 90;
+const MAX_SEND_DELAY_DAYS = 90;
+const MAX_INSTALLMENTS = 12;
+const MAX_SCHEDULE_DAYS = 365; // latest payment, counted from today
+// Scheduled invoices go out at 16:00 UTC (9 AM Pacific) on the chosen day
+const SCHEDULED_SEND_TIME_UTC = 'T16:00:00Z';
+// Amending is limited to invoices nothing has been paid on
+const AMENDABLE_INVOICE_STATUSES = ['UNPAID', 'SCHEDULED'];
+const AMENDABLE_PAYMENT_STATUSES = ['UNPAID', 'SCHEDULED', 'PAYMENT_FAILED'];
+const REVISED_NOTE_PATTERN = /\s*\(Revised \d{4}-\d{2}-\d{2}\)$/;
+const USER_RATE_LIMIT = 10; // per hour
+const GLOBAL_RATE_LIMIT = 50; // per hour
+const SQUARE_API_VERSION = '2024-01-18';
+// Square calls (with retries) stop here; Supabase ends the request at 150 s
+const SQUARE_TIME_BUDGET_MS = 100000;
+const SQUARE_AUTH_MESSAGE = 'Square rejected the access token or its permissions. Ask an admin to check the Square connection; trying again won\'t help.';
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function generateCorrelationId(): string {
+  return crypto.randomUUID();
+}
+
+function jsonResponse(
+  data: unknown,
+  status: number = 200,
+  correlationId?: string
+): Response {
+  const headers: Record<string, string> = {
+    ...CORS_HEADERS,
+    'Content-Type': 'application/json',
+  };
+  if (correlationId) {
+    headers['X-Correlation-ID'] = correlationId;
+  }
+  return new Response(JSON.stringify(data), { status, headers });
+}
+
+function errorResponse(
+  code: ErrorCode,
+  message: string,
+  status: number,
+  correlationId: string,
+  retryAfter?: number
+): Response {
+  const body: Record<string, unknown> = {
+    success: false,
+    correlation_id: correlationId,
+    error: { code, message },
+  };
+  if (retryAfter) {
+    (body.error as Record<string, unknown>).retry_after = retryAfter;
+  }
+  return jsonResponse(body, status, correlationId);
+}
+
+/**
+ * Error response for a failed Square call. `kind` tells the popup whether to
+ * offer a retry, send the invoicer back to the order details, or point them
+ * at an admin; `details` carries Square's own messages.
+ */
+function squareErrorResponse(
+  code: ErrorCode,
+  message: string,
+  status: number,
+  correlationId: string,
+  kind: SquareErrorKind,
+  error: unknown
+): Response {
+  return jsonResponse(
+    {
+      success: false,
+      correlation_id: correlationId,
+      error: squareError(code, message, kind, error),
+    },
+    status,
+    correlationId
+  );
+}
+
+// The error object of squareErrorResponse, also recorded on failed jobs
+function squareError(code: ErrorCode, message: string, kind: SquareErrorKind, error: unknown): InvoiceJobError {
+  const details = error instanceof SquareApiError
+    ? error.errors.map((squareError) => squareError.detail ?? squareError.code)
+    : [];
+  return {
+    code,
+    message: kind === 'auth' ? SQUARE_AUTH_MESSAGE : message,
+    kind,
+    details,
+  };
+}
+
+function isValidEmail(email: string): boolean {
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  return emailRegex.test(email);
+}
+
+function isValidOrderNumber(orderNumber: string): boolean {
+  // Order numbers should be alphanumeric, possibly with dashes
+  const orderRegex = /^[A-Za-z0-9-]+$/;
+  return orderRegex.test(orderNumber) && orderNumber.length > 0 && orderNumber.length <= 50;
+}
+
+function getLineItemsError(lineItems: unknown, amountCents: number): string | null {
+  if (!Array.isArray(lineItems)) {
+    return 'line_items must be an array';
+  }
+  if (lineItems.length > MAX_LINE_ITEMS) {
+    return `Too many line items (maximum ${MAX_LINE_ITEMS})`;
+  }
+
+  let sumCents = 0;
+  for (const item of lineItems as LineItem[]) {
+    if (
+      !item ||
+      typeof item.name !== 'string' ||
+      item.name.trim().length === 0 ||
+      typeof item.quantity !== 'number' ||
+      !(item.quantity > 0) ||
+      !Number.isInteger(item.unit_price_cents) ||
+      item.unit_price_cents < 0 ||
+      !Number.isInteger(item.total_cents) ||
+      item.total_cents < 0
+    ) {
+      return 'Invalid line item';
+    }
+    sumCents += item.total_cents;
+  }
+
+  if (sumCents !== amountCents) {
+    return `Line items total ${sumCents} cents does not match amount ${amountCents} cents`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate adjustments and return the subtotal they imply (what the line items
+ * must add up to), or an error message
+ */
+function getAdjustedSubtotal(
+  adjustments: unknown,
+  amountCents: number
+): { subtotalCents: number } | { error: string } {
+  if (!Array.isArray(adjustments)) {
+    return { error: 'adjustments must be an array' };
+  }
+  if (adjustments.length > MAX_ADJUSTMENTS) {
+    return { error: `Too many adjustments (maximum ${MAX_ADJUSTMENTS})` };
+  }
+
+  let discountCents = 0;
+  let addedCents = 0;
+  for (const adjustment of adjustments as OrderAdjustment[]) {
+    if (
+      !adjustment ||
+      !ADJUSTMENT_TYPES.includes(adjustment.type) ||
+      typeof adjustment.name !== 'string' ||
+      adjustment.name.trim().length === 0 ||
+      adjustment.name.length > MAX_DETAIL_LENGTH ||
+      !Number.isInteger(adjustment.amount_cents) ||
+      adjustment.amount_cents <= 0
+    ) {
+      return { error: 'Invalid adjustment' };
+    }
+    if (adjustment.type === 'discount') {
+      discountCents += adjustment.amount_cents;
+    } else {
+      addedCents += adjustment.amount_cents;
+    }
+  }
+
+  const subtotalCents = amountCents + discountCents - addedCents;
+  if (discountCents >= subtotalCents) {
+    return { error: 'Adjustments leave nothing to invoice' };
+  }
+
+  return { subtotalCents };
+}
+
+/**
+ * Express a fixed tax amount as the percentage Square expects, using the fewest
+ * decimal places that reproduce the amount to the cent
+ */
+function toTaxPercentage(taxCents: number, taxableCents: number): string {
+  const exact = (taxCents / taxableCents) * 100;
+  for (let places = 2; places < 6; places++) {
+    const candidate = exact.toFixed(places);
+    if (Math.round((taxableCents * Number(candidate)) / 100) === taxCents) {
+      return candidate;
+    }
+  }
+  return exact.toFixed(6);
+}
+
+function isValidOverrides(overrides: unknown): overrides is FieldOverride[] {
+  if (!Array.isArray(overrides) || overrides.length > OVERRIDABLE_FIELDS.length) {
+    return false;
+  }
+
+  return overrides.every((override: FieldOverride) =>
+    override &&
+    OVERRIDABLE_FIELDS.includes(override.field) &&
+    typeof override.original === 'string' &&
+    typeof override.value === 'string' &&
+    override.original.length <= MAX_OVERRIDE_LENGTH &&
+    override.value.length <= MAX_OVERRIDE_LENGTH
+  );
+}
+
+function isValidDetail(value: unknown): boolean {
+  return value === undefined ||
+    (typeof value === 'string' && value.trim().length > 0 && value.length <= MAX_DETAIL_LENGTH);
+}
+
+function isValidAddress(address: unknown): address is PostalAddress {
+  if (!address || typeof address !== 'object' || Array.isArray(address)) {
+    return false;
+  }
+
+  const fields = address as Record<string, unknown>;
+  return typeof fields.address_line_1 === 'string' &&
+    Object.keys(fields).every((key) => ADDRESS_FIELDS.includes(key) && isValidDetail(fields[key]));
+}
+
+/**
+ * Normalize a US phone number to E.164, or undefined if it doesn't look like one.
+ * Square rejects the whole customer on a malformed phone, so we drop it instead.
+ */
+function normalizePhone(phone: string | undefined): string | undefined {
+  const digits = phone?.replace(/\D/g, '') ?? '';
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+  return undefined;
+}
+
+function toSquareLineItem(item: LineItem): Record<string, unknown> {
+  // Square computes each line as quantity × base price. When the PDF's line total
+  // was rounded differently, bill the row as a single unit at the printed total
+  // so the invoice matches the PDF to the cent.
+  const matchesPdf = Math.round(item.quantity * item.unit_price_cents) === item.total_cents;
+
+  if (matchesPdf) {
+    return {
+      name: item.name,
+      quantity: String(item.quantity),
+      variation_name: item.unit,
+      base_price_money: { amount: item.unit_price_cents, currency: 'USD' },
+    };
+  }
+
+  return {
+    name: item.name,
+    quantity: '1',
+    variation_name: item.unit,
+    note: `${item.quantity} ${item.unit} @ $${(item.unit_price_cents / 100).toFixed(2)}`,
+    base_price_money: { amount: item.total_cents, currency: 'USD' },
+  };
+}
+
+function today(): string {
+  return new Date().toISOString().split('T')[0]; // YYYY-MM-DD format
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+}
+
+// Terms run from the day the customer receives the invoice
+function calculateDueDate(terms: PaymentTerms, sendDate: string): string {
+  return addDays(sendDate, PAYMENT_TERMS_DAYS[terms]); // COD is due on receipt
+}
+
+function isValidReminderDays(days: unknown): days is number[] {
+  return (
+    Array.isArray(days) &&
+    days.length <= MAX_REMINDERS &&
+    days.every((day) => Number.isInteger(day) && Math.abs(day) <= MAX_REMINDER_OFFSET_DAYS)
+  );
+}
+
+function isValidSendDate(date: unknown): date is string {
+  if (!isValidDate(date)) {
+    return false;
+  }
+  // The popup sends its local date, which can be a day behind UTC; that still means "now"
+  return date >= addDays(today(), -1) && date <= addDays(today(), MAX_SEND_DELAY_DAYS);
+}
+
+/**
+ * Check the shape and total of a payment schedule. Due dates are checked
+ * against the send date once it's known. Returns an error message, or null.
+ */
+function getPaymentScheduleError(schedule: unknown, amountCents: number): string | null {
+  if (typeof schedule !== 'object' || schedule === null) {
+    return 'Payment schedule must be an object';
+  }
+
+  const { type, payments } = schedule as Record<string, unknown>;
+  if (type !== 'DEPOSIT' && type !== 'INSTALLMENTS') {
+    return `Invalid payment schedule type: ${String(type)}`;
+  }
+  if (!Array.isArray(payments)) {
+    return 'Payment schedule has no payments';
+  }
+  if (type === 'DEPOSIT' && payments.length !== 2) {
+    return 'A deposit schedule needs a deposit and a balance';
+  }
+  if (type === 'INSTALLMENTS' && (payments.length < 2 || payments.length > MAX_INSTALLMENTS)) {
+    return `Installment schedules need 2 to ${MAX_INSTALLMENTS} payments`;
+  }
+
+  let previousDueDate = '';
+  let totalCents = 0;
+  for (const payment of payments) {
+    const { due_date, amount_cents } = (payment ?? {}) as Record<string, unknown>;
+    if (!isValidDate(due_date) || due_date > addDays(today(), MAX_SCHEDULE_DAYS)) {
+      return `Invalid payment due date: ${String(due_date)}`;
+    }
+    if (due_date <= previousDueDate) {
+      return 'Payment due dates must be in order, one payment per day';
+    }
+    if (!Number.isInteger(amount_cents) || (amount_cents as number) <= 0) {
+      return `Invalid payment amount: ${String(amount_cents)}`;
+    }
+    previousDueDate = due_date;
+    totalCents += amount_cents as number;
+  }
+
+  if (totalCents !== amountCents) {
+    return `Payments add up to ${totalCents} cents, not the order total of ${amountCents} cents`;
+  }
+
+  return null;
+}
+
+function isValidDate(date: unknown): date is string {
+  return typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(Date.parse(date));
+}
+
+// Square payment requests for a schedule, or one BALANCE request due per the terms
+function buildPaymentRequests(
+  schedule: PaymentSchedule | undefined,
+  termsDueDate: string,
+  reminderDays: number[],
+  sendDate: string,
+  orderNumber: string
+): Array<Record<string, unknown>> {
+  const request = (requestType: string, dueDate: string, subject: string, amountCents?: number) => {
+    const reminders = buildReminders(reminderDays, dueDate, sendDate, subject);
+    return {
+      request_type: requestType,
+      due_date: dueDate,
+      // Square works out the BALANCE itself
+      fixed_amount_requested_money: amountCents !== undefined ? { amount: amountCents, currency: 'USD' } : undefined,
+      automatic_payment_source: 'NONE',
+      reminders: reminders.length > 0 ? reminders : undefined,
+    };
+  };
+
+  if (!schedule) {
+    return [request('BALANCE', termsDueDate, `Invoice for Order #${orderNumber}`)];
+  }
+
+  if (schedule.type === 'DEPOSIT') {
+    const [deposit, balance] = schedule.payments;
+    return [
+      request('DEPOSIT', deposit.due_date, `Deposit for Order #${orderNumber}`, deposit.amount_cents),
+      request('BALANCE', balance.due_date, `Balance for Order #${orderNumber}`),
+    ];
+  }
+
+  const count = schedule.payments.length;
+  return schedule.payments.map((payment, index) =>
+    request(
+      'INSTALLMENT',
+      payment.due_date,
+      `Installment ${index + 1} of ${count} for Order #${orderNumber}`,
+      payment.amount_cents
+    )
+  );
+}
+
+/**
+ * Build Square reminders for a payment request. Reminders that would fall on or
+ * before the day the invoice is sent are dropped, since Square can't send them.
+ */
+function buildReminders(
+  reminderDays: number[],
+  dueDate: string,
+  sendDate: string,
+  subject: string
+): Array<{ relative_scheduled_days: number; message: string }> {
+  return [...new Set(reminderDays)]
+    .filter((days) => addDays(dueDate, days) > sendDate)
+    .sort((a, b) => a - b)
+    .map((days) => ({
+      relative_scheduled_days: days,
+      message:
+        days < 0
+          ? `${subject} is due in ${-days} day${days === -1 ? '' : 's'}.`
+          : days === 0
+            ? `${subject} is due today.`
+            : `${subject} is ${days} day${days === 1 ? '' : 's'} overdue.`,
+    }));
+}
+
+function isValidPaymentTerms(terms: unknown): terms is PaymentTerms {
+  return typeof terms === 'string' && terms in PAYMENT_TERMS_DAYS;
+}
+
+// Hex SHA-256 of a value's JSON, cut to `length` characters
+async function hashContent(value: unknown, length = 16): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(value)));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('').slice(0, length);
+}
+
+/**
+ * Square idempotency keys for one invoicing of an order. The order, invoice
+ * and publish keys carry a hash of what's invoiced and the generation (the
+ * reissue count), so a corrected resend or a reissue after a void gets new
+ * Square objects instead of the cached originals. The customer key hashes the
+ * customer's own details, so it isn't tied to any one order.
+ */
+async function deriveSquareKeys(
+  orderNumber: string,
+  generation: number,
+  contentHash: string,
+  customer: CustomerDetails & { name: string; email: string }
+): Promise<SquareKeys> {
+  const base = `${orderNumber}-g${generation}-${contentHash}`;
+  return {
+    // Square caps customer keys at 45 characters
+    customer: `cust-${await hashContent(customer, 32)}`,
+    order: `ord-${base}`,
+    invoice: `inv-${base}`,
+    publish: `pub-${base}`,
+  };
+}
+
+// Keys for the objects replacing a stale one, so Square doesn't replay it
+function replaceSquareKeys(keys: SquareKeys, replaced: string): SquareKeys {
+  return {
+    customer: keys.customer,
+    order: `${keys.order}-${replaced}`,
+    invoice: `${keys.invoice}-${replaced}`,
+    publish: `${keys.publish}-${replaced}`,
+  };
+}
+
+function isSameLineItems(a: LineItem[] | null | undefined, b: LineItem[] | null | undefined): boolean {
+  const left = a ?? [];
+  const right = b ?? [];
+  return left.length === right.length && left.every((item, index) =>
+    item.name === right[index].name &&
+    item.quantity === right[index].quantity &&
+    item.unit === right[index].unit &&
+    item.unit_price_cents === right[index].unit_price_cents &&
+    item.total_cents === right[index].total_cents
+  );
+}
+
+function isSameAdjustments(
+  a: OrderAdjustment[] | null | undefined,
+  b: OrderAdjustment[] | null | undefined
+): boolean {
+  const left = a ?? [];
+  const right = b ?? [];
+  return left.length === right.length && left.every((adjustment, index) =>
+    adjustment.type === right[index].type &&
+    adjustment.name === right[index].name &&
+    adjustment.amount_cents === right[index].amount_cents
+  );
+}
+
+// ============================================================================
+// Supabase Client
+// ============================================================================
+
+function createSupabaseClient(serviceRoleKey: string, supabaseUrl: string) {
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+}
+
+// ============================================================================
+// Square API Functions
+// ============================================================================
+
+async function searchCustomers(
+  filter: Record<string, unknown>,
+  square: SquareClient
+): Promise<SquareCustomer[]> {
+  const result = await square.request(
+    '/customers/search',
+    'POST',
+    {
+      query: { filter },
+      limit: MAX_CUSTOMER_CANDIDATES,
+    },
+    { readOnly: true }
+  );
+
+  return (result as { customers?: SquareCustomer[] }).customers ?? [];
+}
+
+// Null when the customer was deleted in Square
+async function retrieveCustomer(
+  customerId: string,
+  square: SquareClient
+): Promise<SquareCustomer | null> {
+  try {
+    const result = await square.request(`/customers/${encodeURIComponent(customerId)}`, 'GET');
+    return (result as { customer: SquareCustomer }).customer;
+  } catch (error) {
+    if (error instanceof SquareApiError && error.hasCode('NOT_FOUND')) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function createCustomer(
+  name: string,
+  email: string,
+  details: CustomerDetails,
+  idempotencyKey: string,
+  square: SquareClient
+): Promise<SquareCustomer> {
+  const result = await square.request(
+    '/customers',
+    'POST',
+    {
+      idempotency_key: idempotencyKey,
+      // Buyers are dispensaries; splitting "Green Leaf Cannabis LLC" into a
+      // given and family name garbles it
+      company_name: name,
+      email_address: email,
+      phone_number: normalizePhone(details.customer_phone),
+      // The buyer's state license number identifies the licensee across orders
+      reference_id: details.license_number,
+      address: details.ship_to_address ? { ...details.ship_to_address, country: 'US' } : undefined,
+    },
+    { idempotencyKey }
+  );
+
+  return (result as { customer: SquareCustomer }).customer;
+}
+
+/**
+ * Square line items, discounts, taxes and service charges for an order.
+ * uidSuffix keeps an amendment's entries distinct from the ones it replaces.
+ */
+function buildOrderComponents(
+  subtotalCents: number,
+  lineItems: LineItem[] | undefined,
+  adjustments: OrderAdjustment[],
+  orderNumber: string,
+  uidSuffix: string = ''
+): Record<string, unknown[] | undefined> {
+  const squareLineItems = lineItems && lineItems.length > 0
+    ? lineItems.map((item, index) => ({ uid: `item-${index}${uidSuffix}`, ...toSquareLineItem(item) }))
+    : [
+        {
+          uid: `item-0${uidSuffix}`,
+          name: `Wholesale Order #${orderNumber}`,
+          quantity: '1',
+          base_price_money: {
+            amount: subtotalCents,
+            currency: 'USD',
+          },
+        },
+      ];
+
+  // Square applies order-level discounts before taxes, and only takes taxes as
+  // percentages, so each PDF tax becomes a percentage of the discounted subtotal.
+  // Fees go on as total-phase service charges so nothing taxes them again.
+  const discounts = adjustments.filter((adjustment) => adjustment.type === 'discount');
+  const taxableCents = subtotalCents - discounts.reduce((sum, discount) => sum + discount.amount_cents, 0);
+
+  const squareDiscounts = discounts.map((discount, index) => ({
+    uid: `discount-${index}${uidSuffix}`,
+    name: discount.name,
+    type: 'FIXED_AMOUNT',
+    amount_money: { amount: discount.amount_cents, currency: 'USD' },
+    scope: 'ORDER',
+  }));
+
+  const squareTaxes = adjustments
+    .filter((adjustment) => adjustment.type === 'tax')
+    .map((tax, index) => ({
+      uid: `tax-${index}${uidSuffix}`,
+      name: tax.name,
+      type: 'ADDITIVE',
+      percentage: toTaxPercentage(tax.amount_cents, taxableCents),
+      scope: 'ORDER',
+    }));
+
+  const squareServiceCharges = adjustments
+    .filter((adjustment) => adjustment.type === 'fee')
+    .map((fee, index) => ({
+      uid: `fee-${index}${uidSuffix}`,
+      name: fee.name,
+      amount_money: { amount: fee.amount_cents, currency: 'USD' },
+      calculation_phase: 'TOTAL_PHASE',
+    }));
+
+  return {
+    line_items: squareLineItems,
+    discounts: squareDiscounts.length > 0 ? squareDiscounts : undefined,
+    taxes: squareTaxes.length > 0 ? squareTaxes : undefined,
+    service_charges: squareServiceCharges.length > 0 ? squareServiceCharges : undefined,
+  };
+}
+
+async function createOrder(
+  customerId: string,
+  subtotalCents: number,
+  lineItems: LineItem[] | undefined,
+  adjustments: OrderAdjustment[],
+  orderNumber: string,
+  idempotencyKey: string,
+  locationId: string,
+  square: SquareClient
+): Promise<{ orderId: string; totalCents: number }> {
+  const result = await square.request(
+    '/orders',
+    'POST',
+    {
+      idempotency_key: idempotencyKey,
+      order: {
+        location_id: locationId,
+        customer_id: customerId,
+        reference_id: orderNumber,
+        ...buildOrderComponents(subtotalCents, lineItems, adjustments, orderNumber),
+      },
+    },
+    { idempotencyKey }
+  );
+
+  const order = (result as { order: { id: string; total_money?: { amount: number } } }).order;
+  return { orderId: order.id, totalCents: order.total_money?.amount ?? 0 };
+}
+
+async function createInvoice(
+  orderId: string,
+  customerId: string,
+  orderNumber: string,
+  idempotencyKey: string,
+  manifestNumber: string | undefined,
+  paymentTerms: PaymentTerms,
+  schedule: PaymentSchedule | undefined,
+  delivery: InvoiceDelivery,
+  locationId: string,
+  square: SquareClient
+): Promise<CreatedInvoice> {
+  const sendDate = delivery.sendDate ?? today();
+  const paymentRequests = buildPaymentRequests(
+    schedule,
+    calculateDueDate(paymentTerms, sendDate),
+    delivery.reminderDays,
+    sendDate,
+    orderNumber
+  );
+  // The last payment's due date is when the whole invoice is due
+  const dueDate = paymentRequests[paymentRequests.length - 1].due_date as string;
+  const scheduledAt = delivery.sendDate ? `${delivery.sendDate}${SCHEDULED_SEND_TIME_UTC}` : undefined;
+
+  const result = await square.request(
+    '/invoices',
+    'POST',
+    {
+      idempotency_key: idempotencyKey,
+      invoice: {
+        order_id: orderId,
+        location_id: locationId,
+        primary_recipient: {
+          customer_id: customerId,
+        },
+        payment_requests: paymentRequests,
+        accepted_payment_methods: {
+          card: true,
+          square_gift_card: false,
+          bank_account: true,
+          buy_now_pay_later: false,
+          cash_app_pay: false,
+        },
+        delivery_method: 'EMAIL',
+        // Publishing a scheduled invoice holds the email until this time
+        scheduled_at: scheduledAt,
+        title: `Invoice for Order #${orderNumber}`,
+        description: manifestNumber ? `Manifest #${manifestNumber}` : undefined,
+      },
+    },
+    { idempotencyKey }
+  );
+
+  const invoice = (result as { invoice: { id: string; invoice_number: string } }).invoice;
+  return { invoiceId: invoice.id, invoiceNumber: invoice.invoice_number, dueDate, scheduledAt };
+}
+
+// The createInvoice result for an invoice a failed attempt already created
+function toCreatedInvoice(invoice: SquareInvoice): CreatedInvoice {
+  const requests = invoice.payment_requests ?? [];
+  return {
+    invoiceId: invoice.id,
+    invoiceNumber: invoice.invoice_number ?? '',
+    dueDate: requests[requests.length - 1]?.due_date ?? today(),
+    scheduledAt: invoice.scheduled_at,
+  };
+}
+
+async function publishInvoice(
+  invoiceId: string,
+  idempotencyKey: string,
+  square: SquareClient
+): Promise<void> {
+  // First get the current invoice version
+  const getResult = await square.request(`/invoices/${invoiceId}`, 'GET');
+
+  const version = (getResult as { invoice: { version: number } }).invoice.version;
+
+  await square.request(
+    `/invoices/${invoiceId}/publish`,
+    'POST',
+    {
+      idempotency_key: idempotencyKey,
+      version,
+    },
+    { idempotencyKey }
+  );
+}
+
+// Null when the order was deleted in Square
+async function retrieveOrder(orderId: string, square: SquareClient): Promise<SquareOrder | null> {
+  try {
+    const result = await square.request(`/orders/${encodeURIComponent(orderId)}`, 'GET');
+    return (result as { order: SquareOrder }).order;
+  } catch (error) {
+    if (error instanceof SquareApiError && error.hasCode('NOT_FOUND')) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Null when the invoice was deleted in Square
+async function retrieveInvoice(invoiceId: string, square: SquareClient): Promise<SquareInvoice | null> {
+  try {
+    return await getInvoice(invoiceId, square);
+  } catch (error) {
+    if (error instanceof SquareApiError && error.hasCode('NOT_FOUND')) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function getInvoice(invoiceId: string, square: SquareClient): Promise<SquareInvoice> {
+  const result = await square.request(`/invoices/${invoiceId}`, 'GET');
+
+  return (result as { invoice: SquareInvoice }).invoice;
+}
+
+/**
+ * Current order version and the fields an amendment clears: every existing
+ * line item, discount, tax and service charge is replaced by the new set
+ */
+async function getOrderForAmendment(
+  orderId: string,
+  square: SquareClient
+): Promise<{ version: number; fieldsToClear: string[] }> {
+  const result = await square.request(`/orders/${orderId}`, 'GET');
+
+  const order = (result as {
+    order: {
+      version: number;
+      line_items?: { uid: string }[];
+      discounts?: { uid: string }[];
+      taxes?: { uid: string }[];
+      service_charges?: { uid: string }[];
+    };
+  }).order;
+
+  const fieldsToClear = [
+    ...(order.line_items ?? []).map((entry) => `line_items[${entry.uid}]`),
+    ...(order.discounts ?? []).map((entry) => `discounts[${entry.uid}]`),
+    ...(order.taxes ?? []).map((entry) => `taxes[${entry.uid}]`),
+    ...(order.service_charges ?? []).map((entry) => `service_charges[${entry.uid}]`),
+  ];
+
+  return { version: order.version, fieldsToClear };
+}
+
+// Price an order without saving it, so a total mismatch is caught before anything changes
+async function calculateOrderTotal(
+  components: Record<string, unknown[] | undefined>,
+  locationId: string,
+  square: SquareClient
+): Promise<number> {
+  const result = await square.request(
+    '/orders/calculate',
+    'POST',
+    { order: { location_id: locationId, ...components } },
+    { readOnly: true }
+  );
+
+  return (result as { order: { total_money?: { amount: number } } }).order.total_money?.amount ?? 0;
+}
+
+async function updateOrder(
+  orderId: string,
+  version: number,
+  fieldsToClear: string[],
+  components: Record<string, unknown[] | undefined>,
+  idempotencyKey: string,
+  locationId: string,
+  square: SquareClient
+): Promise<{ version: number; totalCents: number }> {
+  const result = await square.request(
+    `/orders/${orderId}`,
+    'PUT',
+    {
+      idempotency_key: idempotencyKey,
+      order: {
+        location_id: locationId,
+        version,
+        ...components,
+      },
+      fields_to_clear: fieldsToClear,
+    },
+    { idempotencyKey }
+  );
+
+  const order = (result as { order: { version: number; total_money?: { amount: number } } }).order;
+  return { version: order.version, totalCents: order.total_money?.amount ?? 0 };
+}
+
+/**
+ * Mark the invoice revised. Square reads the payment request amount from the
+ * updated order; the version check fails if the invoice changed since we read it.
+ */
+async function reviseInvoice(
+  invoice: SquareInvoice,
+  idempotencyKey: string,
+  square: SquareClient
+): Promise<number> {
+  const description = (invoice.description ?? '').replace(REVISED_NOTE_PATTERN, '');
+  const result = await square.request(
+    `/invoices/${invoice.id}`,
+    'PUT',
+    {
+      idempotency_key: idempotencyKey,
+      invoice: {
+        version: invoice.version,
+        description: `${description} (Revised ${today()})`.trim(),
+      },
+    },
+    { idempotencyKey }
+  );
+
+  return (result as { invoice: { version: number } }).invoice.version;
+}
+
+// ============================================================================
+// Audit Logging
+// ============================================================================
+
+async function logAudit(
+  supabase: ReturnType<typeof createClient>,
+  correlationId: string,
+  data: {
+    user_id?: string;
+    user_email?: string;
+    cultivera_order_number?: string;
+    customer_name?: string;
+    customer_email?: string;
+    amount_cents?: number;
+    idempotency_key?: string;
+    square_customer_id?: string;
+    square_order_id?: string;
+    square_invoice_id?: string;
+    result: string;
+    error_code?: string;
+    error_message?: string;
+    request_timestamp?: string;
+    steps_completed?: string[];
+    payment_terms?: PaymentTerms;
+    metadata?: Record<string, unknown>;
+  }
+): Promise<void> {
+  try {
+    await supabase.from('invoice_audit_log').insert({
+      correlation_id: correlationId,
+      ...data,
+    });
+  } catch (error) {
+    console.error('Failed to write audit log:', error);
+  }
+}
+
+// ============================================================================
+// Customer Matching
+// ============================================================================
+
+function getCustomerDisplayName(customer: SquareCustomer): string {
+  const personName = [customer.given_name, customer.family_name].filter(Boolean).join(' ');
+  return customer.company_name || personName || customer.email_address || customer.id;
+}
+
+/**
+ * Square customers previously invoiced under this company name. Square can't
+ * search by company name, so our own order history is the index.
+ */
+async function findCustomerIdsByCompany(
+  supabase: ReturnType<typeof createSupabaseClient>,
+  companyName: string
+): Promise<string[]> {
+  const { data } = await supabase
+    .from('processed_orders')
+    .select('square_customer_id')
+    .ilike('customer_name', companyName.replace(/[\\%_]/g, '\\$&'))
+    .not('square_customer_id', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(50);
+
+  const ids = (data ?? []).map((row: { square_customer_id: string }) => row.square_customer_id);
+  return [...new Set(ids)].slice(0, MAX_CUSTOMER_CANDIDATES);
+}
+
+/**
+ * Find the Square customer for an order: by email, then license number
+ * (reference_id), then company name. Settles on a customer only when one
+ * stands out: it matched on everything that matched anything, and it isn't
+ * on file under a different license. Otherwise the invoicer picks.
+ */
+async function matchCustomer(
+  supabase: ReturnType<typeof createSupabaseClient>,
+  companyName: string,
+  email: string,
+  licenseNumber: string | undefined,
+  square: SquareClient
+): Promise<CustomerMatch> {
+  const matches = new Map<string, { customer: SquareCustomer; reasons: CustomerMatchReason[] }>();
+  const addMatches = (customers: SquareCustomer[], reason: CustomerMatchReason) => {
+    for (const customer of customers) {
+      const match = matches.get(customer.id) ?? { customer, reasons: [] };
+      match.reasons.push(reason);
+      matches.set(customer.id, match);
+    }
+  };
+
+  addMatches(await searchCustomers({ email_address: { exact: email } }, square), 'email');
+  if (licenseNumber) {
+    addMatches(await searchCustomers({ reference_id: { exact: licenseNumber } }, square), 'license');
+  }
+
+  // Company names are the weakest signal, so only consulted when nothing else matched
+  if (matches.size === 0) {
+    for (const customerId of await findCustomerIdsByCompany(supabase, companyName)) {
+      const customer = await retrieveCustomer(customerId, square);
+      if (customer) {
+        addMatches([customer], 'company');
+      }
+    }
+  }
+
+  if (matches.size === 0) {
+    return { customer: null };
+  }
+
+  const candidates = [...matches.values()];
+  const reasonCount = new Set(candidates.flatMap((match) => match.reasons)).size;
+  const strongest = candidates.filter((match) => match.reasons.length === reasonCount);
+  const conflictsOnLicense = (customer: SquareCustomer) =>
+    Boolean(licenseNumber && customer.reference_id && customer.reference_id !== licenseNumber);
+
+  if (strongest.length === 1 && !conflictsOnLicense(strongest[0].customer)) {
+    return { customer: strongest[0].customer, matchedBy: strongest[0].reasons };
+  }
+
+  return {
+    candidates: candidates.slice(0, MAX_CUSTOMER_CANDIDATES).map(({ customer, reasons }) => ({
+      id: customer.id,
+      name: getCustomerDisplayName(customer),
+      email_address: customer.email_address,
+      license_number: customer.reference_id,
+      matched_by: reasons,
+    })),
+  };
+}
+
+// ============================================================================
+// Square Locations
+// ============================================================================
+
+/**
+ * Pick the Square location for a seller: its mapping by license number, then
+ * by brand, else the default location
+ */
+async function resolveSquareLocation(
+  supabase: ReturnType<typeof createSupabaseClient>,
+  sellerLicense: string | undefined,
+  brand: string | undefined,
+  defaultLocationId: string
+): Promise<SquareLocation> {
+  if (!sellerLicense && !brand) {
+    return { locationId: defaultLocationId, name: null, source: 'default' };
+  }
+
+  // Billing from the wrong location is worse than not billing, so a failed
+  // lookup stops the invoice instead of falling back
+  const { data, error } = await supabase.rpc('get_square_location', {
+    check_seller_license: sellerLicense ?? null,
+    check_brand: brand ?? null,
+  });
+  if (error) {
+    throw new Error(`Location lookup failed: ${error.message}`);
+  }
+
+  const mapped = data?.[0];
+  return mapped
+    ? { locationId: mapped.square_location_id, name: mapped.location_name, source: mapped.source }
+    : { locationId: defaultLocationId, name: null, source: 'default' };
+}
+
+// ============================================================================
+// Resuming Failed Attempts
+// ============================================================================
+
+/**
+ * Check what a failed attempt recorded, in step order, keeping each object
+ * while it still fits this request: the customer is the one matched for it,
+ * the order is still open for that customer with the same items and amount
+ * due, and the invoice bills that order. The first misfit is replaced along
+ * with everything after it. Replacements get idempotency keys of their own,
+ * named after the object they replace (see replaceSquareKeys), or Square
+ * would hand back the stale ones; a rerun that finds the same stale object
+ * reuses the same keys.
+ */
+async function findResumePoint(
+  attempt: FailedAttempt,
+  customerId: string | undefined,
+  amountCents: number,
+  lineItems: LineItem[] | undefined,
+  adjustments: OrderAdjustment[] | undefined,
+  square: SquareClient
+): Promise<ResumePoint> {
+  const restartAfter = (replaced: string | null): ResumePoint => ({ order: null, invoice: null, replaced });
+
+  if (attempt.square_customer_id && attempt.square_customer_id !== customerId) {
+    return restartAfter(attempt.square_customer_id);
+  }
+  if (!attempt.square_order_id) {
+    return restartAfter(null);
+  }
+
+  const order = await retrieveOrder(attempt.square_order_id, square);
+  const orderFits =
+    order !== null &&
+    order.state === 'OPEN' &&
+    order.customer_id === customerId &&
+    order.total_money?.amount === amountCents &&
+    isSameLineItems(attempt.line_items, lineItems) &&
+    isSameAdjustments(attempt.adjustments, adjustments);
+  if (!orderFits) {
+    return restartAfter(attempt.square_order_id);
+  }
+  if (!attempt.square_invoice_id) {
+    return { order, invoice: null, replaced: null };
+  }
+
+  // Square bills an order with one invoice at most, so an invoice that's gone
+  // or canceled takes its order with it
+  const invoice = await retrieveInvoice(attempt.square_invoice_id, square);
+  if (!invoice || invoice.status === 'CANCELED' || invoice.order_id !== order.id) {
+    return restartAfter(attempt.square_order_id);
+  }
+  return { order, invoice, replaced: null };
+}
+
+// ============================================================================
+// Invoice Amendments
+// ============================================================================
+
+interface Amendment {
+  amountCents: number;
+  subtotalCents: number;
+  lineItems: LineItem[] | undefined;
+  adjustments: OrderAdjustment[] | undefined;
+}
+
+/**
+ * Update an unpaid invoice in place after its Cultivera order changed. The
+ * Square order's items and adjustments are replaced and the invoice is marked
+ * revised, each against the version just read, so a concurrent change in
+ * Square makes the amendment fail rather than overwrite it.
+ */
+async function amendInvoice(
+  supabase: ReturnType<typeof createSupabaseClient>,
+  correlationId: string,
+  user: { id: string; email?: string },
+  order: ProcessedOrder,
+  amendment: Amendment,
+  requestTimestamp: string,
+  auditMetadata: Record<string, unknown>,
+  locationId: string,
+  square: SquareClient
+): Promise<Response> {
+  const amendmentNumber = order.amendment_count + 1;
+  // A retried amendment reuses its keys; a different one for the same number gets its own
+  const keyBase = `${order.order_number}-g${order.reissue_count}-a${amendmentNumber}-${await hashContent(amendment)}`;
+  const auditBase = {
+    user_id: user.id,
+    user_email: user.email,
+    cultivera_order_number: order.order_number,
+    customer_name: order.customer_name,
+    customer_email: order.customer_email,
+    amount_cents: amendment.amountCents,
+    square_customer_id: order.square_customer_id,
+    square_order_id: order.square_order_id,
+    square_invoice_id: order.square_invoice_id,
+    request_timestamp: requestTimestamp,
+  };
+
+  // Orders invoiced before line items were stored can only be compared by amount
+  const unchanged =
+    amendment.amountCents === order.amount_cents &&
+    order.line_items !== null &&
+    isSameLineItems(order.line_items, amendment.lineItems) &&
+    isSameAdjustments(order.adjustments, amendment.adjustments);
+
+  if (unchanged) {
+    await logAudit(supabase, correlationId, {
+      ...auditBase,
+      result: 'DUPLICATE_BLOCKED',
+      error_code: 'DUPLICATE_ORDER',
+      error_message: 'Amendment matches the invoiced order',
+    });
+    return errorResponse(
+      'DUPLICATE_ORDER',
+      `Nothing changed since order #${order.order_number} was invoiced.`,
+      409,
+      correlationId
+    );
+  }
+
+  // Fixed deposit and installment amounts were set for the old total
+  if (order.payment_schedule) {
+    await logAudit(supabase, correlationId, {
+      ...auditBase,
+      result: 'FAILURE',
+      error_code: 'INVOICE_NOT_AMENDABLE',
+      error_message: `Invoice has a ${order.payment_schedule.type.toLowerCase()} payment schedule`,
+    });
+    return errorResponse(
+      'INVOICE_NOT_AMENDABLE',
+      `The invoice for order #${order.order_number} has a deposit or installments and can't be amended. Void it and send a corrected invoice.`,
+      409,
+      correlationId
+    );
+  }
+
+  if (order.payment_status && !AMENDABLE_PAYMENT_STATUSES.includes(order.payment_status)) {
+    await logAudit(supabase, correlationId, {
+      ...auditBase,
+      result: 'FAILURE',
+      error_code: 'INVOICE_NOT_AMENDABLE',
+      error_message: `Payment status is ${order.payment_status}`,
+    });
+    return errorResponse(
+      'INVOICE_NOT_AMENDABLE',
+      `The invoice for order #${order.order_number} has payments against it and can't be amended. Void it or adjust it in the Square Dashboard.`,
+      409,
+      correlationId
+    );
+  }
+
+  let invoice: SquareInvoice;
+  let orderVersion: number;
+  try {
+    // Square is the source of truth for payment state; webhooks may lag or be off
+    invoice = await getInvoice(order.square_invoice_id, square);
+    if (!AMENDABLE_INVOICE_STATUSES.includes(invoice.status)) {
+      await logAudit(supabase, correlationId, {
+        ...auditBase,
+        result: 'FAILURE',
+        error_code: 'INVOICE_NOT_AMENDABLE',
+        error_message: `Square invoice is ${invoice.status}`,
+      });
+      return errorResponse(
+        'INVOICE_NOT_AMENDABLE',
+        `The invoice for order #${order.order_number} is ${invoice.status.toLowerCase().replace(/_/g, ' ')} in Square and can't be amended.`,
+        409,
+        correlationId
+      );
+    }
+
+    const components = buildOrderComponents(
+      amendment.subtotalCents,
+      amendment.lineItems,
+      amendment.adjustments ?? [],
+      order.order_number,
+      `-a${amendmentNumber}`
+    );
+
+    const calculatedCents = await calculateOrderTotal(components, locationId, square);
+    if (calculatedCents !== amendment.amountCents) {
+      await logAudit(supabase, correlationId, {
+        ...auditBase,
+        result: 'FAILURE',
+        error_code: 'SQUARE_TOTAL_MISMATCH',
+        error_message: `Square order total ${calculatedCents} cents does not match amount due ${amendment.amountCents} cents`,
+      });
+      return squareErrorResponse(
+        'SQUARE_TOTAL_MISMATCH',
+        'Square calculated a different total than the PDF. Check the discounts, taxes and fees before sending.',
+        422,
+        correlationId,
+        'validation',
+        null
+      );
+    }
+
+    const current = await getOrderForAmendment(order.square_order_id, square);
+    const updated = await updateOrder(
+      order.square_order_id,
+      current.version,
+      current.fieldsToClear,
+      components,
+      `amd-ord-${keyBase}`,
+      locationId,
+      square
+    );
+    orderVersion = updated.version;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const kind = getErrorKind(error);
+    await logAudit(supabase, correlationId, {
+      ...auditBase,
+      result: 'FAILURE',
+      error_code: 'SQUARE_AMEND_ERROR',
+      error_message: errorMessage,
+      metadata: { ...auditMetadata, ...getSquareErrorMetadata(error) },
+    });
+    if (kind === 'validation') {
+      return squareErrorResponse(
+        'SQUARE_AMEND_ERROR',
+        'Square rejected the amended order. The invoice was not changed; check the order details.',
+        422,
+        correlationId,
+        kind,
+        error
+      );
+    }
+    return squareErrorResponse(
+      'SQUARE_AMEND_ERROR',
+      'Could not update the order in Square. The invoice was not changed; please try again.',
+      502,
+      correlationId,
+      kind,
+      error
+    );
+  }
+
+  // The order (and so the amount due) has changed from here on. A failed revision
+  // note doesn't undo that, so it's recorded rather than reported as a failure.
+  let invoiceVersion: number | null = null;
+  try {
+    const refreshed = await getInvoice(order.square_invoice_id, square);
+    invoiceVersion = await reviseInvoice(refreshed, `amd-inv-${keyBase}`, square);
+  } catch (error) {
+    auditMetadata.invoice_revision_error = error instanceof Error ? error.message : 'Unknown error';
+    Object.assign(auditMetadata, getSquareErrorMetadata(error));
+  }
+
+  const now = new Date().toISOString();
+  await supabase
+    .from('processed_orders')
+    .update({
+      amount_cents: amendment.amountCents,
+      line_items: amendment.lineItems ?? null,
+      adjustments: amendment.adjustments ?? null,
+      amendment_count: amendmentNumber,
+      amended_at: now,
+      updated_at: now,
+    })
+    .eq('id', order.id);
+
+  const { error: historyError } = await supabase.from('invoice_amendments').insert({
+    processed_order_id: order.id,
+    order_number: order.order_number,
+    amendment_number: amendmentNumber,
+    amended_by: user.id,
+    correlation_id: correlationId,
+    previous_amount_cents: order.amount_cents,
+    new_amount_cents: amendment.amountCents,
+    previous_line_items: order.line_items,
+    new_line_items: amendment.lineItems ?? null,
+    previous_adjustments: order.adjustments,
+    new_adjustments: amendment.adjustments ?? null,
+    square_order_id: order.square_order_id,
+    square_invoice_id: order.square_invoice_id,
+    square_order_version: orderVersion,
+    square_invoice_version: invoiceVersion,
+  });
+
+  if (historyError) {
+    console.error('Failed to record amendment history:', historyError);
+  }
+
+  await logAudit(supabase, correlationId, {
+    ...auditBase,
+    result: 'AMENDED',
+    metadata: {
+      ...auditMetadata,
+      amendment_number: amendmentNumber,
+      previous_amount_cents: order.amount_cents,
+    },
+  });
+
+  return jsonResponse(
+    {
+      success: true,
+      correlation_id: correlationId,
+      data: {
+        square_customer_id: order.square_customer_id,
+        square_order_id: order.square_order_id,
+        square_invoice_id: order.square_invoice_id,
+        invoice_number: invoice.invoice_number ?? '',
+        amendment_number: amendmentNumber,
+      },
+    },
+    200,
+    correlationId
+  );
+}
+
+// ============================================================================
+// Invoice Jobs
+// ============================================================================
+
+/**
+ * Record how a job ended. The popup polls get_invoice_job for this.
+ */
+async function finishJob(
+  supabase: ReturnType<typeof createSupabaseClient>,
+  jobId: string,
+  outcome: { status: 'succeeded'; result: InvoiceJobResult } | { status: 'failed'; error: InvoiceJobError }
+): Promise<void> {
+  await supabase
+    .from('invoice_jobs')
+    .update({ ...outcome, finished_at: new Date().toISOString() })
+    .eq('id', jobId);
+}
+
+/**
+ * Ask the process-invoice-jobs worker to run a job now, without waiting for
+ * it. The request outlives the response through EdgeRuntime.waitUntil; if it
+ * is lost anyway, the worker's schedule picks the job up.
+ */
+function requestWorker(jobId: string): void {
+  const request = fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/process-invoice-jobs`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ job_id: jobId }),
+  }).catch((error) => console.error('Failed to start the invoice worker:', error));
+
+  (globalThis as { EdgeRuntime?: { waitUntil(promise: Promise<unknown>): void } }).EdgeRuntime?.waitUntil(request);
+}
+
+/**
+ * Run a queued job through Square: claim it, carry on from what a failed
+ * attempt left (when this job resends one), then create the customer, order
+ * and invoice and publish it, recording each step on the order so the popup
+ * can show progress. Returns how the job ended, or null if another worker
+ * already claimed it.
+ */
+export async function runInvoiceJob(
+  supabase: ReturnType<typeof createSupabaseClient>,
+  jobId: string
+): Promise<'succeeded' | 'failed' | null> {
+  const { data: claimed } = await supabase
+    .from('invoice_jobs')
+    .update({ status: 'running', started_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .eq('status', 'queued')
+    .select('*');
+
+  if (!claimed || claimed.length === 0) {
+    return null;
+  }
+
+  const job = claimed[0] as InvoiceJob;
+  const input = job.input;
+  const correlationId = job.correlation_id;
+  const processedOrderId = job.processed_order_id;
+  const auditMetadata = { ...input.audit_metadata };
+  const {
+    order_number,
+    customer_name,
+    customer_email,
+    amount_cents,
+    line_items,
+    adjustments,
+    license_number,
+    manifest_number,
+    customer_phone,
+    ship_to_address,
+    payment_schedule,
+    request_timestamp,
+  } = input;
+  const subtotalCents = input.subtotal_cents;
+  const idempotencyKey = input.idempotency_key;
+  const stepsCompleted: string[] = [];
+
+  const square = createSquareClient({
+    accessToken: Deno.env.get('SQUARE_ACCESS_TOKEN') ?? '',
+    baseUrl: getSquareBaseUrl(),
+    apiVersion: SQUARE_API_VERSION,
+    deadline: Date.now() + SQUARE_TIME_BUDGET_MS,
+  });
+
+  const { data: attempt } = await supabase
+    .from('processed_orders')
+    .update({ status: 'processing', steps_completed: [], updated_at: new Date().toISOString() })
+    .eq('id', processedOrderId)
+    .select('*')
+    .single();
+
+  // A resend of a failed order carries on with what Square still has
+  let resume: ResumePoint | null = null;
+  if (auditMetadata.resumed && attempt) {
+    try {
+      resume = await findResumePoint(
+        attempt as FailedAttempt,
+        input.square_customer_id ?? undefined,
+        amount_cents,
+        line_items,
+        adjustments,
+        square
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await supabase
+        .from('processed_orders')
+        .update({ status: 'failed', error_message: errorMessage })
+        .eq('id', processedOrderId);
+      await logAudit(supabase, correlationId, {
+        user_id: job.user_id,
+        user_email: job.user_email,
+        cultivera_order_number: order_number,
+        customer_name,
+        customer_email,
+        result: 'FAILURE',
+        error_code: 'SQUARE_API_ERROR',
+        error_message: errorMessage,
+        metadata: { ...auditMetadata, ...getSquareErrorMetadata(error) },
+      });
+      await finishJob(supabase, job.id, {
+        status: 'failed',
+        error: squareError(
+          'SQUARE_API_ERROR',
+          'Could not check the earlier attempt at this invoice in Square. Please try again.',
+          getErrorKind(error),
+          error
+        ),
+      });
+      return 'failed';
+    }
+
+    auditMetadata.resumed = {
+      ...(auditMetadata.resumed as Record<string, unknown>),
+      square_order_id: resume.order?.id ?? null,
+      square_invoice_id: resume.invoice?.id ?? null,
+      replaced: resume.replaced,
+    };
+  }
+
+  let squareCustomerId: string | undefined;
+  let squareOrderId: string | undefined;
+  let squareInvoiceId: string | undefined;
+  let invoiceNumber: string | undefined;
+  const keys = resume?.replaced ? replaceSquareKeys(input.square_keys, resume.replaced) : input.square_keys;
+
+  try {
+    // Step 1: Customer was matched (or chosen) when the job was accepted
+    stepsCompleted.push('customer_search');
+
+    // Step 2: Create customer if not found
+    if (input.square_customer_id) {
+      squareCustomerId = input.square_customer_id;
+      stepsCompleted.push('customer_found');
+    } else {
+      const newCustomer = await createCustomer(
+        customer_name,
+        customer_email,
+        { license_number, customer_phone, ship_to_address },
+        keys.customer,
+        square
+      );
+      squareCustomerId = newCustomer.id;
+      stepsCompleted.push('customer_created');
+    }
+
+    // Update progress
+    await supabase
+      .from('processed_orders')
+      .update({ square_customer_id: squareCustomerId, steps_completed: stepsCompleted })
+      .eq('id', processedOrderId);
+
+    // Step 3: Create order, or carry on with the failed attempt's
+    const order = resume?.order
+      ? { orderId: resume.order.id, totalCents: resume.order.total_money?.amount ?? 0 }
+      : await createOrder(
+          squareCustomerId,
+          subtotalCents,
+          line_items,
+          adjustments ?? [],
+          order_number,
+          keys.order,
+          input.location_id,
+          square
+        );
+    squareOrderId = order.orderId;
+    stepsCompleted.push('order_created');
+
+    await supabase
+      .from('processed_orders')
+      .update({ square_order_id: squareOrderId, steps_completed: stepsCompleted })
+      .eq('id', processedOrderId);
+
+    // Square's rounding of taxes must land on the PDF's amount due before we invoice
+    if (order.totalCents !== amount_cents) {
+      throw new Error(`Square order total ${order.totalCents} cents does not match amount due ${amount_cents} cents`);
+    }
+    stepsCompleted.push('order_total_verified');
+
+    // Step 4: Create invoice, or carry on with the failed attempt's
+    const invoiceResult = resume?.invoice
+      ? toCreatedInvoice(resume.invoice)
+      : await createInvoice(
+          squareOrderId,
+          squareCustomerId,
+          order_number,
+          keys.invoice,
+          manifest_number,
+          input.payment_terms,
+          payment_schedule,
+          input.delivery,
+          input.location_id,
+          square
+        );
+    squareInvoiceId = invoiceResult.invoiceId;
+    invoiceNumber = invoiceResult.invoiceNumber;
+    stepsCompleted.push('invoice_created');
+
+    await supabase
+      .from('processed_orders')
+      .update({
+        square_invoice_id: squareInvoiceId,
+        due_date: invoiceResult.dueDate,
+        steps_completed: stepsCompleted,
+      })
+      .eq('id', processedOrderId);
+
+    // Step 5: Publish invoice, unless the failed attempt did and only lost the reply
+    const publishedStatus = resume?.invoice && resume.invoice.status !== 'DRAFT' ? resume.invoice.status : null;
+    if (!publishedStatus) {
+      await publishInvoice(squareInvoiceId, keys.publish, square);
+    }
+    stepsCompleted.push('invoice_published');
+
+    // Mark as completed
+    await supabase
+      .from('processed_orders')
+      .update({
+        status: 'completed',
+        steps_completed: stepsCompleted,
+        completed_at: new Date().toISOString(),
+        // The square-webhook function moves this on as payments arrive
+        payment_status: publishedStatus ?? (invoiceResult.scheduledAt ? 'SCHEDULED' : 'UNPAID'),
+        payment_status_updated_at: new Date().toISOString(),
+      })
+      .eq('id', processedOrderId);
+
+    // Log success
+    await logAudit(supabase, correlationId, {
+      user_id: job.user_id,
+      user_email: job.user_email,
+      cultivera_order_number: order_number,
+      customer_name,
+      customer_email,
+      amount_cents,
+      idempotency_key: idempotencyKey,
+      square_customer_id: squareCustomerId,
+      square_order_id: squareOrderId,
+      square_invoice_id: squareInvoiceId,
+      result: 'SUCCESS',
+      request_timestamp,
+      steps_completed: stepsCompleted,
+      payment_terms: input.payment_terms,
+      metadata: auditMetadata,
+    });
+
+    await finishJob(supabase, job.id, {
+      status: 'succeeded',
+      result: {
+        square_customer_id: squareCustomerId,
+        square_order_id: squareOrderId,
+        square_invoice_id: squareInvoiceId,
+        invoice_number: invoiceNumber,
+        scheduled_at: invoiceResult.scheduledAt,
+      },
+    });
+    return 'succeeded';
+  } catch (error) {
+    // Determine error type based on last step
+    let errorCode: ErrorCode = 'SQUARE_API_ERROR';
+    if (!stepsCompleted.includes('customer_created') && !stepsCompleted.includes('customer_found')) {
+      errorCode = 'SQUARE_CUSTOMER_ERROR';
+    } else if (!stepsCompleted.includes('order_created')) {
+      errorCode = 'SQUARE_ORDER_ERROR';
+    } else if (!stepsCompleted.includes('order_total_verified')) {
+      errorCode = 'SQUARE_TOTAL_MISMATCH';
+    } else if (!stepsCompleted.includes('invoice_created')) {
+      errorCode = 'SQUARE_INVOICE_ERROR';
+    } else if (!stepsCompleted.includes('invoice_published')) {
+      errorCode = 'SQUARE_PUBLISH_ERROR';
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    // A total mismatch won't fix itself on retry; the PDF needs checking
+    const kind = errorCode === 'SQUARE_TOTAL_MISMATCH' ? 'validation' : getErrorKind(error);
+    Object.assign(auditMetadata, getSquareErrorMetadata(error));
+
+    // Update processed order with failure
+    await supabase
+      .from('processed_orders')
+      .update({
+        status: 'failed',
+        steps_completed: stepsCompleted,
+        error_message: errorMessage,
+        square_customer_id: squareCustomerId,
+        square_order_id: squareOrderId,
+        square_invoice_id: squareInvoiceId,
+      })
+      .eq('id', processedOrderId);
+
+    // Log failure
+    await logAudit(supabase, correlationId, {
+      user_id: job.user_id,
+      user_email: job.user_email,
+      cultivera_order_number: order_number,
+      customer_name,
+      customer_email,
+      amount_cents,
+      idempotency_key: idempotencyKey,
+      square_customer_id: squareCustomerId,
+      square_order_id: squareOrderId,
+      square_invoice_id: squareInvoiceId,
+      result: 'FAILURE',
+      error_code: errorCode,
+      error_message: errorMessage,
+      request_timestamp,
+      steps_completed: stepsCompleted,
+      payment_terms: input.payment_terms,
+      metadata: auditMetadata,
+    });
+
+    const message = errorCode === 'SQUARE_TOTAL_MISMATCH'
+      ? `Square calculated a different total than the PDF, so no invoice was sent. ${errorMessage}`
+      : kind === 'validation'
+        ? `Square rejected the invoice details, so no invoice was sent. Check the order and send it again. Error: ${errorMessage}`
+        : `Invoice creation did not complete. Click 'Try Again' to retry safely. Error: ${errorMessage}`;
+    await finishJob(supabase, job.id, { status: 'failed', error: squareError(errorCode, message, kind, error) });
+    return 'failed';
+  }
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Handle one create-invoice request. index.ts serves this; tests call it with
+ * an in-memory database in place of the service role client, and run the
+ * queued job themselves in place of asking the worker.
+ */
+export async function handleRequest(
+  req: Request,
+  connectSupabase: typeof createSupabaseClient = createSupabaseClient,
+  startWorker: (jobId: string) => void | Promise<void> = requestWorker
+): Promise<Response> {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: CORS_HEADERS });
+  }
+
+  const correlationId = generateCorrelationId();
+  const startedAt = Date.now();
+
+  // Only allow POST
+  if (req.method !== 'POST') {
+    return errorResponse('INTERNAL_ERROR', 'Method not allowed', 405, correlationId);
+  }
+
+  // Get environment variables
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  const squareAccessToken = Deno.env.get('SQUARE_ACCESS_TOKEN');
+  const squareLocationId = Deno.env.get('SQUARE_LOCATION_ID');
+
+  if (!supabaseUrl || !supabaseServiceKey || !squareAccessToken || !squareLocationId) {
+    console.error('Missing required environment variables');
+    return errorResponse('INTERNAL_ERROR', 'Server configuration error', 500, correlationId);
+  }
+
+  const supabase = connectSupabase(supabaseServiceKey, supabaseUrl);
+  const square = createSquareClient({
+    accessToken: squareAccessToken,
+    baseUrl: getSquareBaseUrl(),
+    apiVersion: SQUARE_API_VERSION,
+    deadline: startedAt + SQUARE_TIME_BUDGET_MS,
+  });
+
+  // ============================================================================
+  // 1. Authentication
+  // ============================================================================
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    await logAudit(supabase, correlationId, {
+      result: 'AUTH_MISSING',
+      error_code: 'AUTH_MISSING',
+      error_message: 'No authorization header provided',
+    });
+    return errorResponse('AUTH_MISSING', 'Authentication required', 401, correlationId);
+  }
+
+  const jwt = authHeader.replace('Bearer ', '');
+
+  // Validate the user's JWT using the service role client
+  const { data: { user }, error: authError } = await supabase.auth.getUser(jwt);
+
+  if (authError || !user) {
+    await logAudit(supabase, correlationId, {
+      result: 'AUTH_MISSING',
+      error_code: authError?.message?.includes('expired') ? 'AUTH_EXPIRED' : 'AUTH_INVALID',
+      error_message: authError?.message || 'Invalid authentication token',
+    });
+
+    const code = authError?.message?.includes('expired') ? 'AUTH_EXPIRED' : 'AUTH_INVALID';
+    const message = code === 'AUTH_EXPIRED' ? 'Session expired. Please sign in again.' : 'Invalid authentication';
+    return errorResponse(code, message, 401, correlationId);
+  }
+
+  // ============================================================================
+  // 2. Authorization
+  // ============================================================================
+  const { data: isAuthorized } = await supabase.rpc('is_authorized_invoicer', {
+    p_user_id: user.id,
+  });
+
+  if (!isAuthorized) {
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      result: 'UNAUTHORIZED',
+      error_code: 'UNAUTHORIZED',
+      error_message: 'User is not authorized to create invoices',
+    });
+    return errorResponse(
+      'UNAUTHORIZED',
+      'Your account is not authorized to create invoices. Contact your admin for access.',
+      403,
+      correlationId
+    );
+  }
+
+  // ============================================================================
+  // 3. Parse Request Body
+  // ============================================================================
+  let body: CreateInvoiceRequest;
+  try {
+    body = await req.json();
+  } catch {
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      result: 'VALIDATION_FAILED',
+      error_code: 'VALIDATION_MISSING_FIELD',
+      error_message: 'Invalid JSON body',
+    });
+    return errorResponse('VALIDATION_MISSING_FIELD', 'Invalid request body', 400, correlationId);
+  }
+
+  const {
+    order_number,
+    customer_name,
+    customer_email,
+    amount_cents,
+    line_items,
+    adjustments,
+    license_number,
+    manifest_number,
+    customer_phone,
+    ship_to_address,
+    seller_license,
+    brand,
+    payment_terms,
+    payment_schedule,
+    reminder_days,
+    send_date,
+    overrides,
+    amend,
+    square_customer_id,
+    create_customer,
+    request_timestamp,
+  } = body;
+
+  // ============================================================================
+  // 4. Validation
+  // ============================================================================
+
+  // Required fields
+  if (!order_number || !customer_name || !customer_email || amount_cents === undefined || !request_timestamp) {
+    const missingFields = [];
+    if (!order_number) missingFields.push('order_number');
+    if (!customer_name) missingFields.push('customer_name');
+    if (!customer_email) missingFields.push('customer_email');
+    if (amount_cents === undefined) missingFields.push('amount_cents');
+    if (!request_timestamp) missingFields.push('request_timestamp');
+
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      cultivera_order_number: order_number,
+      result: 'VALIDATION_FAILED',
+      error_code: 'VALIDATION_MISSING_FIELD',
+      error_message: `Missing required fields: ${missingFields.join(', ')}`,
+    });
+    return errorResponse(
+      'VALIDATION_MISSING_FIELD',
+      `Missing required fields: ${missingFields.join(', ')}`,
+      400,
+      correlationId
+    );
+  }
+
+  // Order number format
+  if (!isValidOrderNumber(order_number)) {
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      cultivera_order_number: order_number,
+      result: 'VALIDATION_FAILED',
+      error_code: 'VALIDATION_INVALID_ORDER',
+      error_message: 'Invalid order number format',
+    });
+    return errorResponse('VALIDATION_INVALID_ORDER', 'Invalid order number format', 400, correlationId);
+  }
+
+  // Email format
+  if (!isValidEmail(customer_email)) {
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      cultivera_order_number: order_number,
+      customer_email,
+      result: 'VALIDATION_FAILED',
+      error_code: 'VALIDATION_INVALID_EMAIL',
+      error_message: 'Invalid email format',
+    });
+    return errorResponse('VALIDATION_INVALID_EMAIL', 'Invalid customer email format', 400, correlationId);
+  }
+
+  // Amount validation
+  if (!Number.isInteger(amount_cents) || amount_cents <= 0 || amount_cents > MAX_AMOUNT_CENTS) {
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      cultivera_order_number: order_number,
+      amount_cents,
+      result: 'VALIDATION_FAILED',
+      error_code: 'VALIDATION_INVALID_AMOUNT',
+      error_message: `Amount must be a positive integer not exceeding ${MAX_AMOUNT_CENTS} cents`,
+    });
+    return errorResponse(
+      'VALIDATION_INVALID_AMOUNT',
+      'Amount appears invalid (must be positive and not exceed $50,000)',
+      400,
+      correlationId
+    );
+  }
+
+  // Discounts, taxes and fees (optional) decide what the line items add up to
+  let subtotalCents = amount_cents;
+  if (adjustments !== undefined) {
+    const adjusted = getAdjustedSubtotal(adjustments, amount_cents);
+    if ('error' in adjusted) {
+      await logAudit(supabase, correlationId, {
+        user_id: user.id,
+        user_email: user.email,
+        cultivera_order_number: order_number,
+        amount_cents,
+        result: 'VALIDATION_FAILED',
+        error_code: 'VALIDATION_INVALID_AMOUNT',
+        error_message: adjusted.error,
+      });
+      return errorResponse(
+        'VALIDATION_INVALID_AMOUNT',
+        'Discounts, taxes and fees do not match the order total. Re-upload the PDF and try again.',
+        400,
+        correlationId
+      );
+    }
+    subtotalCents = adjusted.subtotalCents;
+  }
+
+  // Line items (optional) must add up to the subtotal
+  if (line_items !== undefined) {
+    const lineItemsError = getLineItemsError(line_items, subtotalCents);
+    if (lineItemsError) {
+      await logAudit(supabase, correlationId, {
+        user_id: user.id,
+        user_email: user.email,
+        cultivera_order_number: order_number,
+        amount_cents,
+        result: 'VALIDATION_FAILED',
+        error_code: 'VALIDATION_INVALID_AMOUNT',
+        error_message: lineItemsError,
+      });
+      return errorResponse(
+        'VALIDATION_INVALID_AMOUNT',
+        'Line items do not match the order total. Re-upload the PDF and try again.',
+        400,
+        correlationId
+      );
+    }
+  }
+
+  // License, manifest, phone and address (optional) are copied into Square as-is
+  if (
+    !isValidDetail(license_number) ||
+    !isValidDetail(manifest_number) ||
+    !isValidDetail(customer_phone) ||
+    (ship_to_address !== undefined && !isValidAddress(ship_to_address))
+  ) {
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      cultivera_order_number: order_number,
+      result: 'VALIDATION_FAILED',
+      error_code: 'VALIDATION_MISSING_FIELD',
+      error_message: 'Invalid license, manifest, phone or ship-to address',
+    });
+    return errorResponse(
+      'VALIDATION_MISSING_FIELD',
+      'Invalid license, manifest, phone or ship-to address',
+      400,
+      correlationId
+    );
+  }
+
+  // Seller license and brand (optional) pick the Square location
+  if (!isValidDetail(seller_license) || !isValidDetail(brand)) {
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      cultivera_order_number: order_number,
+      result: 'VALIDATION_FAILED',
+      error_code: 'VALIDATION_MISSING_FIELD',
+      error_message: 'Invalid seller license or brand',
+    });
+    return errorResponse('VALIDATION_MISSING_FIELD', 'Invalid seller license or brand', 400, correlationId);
+  }
+
+  // Payment terms override (optional)
+  if (payment_terms !== undefined && !isValidPaymentTerms(payment_terms)) {
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      cultivera_order_number: order_number,
+      result: 'VALIDATION_FAILED',
+      error_code: 'VALIDATION_MISSING_FIELD',
+      error_message: `Invalid payment terms: ${String(payment_terms)}`,
+    });
+    return errorResponse('VALIDATION_MISSING_FIELD', 'Invalid payment terms', 400, correlationId);
+  }
+
+  // Deposit or installments (optional) must add up to the order total
+  if (payment_schedule !== undefined) {
+    const scheduleError = getPaymentScheduleError(payment_schedule, amount_cents);
+    if (scheduleError) {
+      await logAudit(supabase, correlationId, {
+        user_id: user.id,
+        user_email: user.email,
+        cultivera_order_number: order_number,
+        amount_cents,
+        result: 'VALIDATION_FAILED',
+        error_code: 'VALIDATION_INVALID_SCHEDULE',
+        error_message: scheduleError,
+      });
+      return errorResponse('VALIDATION_INVALID_SCHEDULE', scheduleError, 400, correlationId);
+    }
+  }
+
+  // Reminder schedule and send date (optional)
+  if (
+    (reminder_days !== undefined && !isValidReminderDays(reminder_days)) ||
+    (send_date !== undefined && !isValidSendDate(send_date))
+  ) {
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      cultivera_order_number: order_number,
+      result: 'VALIDATION_FAILED',
+      error_code: 'VALIDATION_MISSING_FIELD',
+      error_message: 'Invalid reminder schedule or send date',
+    });
+    return errorResponse(
+      'VALIDATION_MISSING_FIELD',
+      `Invalid reminders (up to ${MAX_REMINDERS}) or send date (today to ${MAX_SEND_DELAY_DAYS} days out)`,
+      400,
+      correlationId
+    );
+  }
+
+  // Manual overrides (optional) are recorded for auditors
+  if (overrides !== undefined && !isValidOverrides(overrides)) {
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      cultivera_order_number: order_number,
+      result: 'VALIDATION_FAILED',
+      error_code: 'VALIDATION_MISSING_FIELD',
+      error_message: 'Invalid overrides list',
+    });
+    return errorResponse('VALIDATION_MISSING_FIELD', 'Invalid manual overrides', 400, correlationId);
+  }
+
+  // Customer choice (optional) answering an earlier CUSTOMER_MATCH_AMBIGUOUS response
+  if (
+    !isValidDetail(square_customer_id) ||
+    (create_customer !== undefined && typeof create_customer !== 'boolean')
+  ) {
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      cultivera_order_number: order_number,
+      result: 'VALIDATION_FAILED',
+      error_code: 'VALIDATION_MISSING_FIELD',
+      error_message: 'Invalid customer selection',
+    });
+    return errorResponse('VALIDATION_MISSING_FIELD', 'Invalid customer selection', 400, correlationId);
+  }
+
+  const auditMetadata: Record<string, unknown> = {};
+  if (overrides && overrides.length > 0) {
+    auditMetadata.manual_overrides = overrides;
+    auditMetadata.overridden_by = { user_id: user.id, user_email: user.email };
+  }
+
+  // ============================================================================
+  // 5. Replay Protection
+  // ============================================================================
+  const requestTime = new Date(request_timestamp).getTime();
+  const now = Date.now();
+  const ageSeconds = (now - requestTime) / 1000;
+
+  if (isNaN(requestTime) || ageSeconds > REPLAY_WINDOW_SECONDS || ageSeconds < -30) {
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      cultivera_order_number: order_number,
+      request_timestamp,
+      result: 'REPLAY_REJECTED',
+      error_code: 'REPLAY_REJECTED',
+      error_message: `Request timestamp outside acceptable window (${ageSeconds.toFixed(1)}s old)`,
+    });
+    return errorResponse('REPLAY_REJECTED', 'Request expired. Please try again.', 400, correlationId);
+  }
+
+  // ============================================================================
+  // 6. Rate Limiting
+  // ============================================================================
+  const { data: userRateCount } = await supabase.rpc('get_user_rate_limit_count', {
+    check_user_id: user.id,
+  });
+
+  if (userRateCount >= USER_RATE_LIMIT) {
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      cultivera_order_number: order_number,
+      result: 'RATE_LIMITED',
+      error_code: 'RATE_LIMITED_USER',
+      error_message: `User rate limit exceeded: ${userRateCount}/${USER_RATE_LIMIT} per hour`,
+    });
+    return errorResponse(
+      'RATE_LIMITED_USER',
+      'Too many requests. Please wait before trying again.',
+      429,
+      correlationId,
+      3600 // 1 hour
+    );
+  }
+
+  const { data: globalRateCount } = await supabase.rpc('get_global_rate_limit_count');
+
+  if (globalRateCount >= GLOBAL_RATE_LIMIT) {
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      cultivera_order_number: order_number,
+      result: 'RATE_LIMITED',
+      error_code: 'RATE_LIMITED_GLOBAL',
+      error_message: `Global rate limit exceeded: ${globalRateCount}/${GLOBAL_RATE_LIMIT} per hour`,
+    });
+    return errorResponse(
+      'RATE_LIMITED_GLOBAL',
+      'System is busy. Please wait a few minutes before trying again.',
+      429,
+      correlationId,
+      300 // 5 minutes
+    );
+  }
+
+  // ============================================================================
+  // 7. Duplicate Check
+  // ============================================================================
+  const { data: existingOrder } = await supabase
+    .from('processed_orders')
+    .select('*')
+    .eq('order_number', order_number)
+    .single();
+
+  // A changed order is amended in place when the invoicer confirmed it in the
+  // popup, at the location it was invoiced from
+  if (existingOrder && existingOrder.status === 'completed' && amend === true) {
+    return amendInvoice(
+      supabase,
+      correlationId,
+      user,
+      existingOrder as ProcessedOrder,
+      { amountCents: amount_cents, subtotalCents, lineItems: line_items, adjustments },
+      request_timestamp,
+      auditMetadata,
+      existingOrder.square_location_id ?? squareLocationId,
+      square
+    );
+  }
+
+  if (existingOrder && existingOrder.status === 'completed') {
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      cultivera_order_number: order_number,
+      square_invoice_id: existingOrder.square_invoice_id,
+      result: 'DUPLICATE_BLOCKED',
+      error_code: 'DUPLICATE_ORDER',
+      error_message: `Order already processed on ${existingOrder.completed_at}`,
+    });
+    return errorResponse(
+      'DUPLICATE_ORDER',
+      `Invoice already sent for order #${order_number}. View in Square Dashboard.`,
+      409,
+      correlationId
+    );
+  }
+
+  // Queued or with the worker; the request that sent it is following its job
+  if (existingOrder && (existingOrder.status === 'pending' || existingOrder.status === 'processing')) {
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      cultivera_order_number: order_number,
+      result: 'DUPLICATE_BLOCKED',
+      error_code: 'DUPLICATE_ORDER',
+      error_message: `Order is already ${existingOrder.status}`,
+    });
+    return errorResponse(
+      'DUPLICATE_ORDER',
+      'This order is already being sent. Please wait for it to finish.',
+      409,
+      correlationId
+    );
+  }
+
+  // Left by an interrupted job in a state the reap-stuck-orders function
+  // couldn't settle; an admin sets it to failed or completed after checking Square
+  if (existingOrder && existingOrder.status === 'needs_attention') {
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      cultivera_order_number: order_number,
+      square_invoice_id: existingOrder.square_invoice_id,
+      result: 'DUPLICATE_BLOCKED',
+      error_code: 'ORDER_NEEDS_ATTENTION',
+      error_message: existingOrder.error_message,
+    });
+    return errorResponse(
+      'ORDER_NEEDS_ATTENTION',
+      `Order #${order_number} needs checking in Square before it can be sent again: ${existingOrder.error_message}`,
+      409,
+      correlationId
+    );
+  }
+
+  // ============================================================================
+  // 8. Payment Terms and Delivery
+  // ============================================================================
+  // Terms on file for the customer (license number, then email, then the
+  // default), unless the invoicer chose different terms in the popup
+  const { data: termsOnFile } = await supabase.rpc('get_payment_terms', {
+    check_customer_email: customer_email,
+    check_license_number: license_number ?? null,
+  });
+  const resolvedTerms: { terms: PaymentTerms; source: string } =
+    termsOnFile?.[0] ?? { terms: DEFAULT_PAYMENT_TERMS, source: 'default' };
+  const paymentTerms: PaymentTerms = payment_terms ?? resolvedTerms.terms;
+
+  if (payment_terms && payment_terms !== resolvedTerms.terms) {
+    auditMetadata.payment_terms_override = {
+      terms_on_file: resolvedTerms.terms,
+      terms_source: resolvedTerms.source,
+      overridden_by: { user_id: user.id, user_email: user.email },
+    };
+  }
+
+  // Reminders and send date: the popup's choices, else the organization defaults
+  const { data: deliverySettings } = await supabase.rpc('get_invoice_delivery_settings');
+  const defaultDelivery: { reminder_days: number[]; send_delay_days: number } =
+    deliverySettings?.[0] ?? { reminder_days: DEFAULT_REMINDER_DAYS, send_delay_days: 0 };
+  const sendDate = send_date ?? addDays(today(), defaultDelivery.send_delay_days);
+  const delivery: InvoiceDelivery = {
+    reminderDays: reminder_days ?? defaultDelivery.reminder_days,
+    sendDate: sendDate > today() ? sendDate : undefined,
+  };
+  auditMetadata.delivery = {
+    reminder_days: delivery.reminderDays,
+    send_date: delivery.sendDate ?? null,
+  };
+
+  // Nothing can fall due before the customer is sent the invoice. The popup
+  // sends its local date, which can be a day behind UTC.
+  if (payment_schedule && payment_schedule.payments[0].due_date < (delivery.sendDate ?? addDays(today(), -1))) {
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      cultivera_order_number: order_number,
+      result: 'VALIDATION_FAILED',
+      error_code: 'VALIDATION_INVALID_SCHEDULE',
+      error_message: `First payment due ${payment_schedule.payments[0].due_date} is before the send date`,
+    });
+    return errorResponse(
+      'VALIDATION_INVALID_SCHEDULE',
+      'The first payment is due before the invoice is sent.',
+      400,
+      correlationId
+    );
+  }
+  if (payment_schedule) {
+    auditMetadata.payment_schedule = payment_schedule;
+  }
+
+  // ============================================================================
+  // 9. Square Location
+  // ============================================================================
+  // A retry stays where its first attempt created Square objects (their
+  // idempotency keys are reused); new and reissued orders go to the seller's location
+  let location: SquareLocation;
+  if (existingOrder?.square_location_id && existingOrder.status !== 'voided') {
+    location = { locationId: existingOrder.square_location_id, name: null, source: 'previous_attempt' };
+  } else {
+    try {
+      location = await resolveSquareLocation(supabase, seller_license, brand, squareLocationId);
+    } catch (error) {
+      await logAudit(supabase, correlationId, {
+        user_id: user.id,
+        user_email: user.email,
+        cultivera_order_number: order_number,
+        result: 'FAILURE',
+        error_code: 'INTERNAL_ERROR',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return errorResponse(
+        'INTERNAL_ERROR',
+        'Could not look up the Square location for this seller. Please try again.',
+        500,
+        correlationId
+      );
+    }
+  }
+  auditMetadata.square_location = {
+    location_id: location.locationId,
+    location_name: location.name,
+    source: location.source,
+    seller_license: seller_license ?? null,
+    brand: brand ?? null,
+  };
+
+  // ============================================================================
+  // 10. Square Customer
+  // ============================================================================
+  // Resolved before the order record exists, so an ambiguous match leaves
+  // nothing behind while the invoicer picks
+  const failedAttempt: FailedAttempt | null = existingOrder?.status === 'failed' ? existingOrder : null;
+  let matchedCustomer: SquareCustomer | null = null;
+  try {
+    // A failed attempt's customer is kept while Square still has them,
+    // unless the invoicer picked one this time
+    const previousCustomer = failedAttempt?.square_customer_id && !square_customer_id && !create_customer
+      ? await retrieveCustomer(failedAttempt.square_customer_id, square)
+      : null;
+
+    if (square_customer_id) {
+      matchedCustomer = await retrieveCustomer(square_customer_id, square);
+      if (!matchedCustomer) {
+        throw new Error(`Selected customer ${square_customer_id} not found`);
+      }
+      auditMetadata.customer_match = { matched_by: 'selected', square_customer_id };
+    } else if (create_customer) {
+      auditMetadata.customer_match = { matched_by: 'new_customer_selected' };
+    } else if (previousCustomer) {
+      matchedCustomer = previousCustomer;
+      auditMetadata.customer_match = { matched_by: 'previous_attempt', square_customer_id: previousCustomer.id };
+    } else {
+      const match = await matchCustomer(supabase, customer_name, customer_email, license_number, square);
+
+      if ('candidates' in match) {
+        await logAudit(supabase, correlationId, {
+          user_id: user.id,
+          user_email: user.email,
+          cultivera_order_number: order_number,
+          customer_name,
+          customer_email,
+          result: 'VALIDATION_FAILED',
+          error_code: 'CUSTOMER_MATCH_AMBIGUOUS',
+          error_message: `${match.candidates.length} possible Square customers`,
+          metadata: { candidates: match.candidates },
+        });
+        return jsonResponse(
+          {
+            success: false,
+            correlation_id: correlationId,
+            error: {
+              code: 'CUSTOMER_MATCH_AMBIGUOUS',
+              message: 'Several Square customers could be this buyer. Choose one, or create a new customer.',
+              candidates: match.candidates,
+            },
+          },
+          409,
+          correlationId
+        );
+      }
+
+      matchedCustomer = match.customer;
+      if (match.customer) {
+        auditMetadata.customer_match = { matched_by: match.matchedBy, square_customer_id: match.customer.id };
+      }
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      cultivera_order_number: order_number,
+      customer_name,
+      customer_email,
+      result: 'FAILURE',
+      error_code: 'SQUARE_CUSTOMER_ERROR',
+      error_message: errorMessage,
+      metadata: { ...auditMetadata, ...getSquareErrorMetadata(error) },
+    });
+    return squareErrorResponse(
+      'SQUARE_CUSTOMER_ERROR',
+      'Could not create or find customer in Square. Please try again.',
+      502,
+      correlationId,
+      getErrorKind(error),
+      error
+    );
+  }
+
+  // ============================================================================
+  // 11. Create/Update Processed Order Record
+  // ============================================================================
+  // A voided order is invoiced again from scratch. Square remembers idempotency
+  // keys, so each reissue is a new key generation or Square hands back the
+  // canceled invoice. Within a generation the keys follow what's invoiced.
+  const isReissue = existingOrder?.status === 'voided';
+  const reissueCount = (existingOrder?.reissue_count ?? 0) + (isReissue ? 1 : 0);
+  // Only what the request says: a retry must hash the same as the attempt it
+  // retries, even one whose reply was lost before anything was recorded. A
+  // send date defaulted from today moves with the day, and reminders default
+  // from organization settings that can change between attempts, so only ones
+  // the request gave are hashed.
+  const contentHash = await hashContent({
+    customer_name,
+    customer_email,
+    amount_cents,
+    line_items: line_items ?? null,
+    adjustments: adjustments ?? null,
+    manifest_number: manifest_number ?? null,
+    payment_terms: paymentTerms,
+    payment_schedule: payment_schedule ?? null,
+    send_date: send_date ?? null,
+    reminder_days: reminder_days ?? null,
+    location_id: location.locationId,
+  });
+  const idempotencyKey = `cultivera-${order_number}-g${reissueCount}-${contentHash}`;
+  // A retry of the same content carries on with the failed attempt's keys, as
+  // stored, so Square replays what that attempt created
+  const squareKeys = failedAttempt?.content_hash === contentHash && failedAttempt.square_keys
+    ? failedAttempt.square_keys
+    : await deriveSquareKeys(order_number, reissueCount, contentHash, {
+        name: customer_name,
+        email: customer_email,
+        license_number,
+        customer_phone,
+        ship_to_address,
+      });
+
+  let processedOrderId: string;
+
+  if (isReissue) {
+    processedOrderId = existingOrder.id;
+    auditMetadata.reissue = {
+      reissue_count: reissueCount,
+      voided_invoice_id: existingOrder.square_invoice_id,
+      void_reason: existingOrder.void_reason,
+    };
+
+    // Only one request can claim the voided row
+    const { data: claimed } = await supabase
+      .from('processed_orders')
+      .update({
+        user_id: user.id,
+        status: 'pending',
+        amount_cents,
+        customer_name,
+        customer_email,
+        idempotency_key: idempotencyKey,
+        content_hash: contentHash,
+        square_keys: squareKeys,
+        reissue_count: reissueCount,
+        payment_terms: paymentTerms,
+        line_items: line_items ?? null,
+        adjustments: adjustments ?? null,
+        payment_schedule: payment_schedule ?? null,
+        square_location_id: location.locationId,
+        seller_license: seller_license ?? null,
+        brand: brand ?? null,
+        amendment_count: 0,
+        amended_at: null,
+        square_customer_id: null,
+        square_order_id: null,
+        square_invoice_id: null,
+        steps_completed: [],
+        error_message: null,
+        completed_at: null,
+        due_date: null,
+        payment_status: null,
+        paid_amount_cents: null,
+        square_invoice_version: null,
+        payment_status_updated_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', processedOrderId)
+      .eq('status', 'voided')
+      .select('id');
+
+    if (!claimed || claimed.length === 0) {
+      await logAudit(supabase, correlationId, {
+        user_id: user.id,
+        user_email: user.email,
+        cultivera_order_number: order_number,
+        result: 'DUPLICATE_BLOCKED',
+        error_code: 'DUPLICATE_ORDER',
+        error_message: 'Voided order being reissued by another request',
+      });
+      return errorResponse(
+        'DUPLICATE_ORDER',
+        'This order is already being processed. Please wait a moment.',
+        409,
+        correlationId
+      );
+    }
+  } else if (failedAttempt) {
+    // Resend a failed order; the worker carries on with what Square still has
+    processedOrderId = existingOrder.id;
+    auditMetadata.resumed = {
+      previous_steps: existingOrder.steps_completed ?? [],
+      content_changed: existingOrder.content_hash !== contentHash,
+    };
+
+    // The Square ids stay until replaced: a stale one names the keys of its
+    // replacement. Only one request can claim the failed row.
+    const { data: claimed } = await supabase
+      .from('processed_orders')
+      .update({
+        status: 'pending',
+        amount_cents,
+        customer_name,
+        customer_email,
+        idempotency_key: idempotencyKey,
+        content_hash: contentHash,
+        square_keys: squareKeys,
+        error_message: null,
+        payment_terms: paymentTerms,
+        line_items: line_items ?? null,
+        adjustments: adjustments ?? null,
+        payment_schedule: payment_schedule ?? null,
+        square_location_id: location.locationId,
+        seller_license: seller_license ?? null,
+        brand: brand ?? null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', processedOrderId)
+      .eq('status', 'failed')
+      .select('id');
+
+    if (!claimed || claimed.length === 0) {
+      await logAudit(supabase, correlationId, {
+        user_id: user.id,
+        user_email: user.email,
+        cultivera_order_number: order_number,
+        result: 'DUPLICATE_BLOCKED',
+        error_code: 'DUPLICATE_ORDER',
+        error_message: 'Failed order being resent by another request',
+      });
+      return errorResponse(
+        'DUPLICATE_ORDER',
+        'This order is already being processed. Please wait a moment.',
+        409,
+        correlationId
+      );
+    }
+  } else {
+    // Create new record
+    const { data: newOrder, error: insertError } = await supabase
+      .from('processed_orders')
+      .insert({
+        order_number,
+        user_id: user.id,
+        status: 'pending',
+        amount_cents,
+        customer_name,
+        customer_email,
+        idempotency_key: idempotencyKey,
+        content_hash: contentHash,
+        square_keys: squareKeys,
+        payment_terms: paymentTerms,
+        line_items: line_items ?? null,
+        adjustments: adjustments ?? null,
+        payment_schedule: payment_schedule ?? null,
+        square_location_id: location.locationId,
+        seller_license: seller_license ?? null,
+        brand: brand ?? null,
+      })
+      .select('id')
+      .single();
+
+    if (insertError) {
+      // Check if it's a unique constraint violation (race condition)
+      if (insertError.code === '23505') {
+        await logAudit(supabase, correlationId, {
+          user_id: user.id,
+          user_email: user.email,
+          cultivera_order_number: order_number,
+          result: 'DUPLICATE_BLOCKED',
+          error_code: 'DUPLICATE_ORDER',
+          error_message: 'Order being processed by another request',
+        });
+        return errorResponse(
+          'DUPLICATE_ORDER',
+          'This order is already being processed. Please wait a moment.',
+          409,
+          correlationId
+        );
+      }
+      throw insertError;
+    }
+
+    processedOrderId = newOrder.id;
+  }
+
+  // ============================================================================
+  // 12. Queue the Job
+  // ============================================================================
+  // The Square calls run in the process-invoice-jobs worker; the popup polls
+  // get_invoice_job with the id returned here
+  const jobInput: InvoiceJobInput = {
+    order_number,
+    customer_name,
+    customer_email,
+    amount_cents,
+    subtotal_cents: subtotalCents,
+    line_items,
+    adjustments,
+    license_number,
+    manifest_number,
+    customer_phone,
+    ship_to_address,
+    payment_terms: paymentTerms,
+    payment_schedule,
+    delivery,
+    location_id: location.locationId,
+    square_customer_id: matchedCustomer?.id ?? null,
+    square_keys: squareKeys,
+    idempotency_key: idempotencyKey,
+    request_timestamp,
+    audit_metadata: auditMetadata,
+  };
+
+  const { data: job, error: jobError } = await supabase
+    .from('invoice_jobs')
+    .insert({
+      correlation_id: correlationId,
+      user_id: user.id,
+      user_email: user.email,
+      processed_order_id: processedOrderId,
+      order_number,
+      status: 'queued',
+      input: jobInput,
+    })
+    .select('id')
+    .single();
+
+  if (jobError || !job) {
+    const errorMessage = jobError?.message ?? 'Job not created';
+    await supabase
+      .from('processed_orders')
+      .update({ status: 'failed', error_message: errorMessage })
+      .eq('id', processedOrderId);
+    await logAudit(supabase, correlationId, {
+      user_id: user.id,
+      user_email: user.email,
+      cultivera_order_number: order_number,
+      result: 'FAILURE',
+      error_code: 'INTERNAL_ERROR',
+      error_message: errorMessage,
+    });
+    return errorResponse('INTERNAL_ERROR', 'Could not queue the invoice. Please try again.', 500, correlationId);
+  }
+
+  await startWorker(job.id);
+
+  return jsonResponse(
+    {
+      success: true,
+      correlation_id: correlationId,
+      data: { job_id: job.id, status: 'queued' },
+    },
+    202,
+    correlationId
+  );
+}
@@ -0,0 +1,109 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { runInvoiceJob } from '../create-square-invoice/handler.ts';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Queued jobs are started only this long after the request came in, so the
+// last one still gets its full Square time budget before Supabase ends the
+// request at 150 s
+const DRAIN_WINDOW_MS = 40000;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function jsonResponse(data: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function createSupabaseClient(serviceRoleKey: string, supabaseUrl: string) {
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+}
+
+// Oldest job still waiting for a worker, if any
+async function nextQueuedJob(supabase: ReturnType<typeof createSupabaseClient>): Promise<string | null> {
+  const { data } = await supabase
+    .from('invoice_jobs')
+    .select('id')
+    .eq('status', 'queued')
+    .order('created_at', { ascending: true })
+    .limit(1);
+
+  return data && data.length > 0 ? (data[0].id as string) : null;
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Run queued invoice jobs: the one create-square-invoice asked for, then any
+ * others still queued (a lost request, or a batch that outran the worker).
+ * Called with the service role key, by create-square-invoice and on a
+ * schedule. index.ts serves this; tests call it with an in-memory database.
+ */
+export async function handleRequest(
+  req: Request,
+  connectSupabase: typeof createSupabaseClient = createSupabaseClient
+): Promise<Response> {
+  const startedAt = Date.now();
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error('Missing required environment variables');
+    return jsonResponse({ error: 'Server configuration error' }, 500);
+  }
+
+  // Only the functions and the schedule hold the service role key
+  if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  let requestedJobId: string | null = null;
+  try {
+    const body = await req.json();
+    requestedJobId = typeof body?.job_id === 'string' ? body.job_id : null;
+  } catch {
+    // A scheduled run has no body; it just drains the queue
+  }
+
+  const supabase = connectSupabase(supabaseServiceKey, supabaseUrl);
+  const processed: { job_id: string; status: string }[] = [];
+
+  let jobId = requestedJobId ?? await nextQueuedJob(supabase);
+  while (jobId) {
+    try {
+      const status = await runInvoiceJob(supabase, jobId);
+      if (status) {
+        processed.push({ job_id: jobId, status });
+      }
+    } catch (error) {
+      // Left running, with its order processing, for someone to look into
+      console.error(`Invoice job ${jobId} failed unexpectedly:`, error);
+      processed.push({ job_id: jobId, status: 'error' });
+    }
+
+    if (Date.now() - startedAt > DRAIN_WINDOW_MS) {
+      break;
+    }
+    jobId = await nextQueuedJob(supabase);
+  }
+
+  return jsonResponse({ processed });
+}
@@ -0,0 +1,653 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import {
+  createSquareClient,
+  getSquareBaseUrl,
+  getSquareErrorMetadata,
+  SquareApiError,
+  SquareClient,
+} from '../_shared/square-client.ts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface SquareOrder {
+  id: string;
+  state: string;
+  reference_id?: string; // Cultivera order number
+  customer_id?: string;
+  total_money?: { amount: number };
+}
+
+interface SquareInvoice {
+  id: string;
+  status: string;
+  order_id?: string;
+  invoice_number?: string;
+  scheduled_at?: string;
+  payment_requests?: { due_date?: string }[];
+}
+
+// The processed_orders columns the reaper reads
+interface StuckOrder {
+  id: string;
+  order_number: string;
+  status: 'pending' | 'processing';
+  user_id: string;
+  customer_name: string;
+  customer_email: string;
+  amount_cents: number;
+  idempotency_key: string;
+  square_customer_id: string | null;
+  square_order_id: string | null;
+  square_invoice_id: string | null;
+  square_location_id: string | null;
+  steps_completed: string[] | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// The order's latest invoice_jobs row
+interface LatestJob {
+  id: string;
+  correlation_id: string;
+  user_email: string | null;
+  status: string;
+  input: { location_id?: string } | null;
+  created_at: string;
+}
+
+// What Square has for a stuck order; problem is set when that can't be settled
+interface SquareState {
+  order: SquareOrder | null;
+  invoice: SquareInvoice | null;
+  problem?: string;
+}
+
+interface Verdict {
+  status: 'completed' | 'failed' | 'needs_attention';
+  reason: string;
+  steps: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SQUARE_API_VERSION = '2024-01-18';
+
+// A job records every Square step on its order and gives up well inside the
+// 150 s request limit, and the worker runs every minute to take queued jobs,
+// so an order untouched this long has lost its job
+const STUCK_AFTER_MS = 10 * 60 * 1000;
+
+// Stuck orders checked per run, oldest first; the rest wait for the next run
+const BATCH_SIZE = 25;
+
+const SQUARE_TIME_BUDGET_MS = 100000;
+
+// Orders made by an attempt can't predate its job; this allows for clock skew
+const SEARCH_MARGIN_MS = 5 * 60 * 1000;
+
+// Square invoice statuses once published, as payment_status
+const PAYMENT_STATUS_MAP: Record<string, string> = {
+  UNPAID: 'UNPAID',
+  PAYMENT_PENDING: 'UNPAID',
+  SCHEDULED: 'SCHEDULED',
+  PARTIALLY_PAID: 'PARTIALLY_PAID',
+  PAID: 'PAID',
+  PARTIALLY_REFUNDED: 'PARTIALLY_REFUNDED',
+  REFUNDED: 'REFUNDED',
+  FAILED: 'PAYMENT_FAILED',
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function jsonResponse(data: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function createSupabaseClient(serviceRoleKey: string, supabaseUrl: string) {
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+}
+
+async function logAudit(
+  supabase: ReturnType<typeof createSupabaseClient>,
+  correlationId: string,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    await supabase.from('invoice_audit_log').insert({
+      correlation_id: correlationId,
+      ...data,
+    });
+  } catch (error) {
+    console.error('Failed to write audit log:', error);
+  }
+}
+
+// ============================================================================
+// Square Lookups
+// ============================================================================
+
+// Null when the order isn't in Square
+async function retrieveOrder(orderId: string, square: SquareClient): Promise<SquareOrder | null> {
+  try {
+    const result = await square.request(`/orders/${encodeURIComponent(orderId)}`, 'GET');
+    return (result as { order: SquareOrder }).order;
+  } catch (error) {
+    if (error instanceof SquareApiError && error.hasCode('NOT_FOUND')) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Null when the invoice was deleted in Square
+async function retrieveInvoice(invoiceId: string, square: SquareClient): Promise<SquareInvoice | null> {
+  try {
+    const result = await square.request(`/invoices/${encodeURIComponent(invoiceId)}`, 'GET');
+    return (result as { invoice: SquareInvoice }).invoice;
+  } catch (error) {
+    if (error instanceof SquareApiError && error.hasCode('NOT_FOUND')) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Orders at the location carrying this order number as their reference_id,
+ * created since `since`. Square can't filter on reference_id, so the
+ * location's orders from then on are paged through.
+ */
+async function searchOrdersByReference(
+  orderNumber: string,
+  locationId: string,
+  since: string,
+  square: SquareClient
+): Promise<SquareOrder[]> {
+  const matches: SquareOrder[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const result = await square.request(
+      '/orders/search',
+      'POST',
+      {
+        location_ids: [locationId],
+        query: {
+          filter: { date_time_filter: { created_at: { start_at: since } } },
+          sort: { sort_field: 'CREATED_AT', sort_order: 'ASC' },
+        },
+        limit: 500,
+        cursor,
+      },
+      { readOnly: true }
+    ) as { orders?: SquareOrder[]; cursor?: string };
+
+    matches.push(...(result.orders ?? []).filter((order) => order.reference_id === orderNumber));
+    cursor = result.cursor;
+  } while (cursor);
+
+  return matches;
+}
+
+/**
+ * The invoice billing an order, found among its customer's invoices at the
+ * location. One that wasn't canceled wins over one that was.
+ */
+async function findInvoiceForOrder(
+  order: SquareOrder,
+  locationId: string,
+  square: SquareClient
+): Promise<SquareInvoice | null> {
+  if (!order.customer_id) {
+    return null;
+  }
+
+  const matches: SquareInvoice[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const result = await square.request(
+      '/invoices/search',
+      'POST',
+      {
+        query: { filter: { location_ids: [locationId], customer_ids: [order.customer_id] } },
+        limit: 200,
+        cursor,
+      },
+      { readOnly: true }
+    ) as { invoices?: SquareInvoice[]; cursor?: string };
+
+    matches.push(...(result.invoices ?? []).filter((invoice) => invoice.order_id === order.id));
+    cursor = result.cursor;
+  } while (cursor);
+
+  return matches.find((invoice) => invoice.status !== 'CANCELED') ?? matches[0] ?? null;
+}
+
+/**
+ * Find what Square has for a stuck order: first by the ids it recorded, then,
+ * when it recorded none, by searching the location for its order number. An
+ * earlier generation's orders (before a void) also carry the number, so
+ * orders whose invoice was canceled are passed over.
+ */
+async function findSquareState(
+  stuck: StuckOrder,
+  locationId: string,
+  since: string,
+  square: SquareClient
+): Promise<SquareState> {
+  const invoice = stuck.square_invoice_id ? await retrieveInvoice(stuck.square_invoice_id, square) : null;
+  const orderId = stuck.square_order_id ?? invoice?.order_id;
+  const order = orderId ? await retrieveOrder(orderId, square) : null;
+
+  if (order) {
+    return { order, invoice: invoice ?? await findInvoiceForOrder(order, locationId, square) };
+  }
+  if (invoice) {
+    return { order: null, invoice };
+  }
+
+  const live: SquareState[] = [];
+  for (const candidate of await searchOrdersByReference(stuck.order_number, locationId, since, square)) {
+    const candidateInvoice = await findInvoiceForOrder(candidate, locationId, square);
+    if (candidateInvoice?.status !== 'CANCELED') {
+      live.push({ order: candidate, invoice: candidateInvoice });
+    }
+  }
+
+  if (live.length > 1) {
+    return {
+      order: null,
+      invoice: null,
+      problem: `Square has ${live.length} orders for order #${stuck.order_number}: ${live.map((state) => state.order!.id).join(', ')}`,
+    };
+  }
+  return live[0] ?? { order: null, invoice: null };
+}
+
+// ============================================================================
+// Verdicts
+// ============================================================================
+
+/**
+ * Settle a stuck order from what Square has. A published invoice for the
+ * right amount completes it. Anything short of that fails it with the steps
+ * Square shows done, so sending again carries on from there under the same
+ * idempotency keys. What can't be squared with the order (a canceled or
+ * wrong-amount invoice, orders that don't line up) needs a person to look.
+ */
+function judge(stuck: StuckOrder, state: SquareState): Verdict {
+  const customerSteps = (stuck.steps_completed ?? []).filter((step) => step.startsWith('customer_'));
+  const { order, invoice } = state;
+  const attention = (reason: string): Verdict => ({ status: 'needs_attention', reason, steps: customerSteps });
+
+  if (state.problem) {
+    return attention(state.problem);
+  }
+  if (invoice && !order) {
+    return attention(`Square invoice ${invoice.id} bills order ${invoice.order_id}, which Square no longer has`);
+  }
+  if (invoice && invoice.order_id !== order!.id) {
+    return attention(`Square invoice ${invoice.id} bills order ${invoice.order_id}, not ${order!.id}`);
+  }
+
+  if (!order) {
+    return {
+      status: 'failed',
+      reason: 'Interrupted before Square had an order; sending again starts over',
+      steps: customerSteps,
+    };
+  }
+
+  const totalCents = order.total_money?.amount ?? 0;
+  const orderSteps = [
+    ...customerSteps,
+    'order_created',
+    ...(totalCents === stuck.amount_cents ? ['order_total_verified'] : []),
+  ];
+
+  if (!invoice) {
+    return {
+      status: 'failed',
+      reason: `Interrupted after creating Square order ${order.id}; sending again carries on from the invoice`,
+      steps: orderSteps,
+    };
+  }
+  if (invoice.status === 'DRAFT') {
+    return {
+      status: 'failed',
+      reason: `Interrupted before publishing Square invoice ${invoice.id}; sending again publishes it`,
+      steps: [...orderSteps, 'invoice_created'],
+    };
+  }
+  if (invoice.status === 'CANCELED') {
+    return attention(`Square invoice ${invoice.id} was published, then canceled in Square`);
+  }
+  if (totalCents !== stuck.amount_cents) {
+    return attention(
+      `Square invoice ${invoice.id} was published for ${totalCents} cents, not the ${stuck.amount_cents} cents due`
+    );
+  }
+
+  return {
+    status: 'completed',
+    reason: `Square invoice ${invoice.id} was published before the job was interrupted`,
+    steps: [...orderSteps, 'invoice_created', 'invoice_published'],
+  };
+}
+
+// ============================================================================
+// Reaping
+// ============================================================================
+
+/**
+ * Check one stuck order against Square and record the verdict on the order,
+ * its interrupted job and the audit log. If Square can't be asked, the order
+ * is left processing for the next run. Returns the decision, or null when the
+ * order moved on while Square was being checked.
+ */
+async function reapOrder(
+  supabase: ReturnType<typeof createSupabaseClient>,
+  stuck: StuckOrder,
+  square: SquareClient
+): Promise<string | null> {
+  const { data: jobs } = await supabase
+    .from('invoice_jobs')
+    .select('*')
+    .eq('processed_order_id', stuck.id)
+    .order('created_at', { ascending: false })
+    .limit(1);
+  const job = (jobs?.[0] ?? null) as LatestJob | null;
+
+  const correlationId = job?.correlation_id ?? crypto.randomUUID();
+  const locationId = stuck.square_location_id ?? job?.input?.location_id ?? Deno.env.get('SQUARE_LOCATION_ID') ?? '';
+  const since = new Date(Date.parse(job?.created_at ?? stuck.created_at) - SEARCH_MARGIN_MS).toISOString();
+  const reaper = { stuck_since: stuck.updated_at, job_id: job?.id ?? null };
+  const audit = {
+    user_id: stuck.user_id,
+    user_email: job?.user_email ?? undefined,
+    cultivera_order_number: stuck.order_number,
+    customer_name: stuck.customer_name,
+    customer_email: stuck.customer_email,
+    amount_cents: stuck.amount_cents,
+    idempotency_key: stuck.idempotency_key,
+  };
+
+  let state: SquareState;
+  try {
+    state = await findSquareState(stuck, locationId, since, square);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    await logAudit(supabase, correlationId, {
+      ...audit,
+      result: 'FAILURE',
+      error_code: 'SQUARE_API_ERROR',
+      error_message: `Could not check the stuck order in Square: ${errorMessage}`,
+      metadata: { reaper: { ...reaper, decision: 'left_processing' }, ...getSquareErrorMetadata(error) },
+    });
+    return 'left_processing';
+  }
+
+  const verdict = judge(stuck, state);
+  const customerId = state.order?.customer_id ?? stuck.square_customer_id;
+  const ids = {
+    square_customer_id: customerId,
+    square_order_id: state.order?.id ?? null,
+    square_invoice_id: state.invoice?.id ?? null,
+  };
+  const paymentRequests = state.invoice?.payment_requests ?? [];
+  const now = new Date().toISOString();
+
+  // Only if nothing touched the order since it was read as stuck
+  const { data: claimed } = await supabase
+    .from('processed_orders')
+    .update({
+      ...ids,
+      status: verdict.status,
+      steps_completed: verdict.steps,
+      error_message: verdict.status === 'completed' ? null : verdict.reason,
+      ...(verdict.status === 'completed'
+        ? {
+            completed_at: now,
+            due_date: paymentRequests[paymentRequests.length - 1]?.due_date ?? null,
+            payment_status: PAYMENT_STATUS_MAP[state.invoice!.status] ?? 'UNPAID',
+            payment_status_updated_at: now,
+          }
+        : {}),
+    })
+    .eq('id', stuck.id)
+    .eq('status', 'processing')
+    .eq('updated_at', stuck.updated_at)
+    .select('id');
+
+  if (!claimed || claimed.length === 0) {
+    return null;
+  }
+
+  if (job?.status === 'running') {
+    await supabase
+      .from('invoice_jobs')
+      .update(
+        verdict.status === 'completed'
+          ? {
+              status: 'succeeded',
+              result: {
+                ...ids,
+                invoice_number: state.invoice!.invoice_number,
+                scheduled_at: state.invoice!.scheduled_at,
+              },
+              finished_at: now,
+            }
+          : {
+              status: 'failed',
+              error: verdict.status === 'failed'
+                ? {
+                    code: 'ORDER_INTERRUPTED',
+                    message: `Sending this invoice was interrupted. Click 'Try Again' to carry on where it stopped.`,
+                    kind: 'retryable',
+                    details: [],
+                  }
+                : {
+                    code: 'ORDER_NEEDS_ATTENTION',
+                    message: `Sending this invoice was interrupted, and it needs checking in Square before it can be sent again: ${verdict.reason}`,
+                  },
+              finished_at: now,
+            }
+      )
+      .eq('id', job.id)
+      .eq('status', 'running');
+  }
+
+  await logAudit(supabase, correlationId, {
+    ...audit,
+    ...ids,
+    result: verdict.status === 'completed' ? 'SUCCESS' : verdict.status === 'failed' ? 'FAILURE' : 'NEEDS_ATTENTION',
+    error_code: verdict.status === 'failed'
+      ? 'ORDER_INTERRUPTED'
+      : verdict.status === 'needs_attention' ? 'ORDER_NEEDS_ATTENTION' : undefined,
+    error_message: verdict.status === 'completed' ? undefined : verdict.reason,
+    steps_completed: verdict.steps,
+    metadata: {
+      reaper: {
+        ...reaper,
+        decision: verdict.status,
+        reason: verdict.reason,
+        square_order_state: state.order?.state ?? null,
+        square_invoice_status: state.invoice?.status ?? null,
+      },
+    },
+  });
+
+  return verdict.status;
+}
+
+/**
+ * Release an order left pending: its job was never taken by the worker, or
+ * the request that queued it died before the job was written. Nothing was
+ * sent to Square for it, so the order is failed with whatever it had and
+ * sending again starts the job over. The job is failed first so the worker
+ * can't take it afterwards. Returns the decision, or null when the worker
+ * took the job or the order moved on.
+ */
+async function releasePendingOrder(
+  supabase: ReturnType<typeof createSupabaseClient>,
+  stuck: StuckOrder
+): Promise<string | null> {
+  const { data: jobs } = await supabase
+    .from('invoice_jobs')
+    .select('*')
+    .eq('processed_order_id', stuck.id)
+    .order('created_at', { ascending: false })
+    .limit(1);
+  const job = (jobs?.[0] ?? null) as LatestJob | null;
+  const now = new Date().toISOString();
+
+  // A running job on a pending order died before it could mark the order
+  if (job && (job.status === 'queued' || job.status === 'running')) {
+    const { data: released } = await supabase
+      .from('invoice_jobs')
+      .update({
+        status: 'failed',
+        error: {
+          code: 'ORDER_INTERRUPTED',
+          message: `Sending this invoice never started. Click 'Try Again' to send it.`,
+          kind: 'retryable',
+          details: [],
+        },
+        finished_at: now,
+      })
+      .eq('id', job.id)
+      .eq('status', job.status)
+      .select('id');
+
+    if (!released || released.length === 0) {
+      return null;
+    }
+  }
+
+  const reason = job
+    ? `Job ${job.id} was ${job.status} without being sent; sending again starts it over`
+    : 'Interrupted before its job was queued; sending again starts it over';
+
+  const { data: claimed } = await supabase
+    .from('processed_orders')
+    .update({ status: 'failed', error_message: reason })
+    .eq('id', stuck.id)
+    .eq('status', 'pending')
+    .eq('updated_at', stuck.updated_at)
+    .select('id');
+
+  if (!claimed || claimed.length === 0) {
+    return null;
+  }
+
+  await logAudit(supabase, job?.correlation_id ?? crypto.randomUUID(), {
+    user_id: stuck.user_id,
+    user_email: job?.user_email ?? undefined,
+    cultivera_order_number: stuck.order_number,
+    customer_name: stuck.customer_name,
+    customer_email: stuck.customer_email,
+    amount_cents: stuck.amount_cents,
+    idempotency_key: stuck.idempotency_key,
+    result: 'FAILURE',
+    error_code: 'ORDER_INTERRUPTED',
+    error_message: reason,
+    steps_completed: stuck.steps_completed ?? [],
+    metadata: {
+      reaper: {
+        stuck_since: stuck.updated_at,
+        job_id: job?.id ?? null,
+        job_status: job?.status ?? null,
+        decision: 'failed',
+        reason,
+      },
+    },
+  });
+
+  return 'failed';
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Settle orders left processing by a job that died between Square steps:
+ * each is checked against Square and marked completed, failed or
+ * needs_attention. Orders left pending by a job that never ran are failed
+ * so they can be sent again. Called on a schedule with the service role key. index.ts
+ * serves this; tests call it with an in-memory database.
+ */
+export async function handleRequest(
+  req: Request,
+  connectSupabase: typeof createSupabaseClient = createSupabaseClient
+): Promise<Response> {
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error('Missing required environment variables');
+    return jsonResponse({ error: 'Server configuration error' }, 500);
+  }
+
+  // Only the schedule holds the service role key
+  if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  const supabase = connectSupabase(supabaseServiceKey, supabaseUrl);
+  const square = createSquareClient({
+    accessToken: Deno.env.get('SQUARE_ACCESS_TOKEN') ?? '',
+    baseUrl: getSquareBaseUrl(),
+    apiVersion: SQUARE_API_VERSION,
+    deadline: Date.now() + SQUARE_TIME_BUDGET_MS,
+  });
+
+  const { data: stuckOrders, error } = await supabase
+    .from('processed_orders')
+    .select('*')
+    .in('status', ['pending', 'processing'])
+    .lt('updated_at', new Date(Date.now() - STUCK_AFTER_MS).toISOString())
+    .order('updated_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    console.error('Failed to list stuck orders:', error);
+    return jsonResponse({ error: 'Could not list stuck orders' }, 500);
+  }
+
+  const reaped: { order_number: string; decision: string }[] = [];
+  for (const stuck of (stuckOrders ?? []) as StuckOrder[]) {
+    try {
+      const decision = stuck.status === 'pending'
+        ? await releasePendingOrder(supabase, stuck)
+        : await reapOrder(supabase, stuck, square);
+      if (decision) {
+        reaped.push({ order_number: stuck.order_number, decision });
+      }
+    } catch (error) {
+      console.error(`Reaping order ${stuck.order_number} failed unexpectedly:`, error);
+      reaped.push({ order_number: stuck.order_number, decision: 'error' });
+    }
+  }
+
+  return jsonResponse({ reaped });
+}
@@ -0,0 +1,618 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import {
+  createSquareClient,
+  getSquareBaseUrl,
+  SquareApiError,
+  SquareClient,
+} from '../_shared/square-client.ts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface SquareOrder {
+  id: string;
+  state: string;
+  reference_id?: string; // Cultivera order number, on orders the extension created
+  created_at?: string;
+  total_money?: { amount: number };
+}
+
+interface SquareInvoice {
+  id: string;
+  status: string;
+  order_id?: string;
+  scheduled_at?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// The processed_orders columns reconciliation reads
+interface ProcessedOrder {
+  id: string;
+  order_number: string;
+  status: string;
+  amount_cents: number;
+  payment_status: string | null;
+  square_order_id: string | null;
+  square_invoice_id: string | null;
+}
+
+// missing: the database records something Square doesn't have
+// extra: Square has something the database doesn't record
+type DiscrepancyKind = 'missing' | 'extra' | 'amount_mismatch' | 'status_mismatch';
+
+interface Discrepancy {
+  kind: DiscrepancyKind;
+  record_type: 'invoice' | 'order';
+  order_number: string | null;
+  processed_order_id: string | null;
+  square_order_id: string | null;
+  square_invoice_id: string | null;
+  database_amount_cents: number | null;
+  square_amount_cents: number | null;
+  database_status: string | null;
+  square_status: string | null;
+  detail: string;
+}
+
+interface DateRange {
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+  startAt: string; // ISO, inclusive
+  endAt: string; // ISO, exclusive: midnight UTC after endDate
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SQUARE_API_VERSION = '2024-01-18';
+
+// A scheduled run with no dates checks the last week, through today
+const DEFAULT_RANGE_DAYS = 7;
+
+// Longest range one run covers, to stay inside the request time limit
+const MAX_RANGE_DAYS = 92;
+
+const SQUARE_TIME_BUDGET_MS = 100000;
+
+// Ids per processed_orders .in() filter, which travels in the request URL
+const IN_FILTER_CHUNK_SIZE = 200;
+
+// Square invoice statuses once published, as payment_status
+const PAYMENT_STATUS_MAP: Record<string, string> = {
+  UNPAID: 'UNPAID',
+  PAYMENT_PENDING: 'UNPAID',
+  SCHEDULED: 'SCHEDULED',
+  PARTIALLY_PAID: 'PARTIALLY_PAID',
+  PAID: 'PAID',
+  PARTIALLY_REFUNDED: 'PARTIALLY_REFUNDED',
+  REFUNDED: 'REFUNDED',
+  CANCELED: 'CANCELED',
+  FAILED: 'PAYMENT_FAILED',
+};
+
+// Statuses that disagree without anything being wrong: a failed scheduled
+// charge leaves the invoice UNPAID in Square, and a SCHEDULED invoice turns
+// UNPAID when Square sends it, with no webhook event for either
+const UNPAID_EQUIVALENTS = new Set(['PAYMENT_FAILED', 'SCHEDULED']);
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function jsonResponse(data: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function createSupabaseClient(serviceRoleKey: string, supabaseUrl: string) {
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+}
+
+function isValidDate(date: unknown): date is string {
+  return typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date) && !Number.isNaN(Date.parse(date));
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+/**
+ * The range to reconcile from the request body, defaulting to the last week.
+ * Returns an error message when the dates are unusable.
+ */
+function readDateRange(body: Record<string, unknown>): DateRange | string {
+  const endDate = body.end_date ?? new Date().toISOString().slice(0, 10);
+  if (!isValidDate(endDate)) {
+    return 'end_date must be a date (YYYY-MM-DD)';
+  }
+  const startDate = body.start_date ?? addDays(endDate, 1 - DEFAULT_RANGE_DAYS);
+  if (!isValidDate(startDate)) {
+    return 'start_date must be a date (YYYY-MM-DD)';
+  }
+  if (startDate > endDate) {
+    return 'start_date must not be after end_date';
+  }
+  if (addDays(startDate, MAX_RANGE_DAYS) <= endDate) {
+    return `A run covers at most ${MAX_RANGE_DAYS} days`;
+  }
+
+  return {
+    startDate,
+    endDate,
+    startAt: `${startDate}T00:00:00.000Z`,
+    endAt: `${addDays(endDate, 1)}T00:00:00.000Z`,
+  };
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    chunks.push(items.slice(start, start + size));
+  }
+  return chunks;
+}
+
+// ============================================================================
+// Square Listings
+// ============================================================================
+
+// Null when the order isn't in Square
+async function retrieveOrder(orderId: string, square: SquareClient): Promise<SquareOrder | null> {
+  try {
+    const result = await square.request(`/orders/${encodeURIComponent(orderId)}`, 'GET');
+    return (result as { order: SquareOrder }).order;
+  } catch (error) {
+    if (error instanceof SquareApiError && error.hasCode('NOT_FOUND')) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Null when the invoice was deleted in Square
+async function retrieveInvoice(invoiceId: string, square: SquareClient): Promise<SquareInvoice | null> {
+  try {
+    const result = await square.request(`/invoices/${encodeURIComponent(invoiceId)}`, 'GET');
+    return (result as { invoice: SquareInvoice }).invoice;
+  } catch (error) {
+    if (error instanceof SquareApiError && error.hasCode('NOT_FOUND')) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Orders created at the location in the range
+async function listOrders(locationId: string, range: DateRange, square: SquareClient): Promise<SquareOrder[]> {
+  const orders: SquareOrder[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const result = await square.request(
+      '/orders/search',
+      'POST',
+      {
+        location_ids: [locationId],
+        query: {
+          filter: { date_time_filter: { created_at: { start_at: range.startAt, end_at: range.endAt } } },
+          sort: { sort_field: 'CREATED_AT', sort_order: 'ASC' },
+        },
+        limit: 500,
+        cursor,
+      },
+      { readOnly: true }
+    ) as { orders?: SquareOrder[]; cursor?: string };
+
+    orders.push(...(result.orders ?? []));
+    cursor = result.cursor;
+  } while (cursor);
+
+  return orders;
+}
+
+/**
+ * Invoices created at the location in the range. Square can't filter
+ * invoices by date, so they're paged by INVOICE_SORT_DATE, newest first. That
+ * date is when the invoice was created, scheduled or published, never before
+ * it was created, so once a page ends with an invoice whose dates are all
+ * before the range, no later page holds one created in it.
+ */
+async function listInvoices(locationId: string, range: DateRange, square: SquareClient): Promise<SquareInvoice[]> {
+  const invoices: SquareInvoice[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const result = await square.request(
+      '/invoices/search',
+      'POST',
+      {
+        query: {
+          filter: { location_ids: [locationId] },
+          sort: { field: 'INVOICE_SORT_DATE', order: 'DESC' },
+        },
+        limit: 200,
+        cursor,
+      },
+      { readOnly: true }
+    ) as { invoices?: SquareInvoice[]; cursor?: string };
+
+    const page = result.invoices ?? [];
+    invoices.push(
+      ...page.filter((invoice) => (invoice.created_at ?? '') >= range.startAt && (invoice.created_at ?? '') < range.endAt)
+    );
+    const last = page[page.length - 1];
+    const lastDates = [last?.created_at, last?.updated_at, last?.scheduled_at].filter((date): date is string => !!date);
+    cursor = lastDates.length > 0 && lastDates.every((date) => date < range.startAt) ? undefined : result.cursor;
+  } while (cursor);
+
+  return invoices;
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * The Square status a processed order should have: a completed order's
+ * invoice carries its payment status, a voided order's is canceled, and an
+ * order that never finished has at most a draft
+ */
+function expectedSquareStatus(order: ProcessedOrder): string {
+  if (order.status === 'completed') {
+    return order.payment_status ?? 'UNPAID';
+  }
+  return order.status === 'voided' ? 'CANCELED' : 'DRAFT';
+}
+
+function toPaymentStatus(invoice: SquareInvoice): string {
+  return invoice.status === 'DRAFT' ? 'DRAFT' : PAYMENT_STATUS_MAP[invoice.status] ?? invoice.status;
+}
+
+function sameStatus(expected: string, actual: string): boolean {
+  const comparable = (status: string) => UNPAID_EQUIVALENTS.has(status) ? 'UNPAID' : status;
+  return comparable(expected) === comparable(actual);
+}
+
+function discrepancy(
+  kind: DiscrepancyKind,
+  recordType: 'invoice' | 'order',
+  detail: string,
+  fields: Partial<Discrepancy>
+): Discrepancy {
+  return {
+    kind,
+    record_type: recordType,
+    order_number: null,
+    processed_order_id: null,
+    square_order_id: null,
+    square_invoice_id: null,
+    database_amount_cents: null,
+    square_amount_cents: null,
+    database_status: null,
+    square_status: null,
+    detail,
+    ...fields,
+  };
+}
+
+/**
+ * Compare a Square invoice with the processed order that records it
+ */
+function compareInvoice(processed: ProcessedOrder, invoice: SquareInvoice, order: SquareOrder | null): Discrepancy[] {
+  const found: Discrepancy[] = [];
+  const ids = {
+    order_number: processed.order_number,
+    processed_order_id: processed.id,
+    square_order_id: invoice.order_id ?? null,
+    square_invoice_id: invoice.id,
+  };
+
+  if (!order) {
+    found.push(discrepancy('missing', 'order', `Square has no order ${invoice.order_id} for this invoice`, ids));
+  } else if (order.total_money?.amount !== processed.amount_cents) {
+    found.push(discrepancy('amount_mismatch', 'invoice', 'Square bills a different amount than was recorded', {
+      ...ids,
+      database_amount_cents: processed.amount_cents,
+      square_amount_cents: order.total_money?.amount ?? null,
+    }));
+  }
+
+  const expected = expectedSquareStatus(processed);
+  const actual = toPaymentStatus(invoice);
+  if (!sameStatus(expected, actual)) {
+    found.push(discrepancy('status_mismatch', 'invoice', `Recorded as ${expected}, but ${actual} in Square`, {
+      ...ids,
+      database_status: processed.status === 'completed' ? expected : processed.status,
+      square_status: invoice.status,
+    }));
+  }
+
+  return found;
+}
+
+/**
+ * Reconcile one location over the range. Square invoices are matched to
+ * processed orders by square_invoice_id, then by their order's reference_id
+ * (the order number); orders with no invoice by reference_id alone. Processed
+ * orders completed in the range that nothing matched are looked up in Square
+ * by id. Returns what didn't match and how much was compared.
+ */
+async function reconcileLocation(
+  supabase: ReturnType<typeof createSupabaseClient>,
+  locationId: string,
+  range: DateRange,
+  square: SquareClient
+): Promise<{ discrepancies: Discrepancy[]; counts: Record<string, number> }> {
+  const invoices = await listInvoices(locationId, range, square);
+  const orders = await listOrders(locationId, range, square);
+  const ordersById = new Map(orders.map((order) => [order.id, order]));
+
+  // Orders the listed invoices bill, including ones created before the range
+  for (const invoice of invoices) {
+    if (invoice.order_id && !ordersById.has(invoice.order_id)) {
+      const order = await retrieveOrder(invoice.order_id, square);
+      if (order) {
+        ordersById.set(order.id, order);
+      }
+    }
+  }
+
+  // Processed orders completed in the range, and any the Square records point at
+  const orderNumbers = [...ordersById.values()].map((order) => order.reference_id).filter((ref): ref is string => !!ref);
+  const completed = supabase
+    .from('processed_orders')
+    .select('*')
+    .gte('completed_at', range.startAt)
+    .lt('completed_at', range.endAt);
+  const queries = [
+    // Orders invoiced before migration 244 have no location; they were billed
+    // from the default one
+    locationId === Deno.env.get('SQUARE_LOCATION_ID')
+      ? completed.or(`square_location_id.eq.${locationId},square_location_id.is.null`)
+      : completed.eq('square_location_id', locationId),
+    ...chunk(invoices.map((invoice) => invoice.id), IN_FILTER_CHUNK_SIZE)
+      .map((ids) => supabase.from('processed_orders').select('*').in('square_invoice_id', ids)),
+    ...chunk(orderNumbers, IN_FILTER_CHUNK_SIZE)
+      .map((refs) => supabase.from('processed_orders').select('*').in('order_number', refs)),
+  ];
+  const processedById = new Map<string, ProcessedOrder>();
+  const completedInRange = new Set<string>();
+  for (const [index, query] of queries.entries()) {
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Could not read processed orders: ${error.message}`);
+    }
+    for (const row of (data ?? []) as ProcessedOrder[]) {
+      processedById.set(row.id, row);
+      if (index === 0) {
+        completedInRange.add(row.id);
+      }
+    }
+  }
+  const processed = [...processedById.values()];
+  const byInvoiceId = new Map(processed.filter((row) => row.square_invoice_id).map((row) => [row.square_invoice_id!, row]));
+  const byOrderNumber = new Map(processed.map((row) => [row.order_number, row]));
+
+  const discrepancies: Discrepancy[] = [];
+  const matchedRows = new Set<string>();
+  const billedOrders = new Set<string>();
+
+  for (const invoice of invoices) {
+    const order = invoice.order_id ? ordersById.get(invoice.order_id) ?? null : null;
+    if (invoice.order_id) {
+      billedOrders.add(invoice.order_id);
+    }
+    const recorded = byInvoiceId.get(invoice.id);
+
+    if (recorded) {
+      matchedRows.add(recorded.id);
+      discrepancies.push(...compareInvoice(recorded, invoice, order));
+      continue;
+    }
+
+    const sameNumber = order?.reference_id ? byOrderNumber.get(order.reference_id) : undefined;
+    // An invoice canceled by a void or a replaced attempt is history, not drift
+    if (sameNumber && invoice.status === 'CANCELED') {
+      continue;
+    }
+    discrepancies.push(discrepancy(
+      'extra',
+      'invoice',
+      sameNumber
+        ? `Order #${sameNumber.order_number} is recorded with invoice ${sameNumber.square_invoice_id ?? '(none)'}, not this one`
+        : order?.reference_id
+          ? `No processed order for order #${order.reference_id}`
+          : 'No processed order for this invoice; it was likely created in the Square Dashboard',
+      {
+        order_number: order?.reference_id ?? null,
+        processed_order_id: sameNumber?.id ?? null,
+        square_order_id: invoice.order_id ?? null,
+        square_invoice_id: invoice.id,
+        square_amount_cents: order?.total_money?.amount ?? null,
+        square_status: invoice.status,
+      }
+    ));
+  }
+
+  // Orders with our reference but no invoice: left open by a replaced attempt, or made by hand
+  for (const order of orders) {
+    if (!order.reference_id || billedOrders.has(order.id) || order.state !== 'OPEN') {
+      continue;
+    }
+    const sameNumber = byOrderNumber.get(order.reference_id);
+    if (sameNumber?.square_order_id === order.id) {
+      continue;
+    }
+    discrepancies.push(discrepancy(
+      'extra',
+      'order',
+      sameNumber
+        ? `Open order for order #${order.reference_id} with no invoice; the processed order uses ${sameNumber.square_order_id ?? '(none)'}`
+        : `Open order for order #${order.reference_id} with no invoice or processed order`,
+      {
+        order_number: order.reference_id,
+        processed_order_id: sameNumber?.id ?? null,
+        square_order_id: order.id,
+        square_amount_cents: order.total_money?.amount ?? null,
+        square_status: order.state,
+      }
+    ));
+  }
+
+  // Completed in the range but not listed: deleted, or created outside the range
+  for (const row of processed) {
+    if (!completedInRange.has(row.id) || matchedRows.has(row.id) || row.status !== 'completed' || !row.square_invoice_id) {
+      continue;
+    }
+    const invoice = await retrieveInvoice(row.square_invoice_id, square);
+    if (!invoice) {
+      discrepancies.push(discrepancy('missing', 'invoice', `Square has no invoice ${row.square_invoice_id}`, {
+        order_number: row.order_number,
+        processed_order_id: row.id,
+        square_order_id: row.square_order_id,
+        square_invoice_id: row.square_invoice_id,
+        database_amount_cents: row.amount_cents,
+        database_status: expectedSquareStatus(row),
+      }));
+      continue;
+    }
+    const order = invoice.order_id
+      ? ordersById.get(invoice.order_id) ?? await retrieveOrder(invoice.order_id, square)
+      : null;
+    discrepancies.push(...compareInvoice(row, invoice, order));
+  }
+
+  return {
+    discrepancies,
+    counts: {
+      square_invoice_count: invoices.length,
+      square_order_count: orders.length,
+      processed_order_count: processed.length,
+      discrepancy_count: discrepancies.length,
+    },
+  };
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Reconcile Square with processed_orders over a date range, for one location
+ * or every location in use. Each location gets a reconciliation_runs row, and
+ * what doesn't match is written to reconciliation_discrepancies for auditors.
+ * Called with the service role key, on a schedule or by an admin. index.ts
+ * serves this; tests call it with an in-memory database.
+ */
+export async function handleRequest(
+  req: Request,
+  connectSupabase: typeof createSupabaseClient = createSupabaseClient
+): Promise<Response> {
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error('Missing required environment variables');
+    return jsonResponse({ error: 'Server configuration error' }, 500);
+  }
+
+  // Only the schedule and admins hold the service role key
+  if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = (await req.json()) ?? {};
+  } catch {
+    // A scheduled run has no body; it checks the last week everywhere
+  }
+
+  const range = readDateRange(body);
+  if (typeof range === 'string') {
+    return jsonResponse({ error: range }, 400);
+  }
+
+  const supabase = connectSupabase(supabaseServiceKey, supabaseUrl);
+  const square = createSquareClient({
+    accessToken: Deno.env.get('SQUARE_ACCESS_TOKEN') ?? '',
+    baseUrl: getSquareBaseUrl(),
+    apiVersion: SQUARE_API_VERSION,
+    deadline: Date.now() + SQUARE_TIME_BUDGET_MS,
+  });
+
+  let locationIds: string[];
+  if (typeof body.location_id === 'string') {
+    locationIds = [body.location_id];
+  } else {
+    const { data: mappings } = await supabase.from('square_location_mappings').select('square_location_id');
+    locationIds = [
+      ...new Set([
+        Deno.env.get('SQUARE_LOCATION_ID') ?? '',
+        ...(mappings ?? []).map((mapping) => mapping.square_location_id as string),
+      ]),
+    ].filter(Boolean);
+  }
+
+  const runs: { run_id: string; location_id: string; status: string; discrepancy_count: number | null }[] = [];
+  for (const locationId of locationIds) {
+    const { data: run, error: runError } = await supabase
+      .from('reconciliation_runs')
+      .insert({
+        location_id: locationId,
+        start_date: range.startDate,
+        end_date: range.endDate,
+        status: 'running',
+      })
+      .select('id')
+      .single();
+
+    if (runError || !run) {
+      console.error('Failed to start reconciliation run:', runError);
+      return jsonResponse({ error: 'Could not start the reconciliation run' }, 500);
+    }
+
+    try {
+      const { discrepancies, counts } = await reconcileLocation(supabase, locationId, range, square);
+      if (discrepancies.length > 0) {
+        const { error } = await supabase
+          .from('reconciliation_discrepancies')
+          .insert(discrepancies.map((entry) => ({ run_id: run.id, ...entry })));
+        if (error) {
+          throw new Error(`Could not record discrepancies: ${error.message}`);
+        }
+      }
+      await supabase
+        .from('reconciliation_runs')
+        .update({ status: 'completed', ...counts, finished_at: new Date().toISOString() })
+        .eq('id', run.id);
+      runs.push({ run_id: run.id, location_id: locationId, status: 'completed', discrepancy_count: counts.discrepancy_count });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Reconciling location ${locationId} failed:`, error);
+      await supabase
+        .from('reconciliation_runs')
+        .update({ status: 'failed', error_message: errorMessage, finished_at: new Date().toISOString() })
+        .eq('id', run.id);
+      runs.push({ run_id: run.id, location_id: locationId, status: 'failed', discrepancy_count: null });
+    }
+  }
+
+  return jsonResponse({ runs });
+}
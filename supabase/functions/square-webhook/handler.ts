@@ -0,0 +1,296 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface SquareMoney {
+  amount: number;
+  currency: string;
+}
+
+interface SquareInvoice {
+  id: string;
+  version: number;
+  status: string;
+  payment_requests?: {
+    due_date?: string;
+    total_completed_amount_money?: SquareMoney;
+  }[];
+}
+
+interface SquareWebhookEvent {
+  event_id: string;
+  type: string;
+  created_at?: string;
+  data?: {
+    id?: string;
+    object?: {
+      invoice?: SquareInvoice;
+    };
+  };
+}
+
+type PaymentStatus =
+  | 'UNPAID'
+  | 'SCHEDULED'
+  | 'PARTIALLY_PAID'
+  | 'PAID'
+  | 'PARTIALLY_REFUNDED'
+  | 'REFUNDED'
+  | 'CANCELED'
+  | 'PAYMENT_FAILED';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SIGNATURE_HEADER = 'x-square-hmacsha256-signature';
+
+// Invoice events this function records; Square can be subscribed to more
+const HANDLED_EVENT_TYPES = [
+  'invoice.payment_made',
+  'invoice.canceled',
+  'invoice.scheduled_charge_failed',
+  'invoice.refunded',
+];
+
+// Square invoice statuses that map straight onto ours
+const SQUARE_STATUS_MAP: Record<string, PaymentStatus> = {
+  DRAFT: 'UNPAID',
+  UNPAID: 'UNPAID',
+  PAYMENT_PENDING: 'UNPAID',
+  SCHEDULED: 'SCHEDULED',
+  PARTIALLY_PAID: 'PARTIALLY_PAID',
+  PAID: 'PAID',
+  PARTIALLY_REFUNDED: 'PARTIALLY_REFUNDED',
+  REFUNDED: 'REFUNDED',
+  CANCELED: 'CANCELED',
+  FAILED: 'PAYMENT_FAILED',
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function jsonResponse(data: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// Compare without returning early so the time taken doesn't leak the signature
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Square signs the notification URL followed by the raw body with HMAC-SHA256,
+ * base64-encoded, using the subscription's signature key
+ */
+async function isValidSignature(
+  signature: string | null,
+  rawBody: string,
+  notificationUrl: string,
+  signatureKey: string
+): Promise<boolean> {
+  if (!signature) {
+    return false;
+  }
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(signatureKey),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const digest = await crypto.subtle.sign('HMAC', key, encoder.encode(notificationUrl + rawBody));
+  const expected = btoa(String.fromCharCode(...new Uint8Array(digest)));
+
+  return timingSafeEqual(signature, expected);
+}
+
+/**
+ * The invoice object carries the status after the event, so it's the source of
+ * truth. A failed automatic charge leaves the invoice UNPAID, so that event is
+ * recorded as PAYMENT_FAILED unless the invoice has since moved on.
+ */
+function getPaymentStatus(eventType: string, invoice: SquareInvoice): PaymentStatus | null {
+  const status = SQUARE_STATUS_MAP[invoice.status] ?? null;
+  if (eventType === 'invoice.scheduled_charge_failed' && (status === 'UNPAID' || status === null)) {
+    return 'PAYMENT_FAILED';
+  }
+  return status;
+}
+
+// ============================================================================
+// Supabase Client
+// ============================================================================
+
+function createSupabaseClient(serviceRoleKey: string, supabaseUrl: string) {
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Record a Square invoice event on its order. Square retries anything but a
+ * 2xx, so events we can't or won't apply (unknown invoices, duplicates, stale
+ * versions) are acknowledged with 200. index.ts serves this; tests call it
+ * with an in-memory database.
+ */
+export async function handleRequest(
+  req: Request,
+  connectSupabase: typeof createSupabaseClient = createSupabaseClient
+): Promise<Response> {
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  const signatureKey = Deno.env.get('SQUARE_WEBHOOK_SIGNATURE_KEY');
+  // Must match the notification URL registered with Square exactly
+  const notificationUrl = Deno.env.get('SQUARE_WEBHOOK_URL');
+
+  if (!supabaseUrl || !supabaseServiceKey || !signatureKey || !notificationUrl) {
+    console.error('Missing required environment variables');
+    return jsonResponse({ error: 'Server configuration error' }, 500);
+  }
+
+  // ========================================================================
+  // 1. Signature Verification
+  // ========================================================================
+  const rawBody = await req.text();
+  const signature = req.headers.get(SIGNATURE_HEADER);
+
+  if (!(await isValidSignature(signature, rawBody, notificationUrl, signatureKey))) {
+    console.warn('Rejected webhook with invalid signature');
+    return jsonResponse({ error: 'Invalid signature' }, 401);
+  }
+
+  let event: SquareWebhookEvent;
+  try {
+    event = JSON.parse(rawBody);
+  } catch {
+    return jsonResponse({ error: 'Invalid JSON body' }, 400);
+  }
+
+  if (!event.event_id || !event.type) {
+    return jsonResponse({ error: 'Missing event_id or type' }, 400);
+  }
+
+  if (!HANDLED_EVENT_TYPES.includes(event.type)) {
+    return jsonResponse({ received: true, ignored: 'unhandled event type' });
+  }
+
+  const invoice = event.data?.object?.invoice;
+  if (!invoice?.id) {
+    return jsonResponse({ error: 'Missing invoice in event data' }, 400);
+  }
+
+  const supabase = connectSupabase(supabaseServiceKey, supabaseUrl);
+
+  // ========================================================================
+  // 2. Find the Order
+  // ========================================================================
+  const { data: order, error: lookupError } = await supabase
+    .from('processed_orders')
+    .select('id, order_number, square_invoice_version')
+    .eq('square_invoice_id', invoice.id)
+    .maybeSingle();
+
+  if (lookupError) {
+    console.error('Order lookup failed:', lookupError);
+    return jsonResponse({ error: 'Database error' }, 500);
+  }
+
+  // ========================================================================
+  // 3. Record the Event (deduplicates Square's retries)
+  // ========================================================================
+  const { error: insertError } = await supabase
+    .from('square_webhook_events')
+    .insert({
+      event_id: event.event_id,
+      event_type: event.type,
+      square_invoice_id: invoice.id,
+      processed_order_id: order?.id ?? null,
+      payload: event,
+    });
+
+  if (insertError) {
+    if (insertError.code === '23505') {
+      return jsonResponse({ received: true, ignored: 'duplicate event' });
+    }
+    console.error('Failed to record webhook event:', insertError);
+    return jsonResponse({ error: 'Database error' }, 500);
+  }
+
+  // Invoices created outside the extension
+  if (!order) {
+    return jsonResponse({ received: true, ignored: 'unknown invoice' });
+  }
+
+  // ========================================================================
+  // 4. Update Payment Status
+  // ========================================================================
+  // Square doesn't guarantee delivery order; never let an older invoice
+  // version overwrite a newer one
+  if (order.square_invoice_version !== null && invoice.version <= order.square_invoice_version) {
+    return jsonResponse({ received: true, ignored: 'stale invoice version' });
+  }
+
+  const paymentStatus = getPaymentStatus(event.type, invoice);
+  if (!paymentStatus) {
+    console.warn(`Unrecognized Square invoice status ${invoice.status} for order ${order.order_number}`);
+    return jsonResponse({ received: true, ignored: 'unrecognized invoice status' });
+  }
+
+  // A deposit or installment schedule is one payment request per payment; the
+  // invoice is due when the last of them is
+  const paymentRequests = invoice.payment_requests ?? [];
+  const dueDate = paymentRequests[paymentRequests.length - 1]?.due_date;
+  const update: Record<string, unknown> = {
+    payment_status: paymentStatus,
+    paid_amount_cents: paymentRequests.reduce(
+      (sum, request) => sum + (request.total_completed_amount_money?.amount ?? 0),
+      0
+    ),
+    square_invoice_version: invoice.version,
+    payment_status_updated_at: new Date().toISOString(),
+  };
+  if (dueDate) {
+    update.due_date = dueDate;
+  }
+
+  const { error: updateError } = await supabase
+    .from('processed_orders')
+    .update(update)
+    .eq('id', order.id);
+
+  if (updateError) {
+    console.error('Failed to update payment status:', updateError);
+    // Forget the event so Square's retry isn't dropped as a duplicate
+    await supabase.from('square_webhook_events').delete().eq('event_id', event.event_id);
+    return jsonResponse({ error: 'Database error' }, 500);
+  }
+
+  return jsonResponse({ received: true, order_number: order.order_number, payment_status: paymentStatus });
+}
@@ -0,0 +1,114 @@
+// End-to-end tests for cancel-square-invoice: invoices are sent through the
+// real create-square-invoice handler and worker, then voided against the mock
+// Square server.
+//
+//   deno test --allow-env --allow-net supabase/functions/tests/
+
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { handleRequest } from '../cancel-square-invoice/handler.ts';
+import { Harness, lastAudit, orderRow, test, USER_TOKEN } from './harness.ts';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+interface VoidResponse {
+  success: boolean;
+  data?: { order_number: string; square_invoice_id: string; action: string };
+  error?: { code: string; message: string };
+}
+
+// A void request from the signed-in invoicer
+function voidInvoice(call: Harness['call'], overrides: Record<string, unknown> = {}) {
+  return call<VoidResponse>(
+    handleRequest,
+    {
+      order_number: '10042',
+      reason: 'Rejected at delivery',
+      request_timestamp: new Date().toISOString(),
+      ...overrides,
+    },
+    USER_TOKEN
+  );
+}
+
+// ============================================================================
+// Voids
+// ============================================================================
+
+test('cancels an unpaid invoice and marks the order voided', async ({ square, db, send, call }) => {
+  await send();
+  const invoiceId = orderRow(db).square_invoice_id!;
+
+  const { status, body } = await voidInvoice(call);
+
+  assertEquals(status, 200);
+  assertEquals(body.data!.action, 'canceled');
+  assertEquals(square.invoices.get(invoiceId)!.status, 'CANCELED');
+  const row = orderRow(db);
+  assertEquals(row.status, 'voided');
+  assertEquals(row.payment_status, 'CANCELED');
+  assertEquals(row.void_reason, 'Rejected at delivery');
+  assertEquals(lastAudit(db).result, 'VOIDED');
+});
+
+test('deletes an invoice that is still a draft', async ({ square, db, send, call }) => {
+  await send();
+  const invoiceId = orderRow(db).square_invoice_id!;
+  square.invoices.get(invoiceId)!.status = 'DRAFT';
+
+  const { status, body } = await voidInvoice(call);
+
+  assertEquals(status, 200);
+  assertEquals(body.data!.action, 'deleted');
+  assertEquals(square.invoices.has(invoiceId), false);
+  assertEquals(orderRow(db).status, 'voided');
+});
+
+// ============================================================================
+// Refusals
+// ============================================================================
+
+test('refuses an invoice with a payment against it', async ({ square, db, send, call }) => {
+  await send();
+  const invoice = square.invoices.get(orderRow(db).square_invoice_id!)!;
+  Object.assign(invoice, {
+    status: 'PARTIALLY_PAID',
+    payment_requests: [{ total_completed_amount_money: { amount: 25000, currency: 'USD' } }],
+  });
+
+  const { status, body } = await voidInvoice(call);
+
+  assertEquals(status, 409);
+  assertEquals(body.error!.code, 'INVOICE_NOT_CANCELABLE');
+  assertEquals(invoice.status, 'PARTIALLY_PAID');
+  assertEquals(square.count('POST', /\/cancel$/), 0);
+  assertEquals(orderRow(db).status, 'completed');
+  assertEquals(lastAudit(db).result, 'FAILURE');
+});
+
+test('refuses a void without a reason', async ({ square, db, send, call }) => {
+  await send();
+
+  const { status, body } = await voidInvoice(call, { reason: '   ' });
+
+  assertEquals(status, 400);
+  assertEquals(body.error!.code, 'VALIDATION_MISSING_FIELD');
+  assertEquals(square.invoices.get(orderRow(db).square_invoice_id!)!.status, 'UNPAID');
+  assertEquals(orderRow(db).status, 'completed');
+});
+
+test('refuses an order whose invoice was never sent', async ({ square, db, send, call }) => {
+  square.fail('POST', /^\/orders$/, {
+    status: 400,
+    errors: [{ category: 'INVALID_REQUEST_ERROR', code: 'INVALID_VALUE', detail: 'Line item is invalid' }],
+  });
+  await send();
+
+  const { status, body } = await voidInvoice(call);
+
+  assertEquals(status, 404);
+  assertEquals(body.error!.code, 'ORDER_NOT_FOUND');
+  assertEquals(orderRow(db).status, 'failed');
+  assertEquals(square.count('GET', /^\/invoices\//), 0);
+});
@@ -0,0 +1,322 @@
+// End-to-end tests for create-square-invoice and the process-invoice-jobs
+// worker that runs its jobs: the real handlers against the mock Square server
+// and an in-memory database.
+//
+//   deno test --allow-env --allow-net supabase/functions/tests/
+
+import { assert, assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { handleRequest as handleWorkerRequest } from '../process-invoice-jobs/handler.ts';
+import { FakeSupabase } from './fake-supabase.ts';
+import { lastAudit, orderRow, test, USER_TOKEN } from './harness.ts';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+function auditResults(db: FakeSupabase): string[] {
+  return db.table('invoice_audit_log').map((entry) => entry.result as string);
+}
+
+// ============================================================================
+// Success
+// ============================================================================
+
+test('creates the customer, order and invoice, then publishes it', async ({ square, db, send }) => {
+  const { status, body, job } = await send();
+
+  assertEquals(status, 202);
+  assertEquals(body.success, true);
+  assertEquals(body.data!.status, 'queued');
+  assertEquals(job!.status, 'succeeded');
+  assertEquals(job!.correlation_id, body.correlation_id);
+  const result = job!.result!;
+
+  const [customer] = [...square.customers.values()];
+  assertEquals(square.customers.size, 1);
+  assertEquals(customer.company_name, 'Green Leaf Cannabis LLC');
+  assertEquals(customer.reference_id, '412345');
+
+  const order = square.orders.get(result.square_order_id)!;
+  assertEquals(order.customer_id, customer.id);
+  assertEquals(order.location_id, 'LOCATION_DEFAULT');
+  assertEquals((order.total_money as { amount: number }).amount, 125000);
+
+  const invoice = square.invoices.get(result.square_invoice_id)!;
+  assertEquals(invoice.status, 'UNPAID');
+  assertEquals(invoice.order_id, order.id);
+  assertEquals(result.invoice_number, invoice.invoice_number);
+
+  const row = orderRow(db);
+  assertEquals(row.status, 'completed');
+  assertEquals(row.square_customer_id, customer.id);
+  assertEquals(row.square_invoice_id, invoice.id);
+  assertEquals(row.steps_completed, [
+    'customer_search',
+    'customer_created',
+    'order_created',
+    'order_total_verified',
+    'invoice_created',
+    'invoice_published',
+  ]);
+  assertEquals(auditResults(db), ['SUCCESS']);
+  assertEquals(db.table('invoice_audit_log')[0].correlation_id, body.correlation_id);
+
+  // Stored keys are the ones Square saw; the customer's isn't tied to the order
+  assert(row.square_keys!.order.startsWith('ord-10042-g0-'));
+  assertEquals(square.requests.find((request) => request.path === '/orders')!.body!.idempotency_key, row.square_keys!.order);
+  assert(!row.square_keys!.customer.includes('10042'));
+});
+
+test('reuses the Square customer found by email', async ({ square, db, send }) => {
+  await send();
+  const { job } = await send({ order_number: '10043' });
+
+  assertEquals(job!.status, 'succeeded');
+  assertEquals(square.customers.size, 1);
+  assertEquals(square.invoices.size, 2);
+  assert(orderRow(db, '10043').steps_completed.includes('customer_found'));
+});
+
+// ============================================================================
+// Duplicates
+// ============================================================================
+
+test('blocks a second invoice for the same order', async ({ square, db, send }) => {
+  await send();
+  const { status, body } = await send();
+
+  assertEquals(status, 409);
+  assertEquals(body.error!.code, 'DUPLICATE_ORDER');
+  assertEquals(square.orders.size, 1);
+  assertEquals(square.invoices.size, 1);
+  assertEquals(auditResults(db), ['SUCCESS', 'DUPLICATE_BLOCKED']);
+});
+
+// ============================================================================
+// Jobs
+// ============================================================================
+
+test('queues the job until a worker runs it', async ({ square, db, queue, work }) => {
+  const { status, job } = await queue();
+
+  assertEquals(status, 202);
+  assertEquals(job!.status, 'queued');
+  assertEquals(orderRow(db).status, 'pending');
+  assertEquals(square.orders.size, 0);
+
+  const again = await queue();
+  assertEquals(again.status, 409);
+  assertEquals(again.body.error!.code, 'DUPLICATE_ORDER');
+
+  await queue({ order_number: '10043' });
+  const { processed } = await work();
+
+  assertEquals(processed.map((entry) => entry.status), ['succeeded', 'succeeded']);
+  assertEquals(job!.status, 'succeeded');
+  assert(job!.started_at && job!.finished_at);
+  assertEquals(orderRow(db).status, 'completed');
+  assertEquals(orderRow(db, '10043').status, 'completed');
+  assertEquals(square.invoices.size, 2);
+});
+
+test('runs jobs only for the service role', async ({ queue, call }) => {
+  const { job } = await queue();
+
+  const { status } = await call(handleWorkerRequest, { job_id: job!.id }, USER_TOKEN);
+
+  assertEquals(status, 401);
+  assertEquals(job!.status, 'queued');
+});
+
+// ============================================================================
+// Failures and Resume
+// ============================================================================
+
+test('retries a transient Square failure within the job', async ({ square, db, send }) => {
+  square.fail('POST', /^\/orders$/, { status: 503 });
+  square.fail('POST', /^\/customers\/search$/, { status: 429 });
+
+  const { job } = await send();
+
+  assertEquals(job!.status, 'succeeded');
+  assertEquals(square.count('POST', /^\/orders$/), 1);
+  assertEquals(square.orders.size, 1);
+  assertEquals(orderRow(db).status, 'completed');
+});
+
+test('records a partial failure and resumes it without duplicating anything', async ({ square, db, send }) => {
+  // Outlasts the client's retries, so the request fails after the invoice exists
+  square.fail('POST', /^\/invoices\/[^/]+\/publish$/, { status: 503, times: 4 });
+
+  const failed = await send();
+
+  assertEquals(failed.job!.status, 'failed');
+  assertEquals(failed.job!.error!.code, 'SQUARE_PUBLISH_ERROR');
+  assertEquals(failed.job!.error!.kind, 'retryable');
+  const row = orderRow(db);
+  assertEquals(row.status, 'failed');
+  assert(row.steps_completed.includes('invoice_created'));
+  assert(!row.steps_completed.includes('invoice_published'));
+  assertEquals(lastAudit(db).metadata.square_attempts, 4);
+
+  const resumed = await send();
+
+  assertEquals(resumed.job!.status, 'succeeded');
+  assertEquals(resumed.job!.result!.square_invoice_id, row.square_invoice_id);
+  assertEquals(square.customers.size, 1);
+  assertEquals(square.orders.size, 1);
+  assertEquals(square.invoices.size, 1);
+  assertEquals(square.invoices.get(row.square_invoice_id!)!.status, 'UNPAID');
+  assertEquals(orderRow(db).status, 'completed');
+  assertEquals(auditResults(db), ['FAILURE', 'SUCCESS']);
+
+  const { metadata } = lastAudit(db);
+  assertEquals(metadata.customer_match!.matched_by, 'previous_attempt');
+  assertEquals(metadata.resumed!.square_invoice_id, row.square_invoice_id);
+  assertEquals(metadata.resumed!.replaced, null);
+});
+
+test('keeps the keys when the defaults move before a retry', async ({ square, db, send }) => {
+  db.rpcs.set('get_invoice_delivery_settings', () => [{ reminder_days: [], send_delay_days: 2 }]);
+  square.fail('POST', /^\/invoices\/[^/]+\/publish$/, { status: 503, times: 4 });
+  await send();
+  const failed = { ...orderRow(db) };
+  // A day later the same delay lands a day later, and an admin added a reminder
+  db.rpcs.set('get_invoice_delivery_settings', () => [{ reminder_days: [7], send_delay_days: 3 }]);
+
+  const { job } = await send();
+
+  assertEquals(job!.status, 'succeeded');
+  assertEquals(orderRow(db).content_hash, failed.content_hash);
+  assertEquals(orderRow(db).square_keys, failed.square_keys);
+  assertEquals(square.orders.size, 1);
+  assertEquals(square.invoices.size, 1);
+});
+
+test('retries with the keys stored for the failed attempt', async ({ square, db, send }) => {
+  square.fail('POST', /^\/invoices\/[^/]+\/publish$/, { status: 503, times: 4 });
+  await send();
+  // Keys stored before a change to how they're derived
+  const row = orderRow(db);
+  row.square_keys = { ...row.square_keys!, publish: 'pub-10042-stored' };
+
+  const { job } = await send();
+
+  assertEquals(job!.status, 'succeeded');
+  assertEquals(orderRow(db).square_keys!.publish, 'pub-10042-stored');
+  assertEquals(square.invoices.size, 1);
+});
+
+test('replaces an order whose invoice was canceled in Square since the failure', async ({ square, db, send }) => {
+  square.fail('POST', /^\/invoices\/[^/]+\/publish$/, { status: 503, times: 4 });
+  await send();
+  const failed = { ...orderRow(db) };
+  const staleInvoice = square.invoices.get(failed.square_invoice_id!)!;
+  square.invoices.set(staleInvoice.id as string, { ...staleInvoice, status: 'CANCELED' });
+
+  const { job } = await send();
+  const result = job!.result!;
+
+  assertEquals(job!.status, 'succeeded');
+  assertEquals(square.customers.size, 1);
+  assertEquals(square.orders.size, 2);
+  assertEquals(square.invoices.size, 2);
+  assert(result.square_order_id !== failed.square_order_id);
+  assertEquals(square.invoices.get(result.square_invoice_id)!.order_id, result.square_order_id);
+  assertEquals(square.invoices.get(result.square_invoice_id)!.status, 'UNPAID');
+
+  const row = orderRow(db);
+  assertEquals(row.status, 'completed');
+  assertEquals(row.square_order_id, result.square_order_id);
+  assertEquals(lastAudit(db).metadata.resumed!.replaced, failed.square_order_id);
+});
+
+test('sends a corrected resend of a failed order with new keys', async ({ square, db, send }) => {
+  square.fail('POST', /^\/invoices$/, {
+    status: 400,
+    errors: [{ category: 'INVALID_REQUEST_ERROR', code: 'INVALID_VALUE', detail: 'Line item is invalid' }],
+  });
+  await send();
+  const failed = { ...orderRow(db) };
+
+  const { job } = await send({
+    amount_cents: 100000,
+    line_items: [
+      { name: 'Blue Dream 3.5g', quantity: 80, unit: 'ea', unit_price_cents: 1250, total_cents: 100000 },
+    ],
+  });
+
+  assertEquals(job!.status, 'succeeded');
+  assertEquals(square.orders.size, 2);
+  assertEquals((square.orders.get(job!.result!.square_order_id)!.total_money as { amount: number }).amount, 100000);
+  const row = orderRow(db);
+  assert(row.content_hash !== failed.content_hash);
+  assert(row.square_keys!.order !== failed.square_keys!.order);
+  assertEquals(row.square_keys!.customer, failed.square_keys!.customer);
+  assertEquals(lastAudit(db).metadata.resumed!.content_changed, true);
+});
+
+test('reissues a voided order under a new key generation', async ({ square, db, send }) => {
+  const first = await send();
+  const voided = orderRow(db);
+  const invoice = square.invoices.get(first.job!.result!.square_invoice_id)!;
+  square.invoices.set(invoice.id as string, { ...invoice, status: 'CANCELED' });
+  Object.assign(voided, { status: 'voided', void_reason: 'Rejected at delivery' });
+
+  const { job } = await send();
+
+  assertEquals(job!.status, 'succeeded');
+  assertEquals(square.orders.size, 2);
+  assertEquals(square.invoices.size, 2);
+  assert(job!.result!.square_invoice_id !== first.job!.result!.square_invoice_id);
+  const row = orderRow(db);
+  assertEquals(row.reissue_count, 1);
+  assert(row.square_keys!.order.startsWith('ord-10042-g1-'));
+});
+
+test('reports a Square rejection as a validation error without retrying', async ({ square, db, send }) => {
+  square.fail('POST', /^\/invoices$/, {
+    status: 400,
+    errors: [{ category: 'INVALID_REQUEST_ERROR', code: 'INVALID_EMAIL_ADDRESS', detail: 'Recipient email is invalid', field: 'invoice.primary_recipient' }],
+  });
+
+  const { job } = await send();
+
+  assertEquals(job!.status, 'failed');
+  assertEquals(job!.error!.code, 'SQUARE_INVOICE_ERROR');
+  assertEquals(job!.error!.kind, 'validation');
+  assertEquals(job!.error!.details, ['Recipient email is invalid']);
+  assertEquals(square.invoices.size, 0);
+  assertEquals(orderRow(db).status, 'failed');
+  const { metadata } = lastAudit(db);
+  assertEquals(metadata.square_attempts, 1);
+  assertEquals(metadata.square_errors!.length, 1);
+});
+
+test('reports a failed customer creation as a customer error', async ({ square, db, send }) => {
+  square.fail('POST', /^\/customers$/, {
+    status: 400,
+    errors: [{ category: 'INVALID_REQUEST_ERROR', code: 'INVALID_EMAIL_ADDRESS', detail: 'Email address is invalid' }],
+  });
+
+  const { job } = await send();
+
+  assertEquals(job!.status, 'failed');
+  assertEquals(job!.error!.code, 'SQUARE_CUSTOMER_ERROR');
+  assertEquals(square.customers.size, 0);
+  assertEquals(square.orders.size, 0);
+  const row = orderRow(db);
+  assertEquals(row.status, 'failed');
+  assert(!row.steps_completed.includes('customer_created'));
+  assertEquals(lastAudit(db).error_code, 'SQUARE_CUSTOMER_ERROR');
+});
+
+test('reports rejected Square credentials as an auth error', async ({ square, db, send }) => {
+  const { status, body } = await send();
+
+  assertEquals(status, 502);
+  assertEquals(body.error!.code, 'SQUARE_CUSTOMER_ERROR');
+  assertEquals(body.error!.kind, 'auth');
+  assertEquals(square.customers.size, 0);
+  assertEquals(db.table('processed_orders').length, 0);
+}, 'some-other-token');
@@ -0,0 +1,287 @@
+// In-memory stand-in for the service role Supabase client, covering the
+// queries the edge functions make: table reads and writes through the query
+// builder, RPCs answered by the test, and auth.getUser for one signed-in user.
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type Row = Record<string, unknown>;
+type Filter = (row: Row) => boolean;
+type RpcHandler = (args: Record<string, unknown>) => unknown;
+
+interface QueryResult {
+  data: unknown;
+  error: { code: string; message: string } | null;
+}
+
+export interface FakeUser {
+  id: string;
+  email: string;
+}
+
+export interface FakeSupabase {
+  tables: Map<string, Row[]>;
+  rpcs: Map<string, RpcHandler>;
+  table(name: string): Row[];
+  from(name: string): QueryBuilder;
+  rpc(name: string, args?: Record<string, unknown>): Promise<QueryResult>;
+  auth: {
+    getUser(jwt: string): Promise<{ data: { user: FakeUser | null }; error: { message: string } | null }>;
+  };
+}
+
+// Unique columns, so a second insert fails like the database would (23505)
+const UNIQUE_COLUMNS: Record<string, string[]> = {
+  processed_orders: ['order_number'],
+  square_webhook_events: ['event_id'],
+};
+
+// Columns the migrations default that the functions read back
+const DEFAULT_COLUMNS: Record<string, Row> = {
+  processed_orders: {
+    steps_completed: [],
+    content_hash: null,
+    square_keys: null,
+    amendment_count: 0,
+    reissue_count: 0,
+    square_customer_id: null,
+    square_order_id: null,
+    square_invoice_id: null,
+    completed_at: null,
+    error_message: null,
+  },
+  invoice_jobs: {
+    result: null,
+    error: null,
+    started_at: null,
+    finished_at: null,
+  },
+};
+
+// ============================================================================
+// Query Builder
+// ============================================================================
+
+/**
+ * Collects the operation and filters, then runs when awaited. Only the
+ * builder methods the functions use are implemented.
+ */
+class QueryBuilder implements PromiseLike<QueryResult> {
+  private operation: 'select' | 'insert' | 'update' = 'select';
+  private values: Row | Row[] = {};
+  private filters: Filter[] = [];
+  private ordering: { column: string; ascending: boolean } | null = null;
+  private maxRows: number | null = null;
+  private singleRow: 'single' | 'maybeSingle' | null = null;
+  private returning = false;
+
+  constructor(private readonly rows: Row[], private readonly tableName: string) {}
+
+  select(_columns?: string): this {
+    this.returning = true;
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.operation = 'insert';
+    this.values = values;
+    return this;
+  }
+
+  update(values: Row): this {
+    this.operation = 'update';
+    this.values = values;
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  lt(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] !== null && row[column] !== undefined && String(row[column]) < String(value));
+    return this;
+  }
+
+  gte(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] !== null && row[column] !== undefined && String(row[column]) >= String(value));
+    return this;
+  }
+
+  in(column: string, values: unknown[]): this {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  ilike(column: string, pattern: string): this {
+    // Only escaped literal patterns are used, so this is a case-insensitive equals
+    const literal = pattern.replace(/\\(.)/g, '$1').toLowerCase();
+    this.filters.push((row) => String(row[column] ?? '').toLowerCase() === literal);
+    return this;
+  }
+
+  not(column: string, operator: string, value: unknown): this {
+    if (operator !== 'is' || value !== null) {
+      throw new Error(`Fake Supabase: not(${column}, ${operator}) is not supported`);
+    }
+    this.filters.push((row) => row[column] !== null && row[column] !== undefined);
+    return this;
+  }
+
+  or(conditions: string): this {
+    // Only `column.eq.value` and `column.is.null` conditions are used
+    const tests = conditions.split(',').map((condition): Filter => {
+      const [column, operator, ...rest] = condition.split('.');
+      const value = rest.join('.');
+      if (operator === 'eq') {
+        return (row) => String(row[column]) === value;
+      }
+      if (operator === 'is' && value === 'null') {
+        return (row) => row[column] === null || row[column] === undefined;
+      }
+      throw new Error(`Fake Supabase: or(${condition}) is not supported`);
+    });
+    this.filters.push((row) => tests.some((test) => test(row)));
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.ordering = { column, ascending: options.ascending ?? true };
+    return this;
+  }
+
+  limit(count: number): this {
+    this.maxRows = count;
+    return this;
+  }
+
+  single(): this {
+    this.singleRow = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.singleRow = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onFulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onRejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.run()).then(onFulfilled, onRejected);
+  }
+
+  private run(): QueryResult {
+    let affected: Row[];
+
+    if (this.operation === 'insert') {
+      const inserted: Row[] = [];
+      for (const values of Array.isArray(this.values) ? this.values : [this.values]) {
+        const conflict = (UNIQUE_COLUMNS[this.tableName] ?? []).find((column) =>
+          this.rows.some((row) => row[column] === values[column])
+        );
+        if (conflict) {
+          return { data: null, error: { code: '23505', message: `duplicate key value violates unique constraint on ${conflict}` } };
+        }
+        const now = new Date().toISOString();
+        inserted.push({
+          id: crypto.randomUUID(),
+          ...DEFAULT_COLUMNS[this.tableName],
+          created_at: now,
+          updated_at: now,
+          ...values,
+        });
+      }
+      this.rows.push(...inserted);
+      affected = inserted;
+    } else {
+      affected = this.rows.filter((row) => this.filters.every((filter) => filter(row)));
+      if (this.operation === 'update') {
+        for (const row of affected) {
+          Object.assign(row, this.values);
+        }
+      }
+    }
+
+    if (this.operation !== 'select' && !this.returning) {
+      return { data: null, error: null };
+    }
+
+    if (this.ordering) {
+      const { column, ascending } = this.ordering;
+      affected = [...affected].sort((a, b) => {
+        const order = String(a[column]).localeCompare(String(b[column]));
+        return ascending ? order : -order;
+      });
+    }
+    if (this.maxRows !== null) {
+      affected = affected.slice(0, this.maxRows);
+    }
+
+    // Copies, so later writes don't show through rows the function already read
+    const copies = affected.map((row) => structuredClone(row));
+    if (this.singleRow === 'maybeSingle' && copies.length === 0) {
+      return { data: null, error: null };
+    }
+    if (this.singleRow) {
+      return copies.length === 1
+        ? { data: copies[0], error: null }
+        : { data: null, error: { code: 'PGRST116', message: `${copies.length} rows returned for single()` } };
+    }
+    return { data: copies, error: null };
+  }
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+/**
+ * Fake client with `user` signed in under `token`. RPCs default to an
+ * authorized invoicer under every rate limit with nothing configured; tests
+ * replace entries in `rpcs` to change that.
+ */
+export function createFakeSupabase(user: FakeUser, token: string): FakeSupabase {
+  const tables = new Map<string, Row[]>();
+  const rpcs = new Map<string, RpcHandler>([
+    ['is_authorized_invoicer', () => true],
+    ['get_user_rate_limit_count', () => 0],
+    ['get_global_rate_limit_count', () => 0],
+    ['get_payment_terms', () => []],
+    ['get_invoice_delivery_settings', () => []],
+    ['get_square_location', () => []],
+  ]);
+
+  const table = (name: string): Row[] => {
+    if (!tables.has(name)) {
+      tables.set(name, []);
+    }
+    return tables.get(name)!;
+  };
+
+  return {
+    tables,
+    rpcs,
+    table,
+    from: (name) => new QueryBuilder(table(name), name),
+    rpc(name, args = {}) {
+      const handler = rpcs.get(name);
+      if (!handler) {
+        return Promise.resolve({ data: null, error: { code: '42883', message: `function ${name} does not exist` } });
+      }
+      return Promise.resolve({ data: handler(args), error: null });
+    },
+    auth: {
+      getUser(jwt) {
+        return Promise.resolve(
+          jwt === token
+            ? { data: { user }, error: null }
+            : { data: { user: null }, error: { message: 'invalid JWT' } }
+        );
+      },
+    },
+  };
+}
@@ -0,0 +1,216 @@
+// Shared setup for the end-to-end tests: the environment the functions read,
+// a fresh mock Square server and in-memory database per test, invoice
+// requests run through the real create-square-invoice handler and
+// process-invoice-jobs worker, and the rows and replies the tests check.
+
+import { assert } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { handleRequest as handleInvoiceRequest } from '../create-square-invoice/handler.ts';
+import { handleRequest as handleWorkerRequest } from '../process-invoice-jobs/handler.ts';
+import { createFakeSupabase, FakeSupabase } from './fake-supabase.ts';
+import { MockSquare, startMockSquare } from './mock-square.ts';
+
+// ============================================================================
+// Environment
+// ============================================================================
+
+export const SQUARE_TOKEN = 'test-square-token';
+export const SERVICE_ROLE_KEY = 'test-service-role-key';
+export const USER_TOKEN = 'test-user-jwt';
+export const USER = { id: '00000000-0000-4000-8000-000000000001', email: 'invoicer@example.com' };
+export const LOCATION = 'LOCATION_DEFAULT';
+
+Deno.env.set('SUPABASE_URL', 'http://supabase.invalid');
+Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', SERVICE_ROLE_KEY);
+Deno.env.set('SQUARE_ACCESS_TOKEN', SQUARE_TOKEN);
+Deno.env.set('SQUARE_LOCATION_ID', LOCATION);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// The processed_orders columns the tests read
+export interface ProcessedOrderRow {
+  id: string;
+  order_number: string;
+  status: string;
+  amount_cents: number;
+  steps_completed: string[];
+  content_hash: string | null;
+  square_keys: { customer: string; order: string; invoice: string; publish: string } | null;
+  reissue_count: number;
+  square_customer_id: string | null;
+  square_order_id: string | null;
+  square_invoice_id: string | null;
+  payment_status: string | null;
+  square_location_id: string | null;
+  void_reason?: string | null;
+  error_message: string | null;
+  completed_at: string | null;
+  updated_at: string;
+}
+
+// The invoice_jobs columns the tests read
+export interface InvoiceJobRow {
+  id: string;
+  correlation_id: string;
+  processed_order_id: string;
+  status: string;
+  result: {
+    square_customer_id: string;
+    square_order_id: string;
+    square_invoice_id: string;
+    invoice_number?: string;
+  } | null;
+  error: { code: string; message: string; kind?: string; details?: string[] } | null;
+  started_at: string | null;
+  finished_at: string | null;
+  created_at: string;
+}
+
+// The invoice_audit_log columns the tests read, with the metadata they check
+export interface AuditLogRow {
+  correlation_id: string;
+  result: string;
+  error_code?: string;
+  metadata: {
+    square_attempts?: number;
+    square_errors?: unknown[];
+    square_error_kind?: string;
+    customer_match?: { matched_by: string };
+    resumed?: { square_invoice_id?: string | null; replaced?: string | null; content_changed?: boolean };
+    reaper?: {
+      decision: string;
+      job_id: string | null;
+      job_status?: string | null;
+      square_invoice_status?: string | null;
+    };
+  };
+}
+
+// create-square-invoice's reply
+export interface InvoiceResponse {
+  success?: boolean;
+  correlation_id?: string;
+  data?: { job_id: string; status: string };
+  error?: { code: string; message: string; kind?: string };
+}
+
+export interface SendResult {
+  status: number;
+  body: InvoiceResponse;
+  job: InvoiceJobRow | undefined; // The queued job, after the worker ran it
+}
+
+// Any of the edge function handlers, which all take the client factory second
+type ServiceHandler = (req: Request, connectSupabase: never) => Promise<Response>;
+
+export interface Harness {
+  square: MockSquare;
+  db: FakeSupabase;
+  // Send an invoice request; the worker runs the job before this resolves
+  send(overrides?: Record<string, unknown>): Promise<SendResult>;
+  // Send an invoice request and leave its job queued
+  queue(overrides?: Record<string, unknown>): Promise<SendResult>;
+  // A worker run for the given job, or a scheduled one taking queued jobs
+  work(jobId?: string): Promise<{ processed: { job_id: string; status: string }[] }>;
+  // A call to another edge function, with the given body and bearer token
+  // (the service role key unless given)
+  call<T>(handler: ServiceHandler, body?: Record<string, unknown>, token?: string): Promise<{ status: number; body: T }>;
+}
+
+// ============================================================================
+// Harness
+// ============================================================================
+
+// Run a test against a fresh mock Square server and database
+export function test(name: string, fn: (harness: Harness) => Promise<void>, squareToken = SQUARE_TOKEN): void {
+  Deno.test(name, async () => {
+    const square = startMockSquare(squareToken);
+    Deno.env.set('SQUARE_BASE_URL', square.url);
+    const db = createFakeSupabase(USER, USER_TOKEN);
+
+    const call = async <T>(handler: ServiceHandler, body?: Record<string, unknown>, token = SERVICE_ROLE_KEY) => {
+      const response = await handler(
+        new Request('http://localhost/', {
+          method: 'POST',
+          headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+          body: body ? JSON.stringify(body) : undefined,
+        }),
+        (() => db) as never
+      );
+      return { status: response.status, body: await response.json() as T };
+    };
+
+    const work = async (jobId?: string) =>
+      (await call<{ processed: { job_id: string; status: string }[] }>(
+        handleWorkerRequest,
+        jobId ? { job_id: jobId } : undefined
+      )).body;
+
+    const post = async (overrides: Record<string, unknown>, runJobs: boolean): Promise<SendResult> => {
+      const response = await handleInvoiceRequest(
+        new Request('http://localhost/create-square-invoice', {
+          method: 'POST',
+          headers: { 'Authorization': `Bearer ${USER_TOKEN}`, 'Content-Type': 'application/json' },
+          body: JSON.stringify(invoiceRequest(overrides)),
+        }),
+        (() => db) as never,
+        async (jobId) => {
+          if (runJobs) {
+            await work(jobId);
+          }
+        }
+      );
+      const body = await response.json() as InvoiceResponse;
+      const job = db.table('invoice_jobs').find((entry) => entry.id === body.data?.job_id);
+      return { status: response.status, body, job: job as InvoiceJobRow | undefined };
+    };
+
+    try {
+      await fn({
+        square,
+        db,
+        send: (overrides = {}) => post(overrides, true),
+        queue: (overrides = {}) => post(overrides, false),
+        work,
+        call,
+      });
+    } finally {
+      await square.close();
+      Deno.env.delete('SQUARE_BASE_URL');
+    }
+  });
+}
+
+export function invoiceRequest(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    order_number: '10042',
+    customer_name: 'Green Leaf Cannabis LLC',
+    customer_email: 'ap@greenleaf.example',
+    amount_cents: 125000,
+    line_items: [
+      { name: 'Blue Dream 3.5g', quantity: 80, unit: 'ea', unit_price_cents: 1250, total_cents: 100000 },
+      { name: 'Sour Diesel 1g Pre-Roll', quantity: 50, unit: 'ea', unit_price_cents: 500, total_cents: 25000 },
+    ],
+    license_number: '412345',
+    request_timestamp: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// Rows
+// ============================================================================
+
+// The live row, so tests can rewrite what the database holds
+export function orderRow(db: FakeSupabase, orderNumber = '10042'): ProcessedOrderRow {
+  const row = db.table('processed_orders').find((order) => order.order_number === orderNumber);
+  assert(row, `no processed_orders row for ${orderNumber}`);
+  return row as unknown as ProcessedOrderRow;
+}
+
+export function lastAudit(db: FakeSupabase): AuditLogRow {
+  const entry = db.table('invoice_audit_log').at(-1);
+  assert(entry, 'no invoice_audit_log entries');
+  return entry as unknown as AuditLogRow;
+}
@@ -0,0 +1,348 @@
+// Local stand-in for the Square customer, order and invoice endpoints the edge
+// functions call. Keeps everything in memory, replays responses for reused
+// idempotency keys like Square does, and can be told to fail requests so the
+// retry and resume paths can be exercised.
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type Json = Record<string, unknown>;
+
+interface MockRequest {
+  method: string;
+  path: string;
+  body: Json | null;
+}
+
+interface InjectedFailure {
+  method: string;
+  path: RegExp;
+  status: number;
+  errors: Json[];
+  remaining: number;
+}
+
+export interface FailureOptions {
+  status?: number; // default 500
+  times?: number; // default 1
+  errors?: Json[];
+}
+
+export interface MockSquare {
+  url: string;
+  customers: Map<string, Json>;
+  orders: Map<string, Json>;
+  invoices: Map<string, Json>;
+  requests: MockRequest[];
+  // Fail the next `times` requests matching method and path (under /v2)
+  fail(method: string, path: RegExp, options?: FailureOptions): void;
+  // Requests that reached a handler, ignoring replays and injected failures
+  count(method: string, path: RegExp): number;
+  close(): Promise<void>;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function squareError(status: number, category: string, code: string, detail: string, field?: string): Response {
+  return json({ errors: [{ category, code, detail, field }] }, status);
+}
+
+function money(amount: number): Json {
+  return { amount, currency: 'USD' };
+}
+
+/**
+ * Price an order the way Square does for what the edge function sends:
+ * quantity × base price per line, fixed order discounts, additive percentage
+ * taxes on the discounted subtotal, then total-phase service charges
+ */
+function priceOrder(order: Json): Json {
+  const lineItems = (order.line_items as Json[] | undefined) ?? [];
+  const discounts = (order.discounts as Json[] | undefined) ?? [];
+  const taxes = (order.taxes as Json[] | undefined) ?? [];
+  const serviceCharges = (order.service_charges as Json[] | undefined) ?? [];
+  const amountOf = (entry: Json, field: string) => ((entry[field] as Json | undefined)?.amount as number) ?? 0;
+
+  const itemCents = lineItems.reduce(
+    (sum, item) => sum + Math.round(Number(item.quantity) * amountOf(item, 'base_price_money')),
+    0
+  );
+  const discountCents = discounts.reduce((sum, discount) => sum + amountOf(discount, 'amount_money'), 0);
+  const taxableCents = itemCents - discountCents;
+  const taxCents = taxes.reduce(
+    (sum, tax) => sum + Math.round((taxableCents * Number(tax.percentage)) / 100),
+    0
+  );
+  const serviceCents = serviceCharges.reduce((sum, charge) => sum + amountOf(charge, 'amount_money'), 0);
+
+  return {
+    ...order,
+    total_discount_money: money(discountCents),
+    total_tax_money: money(taxCents),
+    total_service_charge_money: money(serviceCents),
+    total_money: money(taxableCents + taxCents + serviceCents),
+  };
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+export function startMockSquare(accessToken: string): MockSquare {
+  const customers = new Map<string, Json>();
+  const orders = new Map<string, Json>();
+  const invoices = new Map<string, Json>();
+  const requests: MockRequest[] = [];
+  const handled: MockRequest[] = [];
+  const failures: InjectedFailure[] = [];
+  // Square scopes idempotency keys per endpoint; same key and body replays
+  const idempotency = new Map<string, { body: string; status: number; response: unknown }>();
+  let nextId = 1;
+  let nextInvoiceNumber = 1;
+
+  const newId = (prefix: string) => `${prefix}_${String(nextId++).padStart(6, '0')}`;
+
+  function route(method: string, path: string, body: Json | null, search: URLSearchParams): Response {
+    let match: RegExpMatchArray | null;
+
+    // Customers
+    if (method === 'POST' && path === '/customers/search') {
+      const filter = ((body?.query as Json | undefined)?.filter as Json | undefined) ?? {};
+      const email = (filter.email_address as Json | undefined)?.exact as string | undefined;
+      const reference = (filter.reference_id as Json | undefined)?.exact as string | undefined;
+      const found = [...customers.values()].filter((customer) =>
+        (email === undefined || String(customer.email_address ?? '').toLowerCase() === email.toLowerCase()) &&
+        (reference === undefined || customer.reference_id === reference)
+      );
+      return json(found.length > 0 ? { customers: found.slice(0, Number(body?.limit ?? 100)) } : {});
+    }
+    if (method === 'POST' && path === '/customers') {
+      const { idempotency_key: _key, ...fields } = body ?? {};
+      const customer = { id: newId('CUST'), ...fields, version: 0, created_at: new Date().toISOString() };
+      customers.set(customer.id, customer);
+      return json({ customer });
+    }
+    if (method === 'GET' && (match = path.match(/^\/customers\/([^/]+)$/))) {
+      const customer = customers.get(decodeURIComponent(match[1]));
+      return customer
+        ? json({ customer })
+        : squareError(404, 'INVALID_REQUEST_ERROR', 'NOT_FOUND', `Customer ${match[1]} not found`);
+    }
+
+    // Orders
+    if (method === 'POST' && path === '/orders/calculate') {
+      return json({ order: priceOrder((body?.order as Json) ?? {}) });
+    }
+    if (method === 'POST' && path === '/orders/search') {
+      // Location, customer and created_at filters; one page holds everything
+      const filter = ((body?.query as Json | undefined)?.filter as Json | undefined) ?? {};
+      const locationIds = (body?.location_ids as string[] | undefined) ?? [];
+      const customerIds = (filter.customer_filter as Json | undefined)?.customer_ids as string[] | undefined;
+      const createdAt = ((filter.date_time_filter as Json | undefined)?.created_at as Json | undefined) ?? {};
+      const found = [...orders.values()].filter((order) =>
+        locationIds.includes(order.location_id as string) &&
+        (customerIds === undefined || customerIds.includes(order.customer_id as string)) &&
+        (createdAt.start_at === undefined || (order.created_at as string) >= (createdAt.start_at as string)) &&
+        (createdAt.end_at === undefined || (order.created_at as string) < (createdAt.end_at as string))
+      );
+      return json(found.length > 0 ? { orders: found } : {});
+    }
+    if (method === 'POST' && path === '/orders') {
+      const order = priceOrder({
+        ...(body?.order as Json),
+        id: newId('ORDER'),
+        version: 1,
+        state: 'OPEN',
+        created_at: new Date().toISOString(),
+      });
+      orders.set(order.id as string, order);
+      return json({ order });
+    }
+    if (method === 'GET' && (match = path.match(/^\/orders\/([^/]+)$/))) {
+      const order = orders.get(match[1]);
+      return order
+        ? json({ order })
+        : squareError(404, 'INVALID_REQUEST_ERROR', 'NOT_FOUND', `Order ${match[1]} not found`);
+    }
+    if (method === 'PUT' && (match = path.match(/^\/orders\/([^/]+)$/))) {
+      const order = orders.get(match[1]);
+      if (!order) {
+        return squareError(404, 'INVALID_REQUEST_ERROR', 'NOT_FOUND', `Order ${match[1]} not found`);
+      }
+      const update = (body?.order as Json) ?? {};
+      if (update.version !== order.version) {
+        return squareError(400, 'INVALID_REQUEST_ERROR', 'VERSION_MISMATCH', 'Order version does not match', 'version');
+      }
+      // Only whole-field clears are modeled: every cleared entry is replaced
+      const cleared = new Set(((body?.fields_to_clear as string[] | undefined) ?? []).map((field) => field.split('[')[0]));
+      const kept = Object.fromEntries(Object.entries(order).filter(([field]) => !cleared.has(field)));
+      const updated = priceOrder({ ...kept, ...update, version: (order.version as number) + 1 });
+      orders.set(match[1], updated);
+      return json({ order: updated });
+    }
+
+    // Invoices
+    if (method === 'POST' && path === '/invoices') {
+      const fields = (body?.invoice as Json) ?? {};
+      if (!orders.has(fields.order_id as string)) {
+        return squareError(400, 'INVALID_REQUEST_ERROR', 'NOT_FOUND', `Order ${fields.order_id} not found`, 'invoice.order_id');
+      }
+      const invoice = {
+        ...fields,
+        id: newId('INV'),
+        version: 0,
+        status: 'DRAFT',
+        invoice_number: String(nextInvoiceNumber++).padStart(6, '0'),
+        created_at: new Date().toISOString(),
+      };
+      invoices.set(invoice.id, invoice);
+      return json({ invoice });
+    }
+    if (method === 'POST' && path === '/invoices/search') {
+      // Location and customer filters, INVOICE_SORT_DATE newest first, paged
+      // by `limit` with the offset as cursor
+      const filter = ((body?.query as Json | undefined)?.filter as Json | undefined) ?? {};
+      const locationIds = (filter.location_ids as string[] | undefined) ?? [];
+      const customerIds = filter.customer_ids as string[] | undefined;
+      const found = [...invoices.values()].filter((invoice) =>
+        locationIds.includes(invoice.location_id as string) &&
+        (customerIds === undefined ||
+          customerIds.includes((invoice.primary_recipient as Json | undefined)?.customer_id as string))
+      );
+      const sortDate = (invoice: Json) =>
+        (invoice.status === 'DRAFT' ? invoice.created_at : invoice.scheduled_at ?? invoice.updated_at ?? invoice.created_at) as string;
+      found.sort((a, b) => sortDate(b).localeCompare(sortDate(a)));
+      const offset = Number(body?.cursor ?? 0);
+      const limit = Number(body?.limit ?? 100);
+      const page = found.slice(offset, offset + limit);
+      const cursor = offset + limit < found.length ? { cursor: String(offset + limit) } : {};
+      return json(page.length > 0 ? { invoices: page, ...cursor } : {});
+    }
+    if (method === 'GET' && (match = path.match(/^\/invoices\/([^/]+)$/))) {
+      const invoice = invoices.get(match[1]);
+      return invoice
+        ? json({ invoice })
+        : squareError(404, 'INVALID_REQUEST_ERROR', 'NOT_FOUND', `Invoice ${match[1]} not found`);
+    }
+    if ((match = path.match(/^\/invoices\/([^/]+)(\/publish|\/cancel)?$/))) {
+      const invoice = invoices.get(match[1]);
+      if (!invoice) {
+        return squareError(404, 'INVALID_REQUEST_ERROR', 'NOT_FOUND', `Invoice ${match[1]} not found`);
+      }
+      const version = method === 'DELETE'
+        ? Number(search.get('version'))
+        : ((match[2] ? body?.version : (body?.invoice as Json | undefined)?.version) as number);
+      if (version !== invoice.version) {
+        return squareError(400, 'INVALID_REQUEST_ERROR', 'VERSION_MISMATCH', 'Invoice version does not match', 'version');
+      }
+
+      if (method === 'POST' && match[2] === '/publish') {
+        if (invoice.status !== 'DRAFT') {
+          return squareError(400, 'INVALID_REQUEST_ERROR', 'BAD_REQUEST', `Invoice is ${invoice.status}`);
+        }
+        const published = {
+          ...invoice,
+          version: version + 1,
+          status: invoice.scheduled_at ? 'SCHEDULED' : 'UNPAID',
+          updated_at: new Date().toISOString(),
+        };
+        invoices.set(match[1], published);
+        return json({ invoice: published });
+      }
+      if (method === 'POST' && match[2] === '/cancel') {
+        const canceled = { ...invoice, version: version + 1, status: 'CANCELED' };
+        invoices.set(match[1], canceled);
+        return json({ invoice: canceled });
+      }
+      if (method === 'PUT' && !match[2]) {
+        const updated = { ...invoice, ...(body?.invoice as Json), version: version + 1 };
+        invoices.set(match[1], updated);
+        return json({ invoice: updated });
+      }
+      if (method === 'DELETE' && !match[2]) {
+        if (invoice.status !== 'DRAFT') {
+          return squareError(400, 'INVALID_REQUEST_ERROR', 'BAD_REQUEST', 'Only draft invoices can be deleted');
+        }
+        invoices.delete(match[1]);
+        return json({});
+      }
+    }
+
+    return squareError(404, 'INVALID_REQUEST_ERROR', 'NOT_FOUND', `No mock for ${method} ${path}`);
+  }
+
+  const server = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen: () => {} }, async (req: Request) => {
+    const url = new URL(req.url);
+    const path = url.pathname.replace(/^\/v2/, '');
+    const text = await req.text();
+    const body = text ? JSON.parse(text) as Json : null;
+    const request = { method: req.method, path, body };
+    requests.push(request);
+
+    if (req.headers.get('Authorization') !== `Bearer ${accessToken}`) {
+      return squareError(401, 'AUTHENTICATION_ERROR', 'UNAUTHORIZED', 'The access token is not valid');
+    }
+
+    const failure = failures.find((entry) =>
+      entry.remaining > 0 && entry.method === req.method && entry.path.test(path)
+    );
+    if (failure) {
+      failure.remaining--;
+      return json({ errors: failure.errors }, failure.status);
+    }
+
+    const key = body?.idempotency_key as string | undefined;
+    const scope = `${req.method} ${path} ${key}`;
+    if (key) {
+      const previous = idempotency.get(scope);
+      if (previous && previous.body !== text) {
+        return squareError(400, 'INVALID_REQUEST_ERROR', 'IDEMPOTENCY_KEY_REUSED', 'Idempotency key reused with a different request');
+      }
+      if (previous) {
+        return json(previous.response, previous.status);
+      }
+    }
+
+    handled.push(request);
+    const response = route(req.method, path, body, url.searchParams);
+    // Like Square, only a completed request is replayed; failures can be retried
+    if (key && response.ok) {
+      idempotency.set(scope, { body: text, status: response.status, response: await response.clone().json() });
+    }
+    return response;
+  });
+
+  return {
+    url: `http://127.0.0.1:${server.addr.port}`,
+    customers,
+    orders,
+    invoices,
+    requests,
+    fail(method, path, options = {}) {
+      const status = options.status ?? 500;
+      failures.push({
+        method,
+        path,
+        status,
+        remaining: options.times ?? 1,
+        errors: options.errors ?? [
+          { category: status >= 500 ? 'API_ERROR' : 'INVALID_REQUEST_ERROR', code: status >= 500 ? 'INTERNAL_SERVER_ERROR' : 'BAD_REQUEST', detail: 'Injected failure' },
+        ],
+      });
+    },
+    count(method, path) {
+      return handled.filter((request) => request.method === method && path.test(request.path)).length;
+    },
+    close: () => server.shutdown(),
+  };
+}
@@ -0,0 +1,217 @@
+// End-to-end tests for reap-stuck-orders: invoices are sent through the real
+// create-square-invoice handler and worker, then rewound to look like the job
+// died partway, and the reaper settles them against the mock Square server.
+//
+//   deno test --allow-env --allow-net supabase/functions/tests/
+
+import { assert, assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { handleRequest } from '../reap-stuck-orders/handler.ts';
+import { FakeSupabase } from './fake-supabase.ts';
+import { Harness, InvoiceJobRow, lastAudit, orderRow, test, USER_TOKEN } from './harness.ts';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+interface ReapResponse {
+  reaped: { order_number: string; decision: string }[];
+}
+
+// A scheduled reaper run, with the given bearer token
+function reap(call: Harness['call'], token?: string) {
+  return call<ReapResponse>(handleRequest, undefined, token);
+}
+
+function jobRow(db: FakeSupabase): InvoiceJobRow {
+  const job = db.table('invoice_jobs').find((entry) => entry.processed_order_id === orderRow(db).id);
+  assert(job, 'no invoice_jobs row for 10042');
+  return job as unknown as InvoiceJobRow;
+}
+
+/**
+ * Make the order look like its job died after `steps`, last touched
+ * `minutesAgo`, with `changes` for what it failed to record
+ */
+function interrupt(db: FakeSupabase, steps: string[], minutesAgo = 30, changes: Record<string, unknown> = {}): void {
+  Object.assign(orderRow(db), {
+    status: 'processing',
+    steps_completed: steps,
+    completed_at: null,
+    payment_status: null,
+    error_message: null,
+    updated_at: new Date(Date.now() - minutesAgo * 60 * 1000).toISOString(),
+    ...changes,
+  });
+  Object.assign(jobRow(db), { status: 'running', result: null, error: null, finished_at: null });
+}
+
+/** Make the order and its queued job look `minutesAgo` old, untouched since */
+function leaveQueued(db: FakeSupabase, minutesAgo = 30): void {
+  const then = new Date(Date.now() - minutesAgo * 60 * 1000).toISOString();
+  Object.assign(orderRow(db), { updated_at: then });
+  Object.assign(jobRow(db), { created_at: then });
+}
+
+// ============================================================================
+// Verdicts
+// ============================================================================
+
+test('completes an order whose invoice was published before its job died', async ({ square, db, send, call }) => {
+  await send();
+  const invoiceId = orderRow(db).square_invoice_id;
+  interrupt(db, ['customer_search', 'customer_created', 'order_created', 'order_total_verified', 'invoice_created']);
+
+  const { status, body } = await reap(call);
+
+  assertEquals(status, 200);
+  assertEquals(body.reaped, [{ order_number: '10042', decision: 'completed' }]);
+  const row = orderRow(db);
+  assertEquals(row.status, 'completed');
+  assertEquals(row.payment_status, 'UNPAID');
+  assertEquals(row.steps_completed.at(-1), 'invoice_published');
+  assert(row.completed_at);
+
+  const job = jobRow(db);
+  assertEquals(job.status, 'succeeded');
+  assertEquals(job.result!.square_invoice_id, invoiceId);
+  assertEquals(job.result!.invoice_number, square.invoices.get(invoiceId!)!.invoice_number);
+
+  const audit = lastAudit(db);
+  assertEquals(audit.result, 'SUCCESS');
+  assertEquals(audit.correlation_id, job.correlation_id);
+  assertEquals(audit.metadata.reaper!.decision, 'completed');
+  assertEquals(audit.metadata.reaper!.square_invoice_status, 'UNPAID');
+});
+
+test('finds an unrecorded order by its number so a resend carries on from it', async ({ square, db, send, call }) => {
+  square.fail('POST', /^\/invoices$/, { status: 400 });
+  await send();
+  const orderId = orderRow(db).square_order_id;
+  assert(orderId);
+  // Died after creating the order, before recording it
+  interrupt(db, ['customer_search', 'customer_created'], 30, { square_order_id: null });
+
+  const { body } = await reap(call);
+
+  assertEquals(body.reaped, [{ order_number: '10042', decision: 'failed' }]);
+  const row = orderRow(db);
+  assertEquals(row.status, 'failed');
+  assertEquals(row.square_order_id, orderId);
+  assertEquals(row.steps_completed, ['customer_search', 'customer_created', 'order_created', 'order_total_verified']);
+  assertEquals(jobRow(db).error!.code, 'ORDER_INTERRUPTED');
+  assertEquals(lastAudit(db).result, 'FAILURE');
+  assertEquals(lastAudit(db).metadata.reaper!.decision, 'failed');
+
+  const resent = await send();
+  assertEquals(resent.job!.status, 'succeeded');
+  assertEquals(orderRow(db).status, 'completed');
+  assertEquals(square.count('POST', /^\/orders$/), 1);
+  assertEquals(square.count('POST', /^\/invoices$/), 1);
+});
+
+test('holds an order whose invoice was canceled in Square for attention', async ({ square, db, send, call }) => {
+  await send();
+  const invoice = square.invoices.get(orderRow(db).square_invoice_id!)!;
+  invoice.status = 'CANCELED';
+  interrupt(db, ['customer_search', 'customer_created', 'order_created', 'order_total_verified', 'invoice_created']);
+
+  const { body } = await reap(call);
+
+  assertEquals(body.reaped, [{ order_number: '10042', decision: 'needs_attention' }]);
+  const row = orderRow(db);
+  assertEquals(row.status, 'needs_attention');
+  assert(row.error_message!.includes('canceled in Square'));
+  assertEquals(jobRow(db).status, 'failed');
+  assertEquals(jobRow(db).error!.code, 'ORDER_NEEDS_ATTENTION');
+  assertEquals(lastAudit(db).result, 'NEEDS_ATTENTION');
+
+  // Resending waits for an admin to resolve it
+  const resent = await send();
+  assertEquals(resent.body.error!.code, 'ORDER_NEEDS_ATTENTION');
+  assertEquals(square.count('POST', /^\/orders$/), 1);
+});
+
+// ============================================================================
+// Never Sent
+// ============================================================================
+
+test('fails an order whose job never ran so it can be sent again', async ({ square, db, send, queue, work, call }) => {
+  const queued = await queue();
+  assertEquals(orderRow(db).status, 'pending');
+  leaveQueued(db);
+
+  const { body } = await reap(call);
+
+  assertEquals(body.reaped, [{ order_number: '10042', decision: 'failed' }]);
+  assertEquals(orderRow(db).status, 'failed');
+  const job = jobRow(db);
+  assertEquals(job.status, 'failed');
+  assertEquals(job.error!.code, 'ORDER_INTERRUPTED');
+  assertEquals(lastAudit(db).result, 'FAILURE');
+  assertEquals(lastAudit(db).metadata.reaper!.job_status, 'queued');
+
+  // The worker can't take the released job afterwards
+  await work(queued.job!.id);
+  assertEquals(square.count('POST', /^\/orders$/), 0);
+
+  const resent = await send();
+  assertEquals(resent.job!.status, 'succeeded');
+  assertEquals(orderRow(db).status, 'completed');
+  assertEquals(square.count('POST', /^\/orders$/), 1);
+});
+
+test('fails an order left pending without a job', async ({ db, queue, call }) => {
+  await queue();
+  leaveQueued(db);
+  const jobs = db.table('invoice_jobs');
+  jobs.splice(0, jobs.length);
+
+  const { body } = await reap(call);
+
+  assertEquals(body.reaped, [{ order_number: '10042', decision: 'failed' }]);
+  assertEquals(orderRow(db).status, 'failed');
+  assertEquals(lastAudit(db).metadata.reaper!.job_id, null);
+});
+
+// ============================================================================
+// Left Alone
+// ============================================================================
+
+test('leaves orders still moving, and ones Square cannot be asked about', async ({ square, db, send, call }) => {
+  await send();
+  const steps = ['customer_search', 'customer_created', 'order_created', 'order_total_verified', 'invoice_created'];
+
+  interrupt(db, steps, 2);
+  assertEquals((await reap(call)).body.reaped, []);
+  assertEquals(orderRow(db).status, 'processing');
+
+  // Queued moments ago, waiting on the worker
+  interrupt(db, [], 2, { status: 'pending' });
+  Object.assign(jobRow(db), { status: 'queued' });
+  assertEquals((await reap(call)).body.reaped, []);
+  assertEquals(orderRow(db).status, 'pending');
+  assertEquals(jobRow(db).status, 'queued');
+  const auditCount = db.table('invoice_audit_log').length;
+
+  interrupt(db, steps);
+  square.fail('GET', /^\/invoices\//, { status: 401 });
+  const { body } = await reap(call);
+
+  assertEquals(body.reaped, [{ order_number: '10042', decision: 'left_processing' }]);
+  assertEquals(orderRow(db).status, 'processing');
+  assertEquals(jobRow(db).status, 'running');
+  assertEquals(db.table('invoice_audit_log').length, auditCount + 1);
+  assertEquals(lastAudit(db).result, 'FAILURE');
+  assertEquals(lastAudit(db).metadata.reaper!.decision, 'left_processing');
+  assertEquals(lastAudit(db).metadata.square_error_kind, 'auth');
+});
+
+test('reaps only for the service role', async ({ db, send, call }) => {
+  await send();
+  interrupt(db, ['customer_search', 'customer_created']);
+
+  const { status } = await reap(call, USER_TOKEN);
+
+  assertEquals(status, 401);
+  assertEquals(orderRow(db).status, 'processing');
+});
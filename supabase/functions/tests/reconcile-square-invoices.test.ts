@@ -0,0 +1,161 @@
+// End-to-end tests for reconcile-square-invoices: invoices are sent through the
+// real create-square-invoice handler and worker, Square is then changed behind
+// the database's back, and the report is checked against the mock Square server.
+//
+//   deno test --allow-env --allow-net supabase/functions/tests/
+
+import { assert, assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { handleRequest } from '../reconcile-square-invoices/handler.ts';
+import { FakeSupabase } from './fake-supabase.ts';
+import { Harness, LOCATION, orderRow, test, USER_TOKEN } from './harness.ts';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+interface ReconcileResponse {
+  runs: { location_id: string; run_id: string; discrepancy_count: number }[];
+}
+
+// A reconciliation run, with the given body and bearer token
+function reconcile(call: Harness['call'], body?: Record<string, unknown>, token?: string) {
+  return call<ReconcileResponse>(handleRequest, body, token);
+}
+
+// The discrepancies a run recorded, as kind, record type and order number
+function findings(db: FakeSupabase, runId: string): string[] {
+  return db.table('reconciliation_discrepancies')
+    .filter((entry) => entry.run_id === runId)
+    .map((entry) => `${entry.kind} ${entry.record_type} ${entry.order_number ?? '-'}`)
+    .sort();
+}
+
+// ============================================================================
+// Reports
+// ============================================================================
+
+test('reports nothing when Square matches the database', async ({ db, send, call }) => {
+  await send();
+
+  const { status, body } = await reconcile(call);
+
+  assertEquals(status, 200);
+  assertEquals(body.runs.length, 1);
+  assertEquals(body.runs[0].location_id, LOCATION);
+  assertEquals(body.runs[0].discrepancy_count, 0);
+  const run = db.table('reconciliation_runs').find((entry) => entry.id === body.runs[0].run_id)!;
+  assertEquals(run.status, 'completed');
+  assertEquals(run.square_invoice_count, 1);
+  assertEquals(run.square_order_count, 1);
+  assertEquals(run.processed_order_count, 1);
+  assert(run.finished_at);
+});
+
+test('reports invoices and orders changed by hand in Square', async ({ square, db, send, call }) => {
+  await send();
+  // Canceled in the Square Dashboard without a void
+  square.invoices.get(orderRow(db).square_invoice_id!)!.status = 'CANCELED';
+  // Invoiced by hand, and an open order left carrying the order number
+  const now = new Date().toISOString();
+  square.orders.set('ORDER_BY_HAND', {
+    id: 'ORDER_BY_HAND', location_id: LOCATION, state: 'OPEN', created_at: now, total_money: { amount: 5000, currency: 'USD' },
+  });
+  square.invoices.set('INV_BY_HAND', {
+    id: 'INV_BY_HAND', order_id: 'ORDER_BY_HAND', location_id: LOCATION, status: 'UNPAID', created_at: now,
+  });
+  square.orders.set('ORDER_STRAY', {
+    id: 'ORDER_STRAY', location_id: LOCATION, state: 'OPEN', reference_id: '10042', created_at: now,
+    total_money: { amount: 125000, currency: 'USD' },
+  });
+
+  const { body } = await reconcile(call);
+
+  assertEquals(body.runs[0].discrepancy_count, 3);
+  assertEquals(findings(db, body.runs[0].run_id), [
+    'extra invoice -',
+    'extra order 10042',
+    'status_mismatch invoice 10042',
+  ]);
+  const mismatch = db.table('reconciliation_discrepancies').find((entry) => entry.kind === 'status_mismatch')!;
+  assertEquals(mismatch.database_status, 'UNPAID');
+  assertEquals(mismatch.square_status, 'CANCELED');
+  assertEquals(mismatch.processed_order_id, orderRow(db).id);
+});
+
+test('reports amounts that differ and invoices Square no longer has', async ({ square, db, send, call }) => {
+  await send({ order_number: '10042' });
+  await send({ order_number: '10043' });
+  orderRow(db, '10042').amount_cents = 120000;
+  square.invoices.delete(orderRow(db, '10043').square_invoice_id!);
+
+  const { body } = await reconcile(call, { location_id: LOCATION });
+
+  assertEquals(findings(db, body.runs[0].run_id), ['amount_mismatch invoice 10042', 'missing invoice 10043']);
+  const amounts = db.table('reconciliation_discrepancies').find((entry) => entry.kind === 'amount_mismatch')!;
+  assertEquals(amounts.database_amount_cents, 120000);
+  assertEquals(amounts.square_amount_cents, 125000);
+});
+
+test('checks orders invoiced before locations were recorded against the default one', async ({ square, db, send, call }) => {
+  await send();
+  orderRow(db).square_location_id = null;
+  square.invoices.delete(orderRow(db).square_invoice_id!);
+
+  const { body } = await reconcile(call);
+
+  assertEquals(findings(db, body.runs[0].run_id), ['missing invoice 10042']);
+});
+
+test('treats a failed charge and a sent scheduled invoice as unpaid', async ({ square, db, send, call }) => {
+  await send({ order_number: '10042' });
+  await send({ order_number: '10043' });
+  // The webhook recorded a failed scheduled charge; Square leaves the invoice UNPAID
+  orderRow(db, '10042').payment_status = 'PAYMENT_FAILED';
+  // Published as SCHEDULED, then sent by Square without an event
+  orderRow(db, '10043').payment_status = 'SCHEDULED';
+  square.invoices.get(orderRow(db, '10043').square_invoice_id!)!.status = 'UNPAID';
+
+  const { body } = await reconcile(call);
+
+  assertEquals(findings(db, body.runs[0].run_id), []);
+});
+
+test('pages past invoices sorted ahead of the range by their scheduled date', async ({ square, db, send, call }) => {
+  // A full page of old invoices scheduled to go out next year sorts first
+  for (let index = 0; index < 200; index++) {
+    square.invoices.set(`INV_OLD_${index}`, {
+      id: `INV_OLD_${index}`,
+      location_id: LOCATION,
+      status: 'SCHEDULED',
+      created_at: '2020-01-01T00:00:00.000Z',
+      scheduled_at: '2099-01-01T00:00:00.000Z',
+    });
+  }
+  await send();
+
+  const { body } = await reconcile(call);
+
+  const run = db.table('reconciliation_runs').find((entry) => entry.id === body.runs[0].run_id)!;
+  assertEquals(run.square_invoice_count, 1);
+  assertEquals(body.runs[0].discrepancy_count, 0);
+});
+
+test('checks only the requested dates', async ({ db, send, call }) => {
+  await send();
+
+  const { body } = await reconcile(call, { start_date: '2020-01-01', end_date: '2020-01-31' });
+
+  const run = db.table('reconciliation_runs').find((entry) => entry.id === body.runs[0].run_id)!;
+  assertEquals([run.start_date, run.end_date], ['2020-01-01', '2020-01-31']);
+  assertEquals(run.square_invoice_count, 0);
+  assertEquals(run.processed_order_count, 0);
+  assertEquals(body.runs[0].discrepancy_count, 0);
+});
+
+test('rejects unusable dates and callers without the service role', async ({ db, call }) => {
+  assertEquals((await reconcile(call, { start_date: '2026-02-01', end_date: '2026-01-01' })).status, 400);
+  assertEquals((await reconcile(call, { start_date: '2025-01-01', end_date: '2026-01-01' })).status, 400);
+  assertEquals((await reconcile(call, { end_date: 'soon' })).status, 400);
+  assertEquals((await reconcile(call, {}, USER_TOKEN)).status, 401);
+  assertEquals(db.table('reconciliation_runs').length, 0);
+});
@@ -0,0 +1,91 @@
+// Tests for square-webhook: signed Square invoice events against an in-memory
+// database.
+//
+//   deno test --allow-env --allow-net supabase/functions/tests/
+
+import { assertEquals } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { handleRequest } from '../square-webhook/handler.ts';
+import { createFakeSupabase, FakeSupabase } from './fake-supabase.ts';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+const SIGNATURE_KEY = 'test-signature-key';
+const WEBHOOK_URL = 'https://example.supabase.co/functions/v1/square-webhook';
+const USER = { id: '00000000-0000-4000-8000-000000000001', email: 'invoicer@example.com' };
+
+Deno.env.set('SUPABASE_URL', 'http://supabase.invalid');
+Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', 'test-service-role-key');
+Deno.env.set('SQUARE_WEBHOOK_SIGNATURE_KEY', SIGNATURE_KEY);
+Deno.env.set('SQUARE_WEBHOOK_URL', WEBHOOK_URL);
+
+// Sign the body the way Square does: HMAC-SHA256 of the URL and body, base64
+async function sign(body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(SIGNATURE_KEY),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const digest = await crypto.subtle.sign('HMAC', key, encoder.encode(WEBHOOK_URL + body));
+  return btoa(String.fromCharCode(...new Uint8Array(digest)));
+}
+
+async function deliver(db: FakeSupabase, event: Record<string, unknown>): Promise<Response> {
+  const body = JSON.stringify(event);
+  return await handleRequest(
+    new Request(WEBHOOK_URL, {
+      method: 'POST',
+      headers: { 'x-square-hmacsha256-signature': await sign(body), 'Content-Type': 'application/json' },
+      body,
+    }),
+    (() => db) as unknown as Parameters<typeof handleRequest>[1]
+  );
+}
+
+// ============================================================================
+// Payment Schedules
+// ============================================================================
+
+Deno.test('totals payments across installments and keeps the final due date', async () => {
+  const db = createFakeSupabase(USER, 'unused');
+  db.table('processed_orders').push({
+    id: 'order-1',
+    order_number: '10042',
+    status: 'completed',
+    square_invoice_id: 'INV_1',
+    square_invoice_version: 1,
+    payment_status: 'UNPAID',
+    paid_amount_cents: 0,
+    due_date: '2026-12-01',
+  });
+
+  const response = await deliver(db, {
+    event_id: 'event-1',
+    type: 'invoice.payment_made',
+    data: {
+      id: 'INV_1',
+      object: {
+        invoice: {
+          id: 'INV_1',
+          version: 3,
+          status: 'PARTIALLY_PAID',
+          payment_requests: [
+            { due_date: '2026-11-01', total_completed_amount_money: { amount: 30000, currency: 'USD' } },
+            { due_date: '2026-12-01', total_completed_amount_money: { amount: 20000, currency: 'USD' } },
+          ],
+        },
+      },
+    },
+  });
+
+  assertEquals(response.status, 200);
+  const [order] = db.table('processed_orders');
+  assertEquals(order.payment_status, 'PARTIALLY_PAID');
+  assertEquals(order.paid_amount_cents, 50000);
+  assertEquals(order.due_date, '2026-12-01');
+  assertEquals(order.square_invoice_version, 3);
+});
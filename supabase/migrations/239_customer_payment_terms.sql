@@ -0,0 +1,130 @@
+-- Migration 239: Per-customer payment terms
+-- Replaces the hard-coded Net 30 due date with terms looked up by license
+-- number or email, falling back to a default row
+
+-- ============================================================================
+-- Table: customer_payment_terms
+-- ============================================================================
+-- One row per customer, matched by license number or email. The single row
+-- with is_default = true applies to everyone else.
+CREATE TABLE IF NOT EXISTS public.customer_payment_terms (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    customer_email TEXT,
+    license_number TEXT,
+    is_default BOOLEAN NOT NULL DEFAULT false,
+    terms TEXT NOT NULL CHECK (terms IN ('COD', 'NET_15', 'NET_30', 'NET_45')),
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Every row is either the default or keyed to a customer
+    CONSTRAINT payment_terms_has_key CHECK (
+        is_default OR customer_email IS NOT NULL OR license_number IS NOT NULL
+    )
+);
+
+-- Emails are matched case-insensitively
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customer_payment_terms_email
+    ON public.customer_payment_terms(lower(customer_email))
+    WHERE customer_email IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customer_payment_terms_license
+    ON public.customer_payment_terms(license_number)
+    WHERE license_number IS NOT NULL;
+
+-- Only one default
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customer_payment_terms_default
+    ON public.customer_payment_terms(is_default)
+    WHERE is_default;
+
+-- Net 30 stays the default until someone changes it
+INSERT INTO public.customer_payment_terms (is_default, terms, notes)
+VALUES (true, 'NET_30', 'Default for customers without their own terms')
+ON CONFLICT DO NOTHING;
+
+-- RLS policies for customer_payment_terms
+ALTER TABLE public.customer_payment_terms ENABLE ROW LEVEL SECURITY;
+
+-- Authorized invoicers can view terms
+CREATE POLICY "Authorized invoicers can view payment terms"
+    ON public.customer_payment_terms
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.authorized_invoicers ai
+            WHERE ai.user_id = auth.uid()
+            AND ai.revoked_at IS NULL
+        )
+    );
+
+-- Admins can manage terms (same admin role as authorizations)
+CREATE POLICY "Admins can manage payment terms"
+    ON public.customer_payment_terms
+    FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.authorized_invoicers ai
+            WHERE ai.user_id = auth.uid()
+            AND ai.role = 'auditor'
+            AND ai.revoked_at IS NULL
+        )
+    );
+
+CREATE TRIGGER update_customer_payment_terms_updated_at
+    BEFORE UPDATE ON public.customer_payment_terms
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- Record the terms each invoice was sent with
+-- ============================================================================
+ALTER TABLE public.processed_orders
+    ADD COLUMN IF NOT EXISTS payment_terms TEXT;
+
+ALTER TABLE public.invoice_audit_log
+    ADD COLUMN IF NOT EXISTS payment_terms TEXT;
+
+-- ============================================================================
+-- Helper RPC Functions
+-- ============================================================================
+
+-- Resolve a customer's payment terms: license number first (it identifies the
+-- licensee even when the buyer's email changes), then email, then the default
+CREATE OR REPLACE FUNCTION public.get_payment_terms(
+    check_customer_email TEXT,
+    check_license_number TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    terms TEXT,
+    source TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT matched.terms, matched.source
+    FROM (
+        SELECT cpt.terms, 'license'::TEXT AS source, 1 AS priority
+        FROM public.customer_payment_terms cpt
+        WHERE check_license_number IS NOT NULL
+        AND cpt.license_number = check_license_number
+        UNION ALL
+        SELECT cpt.terms, 'email'::TEXT, 2
+        FROM public.customer_payment_terms cpt
+        WHERE check_customer_email IS NOT NULL
+        AND lower(cpt.customer_email) = lower(check_customer_email)
+        UNION ALL
+        SELECT cpt.terms, 'default'::TEXT, 3
+        FROM public.customer_payment_terms cpt
+        WHERE cpt.is_default
+        UNION ALL
+        SELECT 'NET_30'::TEXT, 'default'::TEXT, 4
+    ) matched
+    ORDER BY matched.priority
+    LIMIT 1;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_payment_terms(TEXT, TEXT) TO authenticated;
@@ -0,0 +1,89 @@
+-- Migration 240: Invoice delivery settings
+-- Organization defaults for payment reminders and delayed invoice sends.
+-- The popup can change both for a single invoice.
+
+-- ============================================================================
+-- Table: invoice_delivery_settings
+-- ============================================================================
+-- Single row (id is always true)
+CREATE TABLE IF NOT EXISTS public.invoice_delivery_settings (
+    id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+    -- Days relative to the due date: -3 = 3 days before, 0 = on the due date, 7 = 7 days overdue
+    reminder_days INTEGER[] NOT NULL DEFAULT '{-3,0,7}',
+    -- Days after the invoice is created that Square emails it (0 = immediately)
+    send_delay_days INTEGER NOT NULL DEFAULT 0,
+    updated_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Square allows at most 5 reminders per payment request
+    CONSTRAINT reminder_days_limit CHECK (cardinality(reminder_days) <= 5),
+    CONSTRAINT reminder_days_range CHECK (-90 <= ALL(reminder_days) AND 90 >= ALL(reminder_days)),
+    CONSTRAINT send_delay_days_range CHECK (send_delay_days BETWEEN 0 AND 90)
+);
+
+INSERT INTO public.invoice_delivery_settings (id)
+VALUES (true)
+ON CONFLICT DO NOTHING;
+
+-- RLS policies for invoice_delivery_settings
+ALTER TABLE public.invoice_delivery_settings ENABLE ROW LEVEL SECURITY;
+
+-- Authorized invoicers can view the defaults
+CREATE POLICY "Authorized invoicers can view delivery settings"
+    ON public.invoice_delivery_settings
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.authorized_invoicers ai
+            WHERE ai.user_id = auth.uid()
+            AND ai.revoked_at IS NULL
+        )
+    );
+
+-- Admins can change the defaults (same admin role as authorizations)
+CREATE POLICY "Admins can manage delivery settings"
+    ON public.invoice_delivery_settings
+    FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.authorized_invoicers ai
+            WHERE ai.user_id = auth.uid()
+            AND ai.role = 'auditor'
+            AND ai.revoked_at IS NULL
+        )
+    );
+
+CREATE TRIGGER update_invoice_delivery_settings_updated_at
+    BEFORE UPDATE ON public.invoice_delivery_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- Helper RPC Functions
+-- ============================================================================
+
+-- Get the delivery defaults, falling back to the built-in ones if the row is missing
+CREATE OR REPLACE FUNCTION public.get_invoice_delivery_settings()
+RETURNS TABLE (
+    reminder_days INTEGER[],
+    send_delay_days INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT settings.reminder_days, settings.send_delay_days
+    FROM (
+        SELECT ids.reminder_days, ids.send_delay_days, 1 AS priority
+        FROM public.invoice_delivery_settings ids
+        UNION ALL
+        SELECT '{-3,0,7}'::INTEGER[], 0, 2
+    ) settings
+    ORDER BY settings.priority
+    LIMIT 1;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_invoice_delivery_settings() TO authenticated;
@@ -0,0 +1,111 @@
+-- Migration 241: Invoice payment status from Square webhooks
+-- processed_orders.status stops at 'completed' once the invoice is published.
+-- The square-webhook function keeps the payment side up to date.
+
+-- ============================================================================
+-- Payment columns on processed_orders
+-- ============================================================================
+ALTER TABLE public.processed_orders
+    ADD COLUMN IF NOT EXISTS due_date DATE,
+    ADD COLUMN IF NOT EXISTS payment_status TEXT CHECK (payment_status IN (
+        'UNPAID',
+        'SCHEDULED',
+        'PARTIALLY_PAID',
+        'PAID',
+        'PARTIALLY_REFUNDED',
+        'REFUNDED',
+        'CANCELED',
+        'PAYMENT_FAILED'
+    )),
+    ADD COLUMN IF NOT EXISTS paid_amount_cents INTEGER,
+    -- Square invoice version of the last webhook applied, so late deliveries can't roll status back
+    ADD COLUMN IF NOT EXISTS square_invoice_version INTEGER,
+    ADD COLUMN IF NOT EXISTS payment_status_updated_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_processed_orders_square_invoice_id
+    ON public.processed_orders(square_invoice_id);
+
+-- ============================================================================
+-- Table: square_webhook_events
+-- ============================================================================
+-- Every verified webhook, for deduplication (Square retries deliveries) and auditing
+CREATE TABLE IF NOT EXISTS public.square_webhook_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_id TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    square_invoice_id TEXT,
+    processed_order_id UUID REFERENCES public.processed_orders(id),
+    payload JSONB NOT NULL,
+    received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT unique_square_webhook_event UNIQUE (event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_square_webhook_events_invoice_id
+    ON public.square_webhook_events(square_invoice_id);
+
+-- RLS policies for square_webhook_events
+ALTER TABLE public.square_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Auditors can view webhook events
+CREATE POLICY "Auditors can view webhook events"
+    ON public.square_webhook_events
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.authorized_invoicers ai
+            WHERE ai.user_id = auth.uid()
+            AND ai.role = 'auditor'
+            AND ai.revoked_at IS NULL
+        )
+    );
+
+-- Only the square-webhook Edge Function (service role) can insert events
+-- This is handled by the service role key used by the Edge Function
+
+-- ============================================================================
+-- Helper RPC Functions
+-- ============================================================================
+
+-- get_processed_order gains payment columns; the return type changes, so drop first
+DROP FUNCTION IF EXISTS public.get_processed_order(TEXT);
+
+-- Get processed order details, including payment state. Unpaid and partially
+-- paid invoices past their due date report OVERDUE.
+CREATE OR REPLACE FUNCTION public.get_processed_order(check_order_number TEXT)
+RETURNS TABLE (
+    order_number TEXT,
+    status TEXT,
+    square_invoice_id TEXT,
+    completed_at TIMESTAMPTZ,
+    customer_name TEXT,
+    amount_cents INTEGER,
+    payment_status TEXT,
+    paid_amount_cents INTEGER,
+    due_date DATE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        po.order_number,
+        po.status,
+        po.square_invoice_id,
+        po.completed_at,
+        po.customer_name,
+        po.amount_cents,
+        CASE
+            WHEN po.payment_status IN ('UNPAID', 'PARTIALLY_PAID', 'PAYMENT_FAILED')
+                AND po.due_date < CURRENT_DATE THEN 'OVERDUE'
+            ELSE po.payment_status
+        END,
+        po.paid_amount_cents,
+        po.due_date
+    FROM public.processed_orders po
+    WHERE po.order_number = check_order_number;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_processed_order(TEXT) TO authenticated;
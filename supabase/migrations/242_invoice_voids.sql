@@ -0,0 +1,51 @@
+-- Migration 242: Cancel and void invoices
+-- The cancel-square-invoice function cancels (or deletes, if still a draft)
+-- the Square invoice and marks the order voided so it can be invoiced again.
+
+-- ============================================================================
+-- Voided orders
+-- ============================================================================
+ALTER TABLE public.processed_orders
+    DROP CONSTRAINT IF EXISTS processed_orders_status_check;
+
+ALTER TABLE public.processed_orders
+    ADD CONSTRAINT processed_orders_status_check
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'voided'));
+
+ALTER TABLE public.processed_orders
+    ADD COLUMN IF NOT EXISTS voided_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS voided_by UUID REFERENCES auth.users(id),
+    ADD COLUMN IF NOT EXISTS void_reason TEXT,
+    -- Times the order was invoiced again after a void; keeps Square idempotency keys fresh
+    ADD COLUMN IF NOT EXISTS reissue_count INTEGER NOT NULL DEFAULT 0;
+
+-- ============================================================================
+-- Audit result for voids
+-- ============================================================================
+ALTER TABLE public.invoice_audit_log
+    DROP CONSTRAINT IF EXISTS invoice_audit_log_result_check;
+
+ALTER TABLE public.invoice_audit_log
+    ADD CONSTRAINT invoice_audit_log_result_check
+    CHECK (result IN (
+        'SUCCESS',
+        'FAILURE',
+        'DUPLICATE_BLOCKED',
+        'VALIDATION_FAILED',
+        'UNAUTHORIZED',
+        'AUTH_MISSING',
+        'RATE_LIMITED',
+        'REPLAY_REJECTED',
+        'VOIDED'
+    ));
+
+ALTER TABLE public.invoice_audit_log
+    ADD COLUMN IF NOT EXISTS reason TEXT;
+
+-- Every void says why
+ALTER TABLE public.invoice_audit_log
+    DROP CONSTRAINT IF EXISTS voided_requires_reason;
+
+ALTER TABLE public.invoice_audit_log
+    ADD CONSTRAINT voided_requires_reason
+    CHECK (result <> 'VOIDED' OR (reason IS NOT NULL AND length(trim(reason)) > 0));
@@ -0,0 +1,134 @@
+-- Migration 243: Invoice amendments
+-- When a Cultivera order changes after it was invoiced (short-shipped items,
+-- changed quantities), the unpaid Square order and invoice are updated in
+-- place and each change is kept here.
+
+-- ============================================================================
+-- What each order was invoiced with
+-- ============================================================================
+-- Line items and adjustments as last sent to Square, so a re-uploaded PDF can be
+-- compared against them. NULL for orders invoiced before this migration.
+ALTER TABLE public.processed_orders
+    ADD COLUMN IF NOT EXISTS line_items JSONB,
+    ADD COLUMN IF NOT EXISTS adjustments JSONB,
+    ADD COLUMN IF NOT EXISTS amendment_count INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS amended_at TIMESTAMPTZ;
+
+-- ============================================================================
+-- Table: invoice_amendments
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.invoice_amendments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    processed_order_id UUID NOT NULL REFERENCES public.processed_orders(id),
+    order_number TEXT NOT NULL,
+    amendment_number INTEGER NOT NULL,
+    amended_by UUID NOT NULL REFERENCES auth.users(id),
+    correlation_id UUID NOT NULL,
+    previous_amount_cents INTEGER NOT NULL,
+    new_amount_cents INTEGER NOT NULL,
+    previous_line_items JSONB,
+    new_line_items JSONB,
+    previous_adjustments JSONB,
+    new_adjustments JSONB,
+    square_order_id TEXT NOT NULL,
+    square_invoice_id TEXT NOT NULL,
+    -- Square versions after the update
+    square_order_version INTEGER,
+    square_invoice_version INTEGER,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT unique_amendment_number UNIQUE (processed_order_id, amendment_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_amendments_order_number
+    ON public.invoice_amendments(order_number);
+
+-- RLS policies for invoice_amendments
+ALTER TABLE public.invoice_amendments ENABLE ROW LEVEL SECURITY;
+
+-- Authorized invoicers can view amendment history
+CREATE POLICY "Authorized invoicers can view amendments"
+    ON public.invoice_amendments
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.authorized_invoicers ai
+            WHERE ai.user_id = auth.uid()
+            AND ai.revoked_at IS NULL
+        )
+    );
+
+-- Only the Edge Function (service role) can insert amendments
+-- This is handled by the service role key used by the Edge Function
+
+-- ============================================================================
+-- Audit result for amendments
+-- ============================================================================
+ALTER TABLE public.invoice_audit_log
+    DROP CONSTRAINT IF EXISTS invoice_audit_log_result_check;
+
+ALTER TABLE public.invoice_audit_log
+    ADD CONSTRAINT invoice_audit_log_result_check
+    CHECK (result IN (
+        'SUCCESS',
+        'FAILURE',
+        'DUPLICATE_BLOCKED',
+        'VALIDATION_FAILED',
+        'UNAUTHORIZED',
+        'AUTH_MISSING',
+        'RATE_LIMITED',
+        'REPLAY_REJECTED',
+        'VOIDED',
+        'AMENDED'
+    ));
+
+-- ============================================================================
+-- Helper RPC Functions
+-- ============================================================================
+
+-- get_processed_order gains what was invoiced, for the popup's amendment diff
+DROP FUNCTION IF EXISTS public.get_processed_order(TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_processed_order(check_order_number TEXT)
+RETURNS TABLE (
+    order_number TEXT,
+    status TEXT,
+    square_invoice_id TEXT,
+    completed_at TIMESTAMPTZ,
+    customer_name TEXT,
+    amount_cents INTEGER,
+    payment_status TEXT,
+    paid_amount_cents INTEGER,
+    due_date DATE,
+    line_items JSONB,
+    adjustments JSONB,
+    amendment_count INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        po.order_number,
+        po.status,
+        po.square_invoice_id,
+        po.completed_at,
+        po.customer_name,
+        po.amount_cents,
+        CASE
+            WHEN po.payment_status IN ('UNPAID', 'PARTIALLY_PAID', 'PAYMENT_FAILED')
+                AND po.due_date < CURRENT_DATE THEN 'OVERDUE'
+            ELSE po.payment_status
+        END,
+        po.paid_amount_cents,
+        po.due_date,
+        po.line_items,
+        po.adjustments,
+        po.amendment_count
+    FROM public.processed_orders po
+    WHERE po.order_number = check_order_number;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_processed_order(TEXT) TO authenticated;
@@ -0,0 +1,114 @@
+-- Migration 244: Square locations per seller
+-- Sellers billing from their own Square location are mapped by the license
+-- number or brand on the invoice letterhead. Everyone else stays on the
+-- SQUARE_LOCATION_ID secret.
+
+-- ============================================================================
+-- Table: square_location_mappings
+-- ============================================================================
+-- One row per seller, matched by license number or brand (or either)
+CREATE TABLE IF NOT EXISTS public.square_location_mappings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    seller_license TEXT,
+    brand TEXT,
+    square_location_id TEXT NOT NULL,
+    location_name TEXT NOT NULL, -- shown in the popup before sending
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT location_mapping_has_key CHECK (
+        seller_license IS NOT NULL OR brand IS NOT NULL
+    )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_square_location_mappings_license
+    ON public.square_location_mappings(seller_license)
+    WHERE seller_license IS NOT NULL;
+
+-- Brands are matched case-insensitively
+CREATE UNIQUE INDEX IF NOT EXISTS idx_square_location_mappings_brand
+    ON public.square_location_mappings(lower(brand))
+    WHERE brand IS NOT NULL;
+
+-- RLS policies for square_location_mappings
+ALTER TABLE public.square_location_mappings ENABLE ROW LEVEL SECURITY;
+
+-- Authorized invoicers can view the mappings
+CREATE POLICY "Authorized invoicers can view location mappings"
+    ON public.square_location_mappings
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.authorized_invoicers ai
+            WHERE ai.user_id = auth.uid()
+            AND ai.revoked_at IS NULL
+        )
+    );
+
+-- Admins can manage the mappings (same admin role as authorizations)
+CREATE POLICY "Admins can manage location mappings"
+    ON public.square_location_mappings
+    FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.authorized_invoicers ai
+            WHERE ai.user_id = auth.uid()
+            AND ai.role = 'auditor'
+            AND ai.revoked_at IS NULL
+        )
+    );
+
+CREATE TRIGGER update_square_location_mappings_updated_at
+    BEFORE UPDATE ON public.square_location_mappings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- Record the location each invoice was billed from
+-- ============================================================================
+-- Amendments and retries stay on this location; Square orders can't move
+ALTER TABLE public.processed_orders
+    ADD COLUMN IF NOT EXISTS square_location_id TEXT,
+    ADD COLUMN IF NOT EXISTS seller_license TEXT,
+    ADD COLUMN IF NOT EXISTS brand TEXT;
+
+-- ============================================================================
+-- Helper RPC Functions
+-- ============================================================================
+
+-- Resolve the seller's Square location: license number first (brands get
+-- renamed), then brand. No row means the default location.
+CREATE OR REPLACE FUNCTION public.get_square_location(
+    check_seller_license TEXT DEFAULT NULL,
+    check_brand TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    square_location_id TEXT,
+    location_name TEXT,
+    source TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT matched.square_location_id, matched.location_name, matched.source
+    FROM (
+        SELECT slm.square_location_id, slm.location_name, 'license'::TEXT AS source, 1 AS priority
+        FROM public.square_location_mappings slm
+        WHERE check_seller_license IS NOT NULL
+        AND slm.seller_license = check_seller_license
+        UNION ALL
+        SELECT slm.square_location_id, slm.location_name, 'brand'::TEXT, 2
+        FROM public.square_location_mappings slm
+        WHERE check_brand IS NOT NULL
+        AND lower(slm.brand) = lower(check_brand)
+    ) matched
+    ORDER BY matched.priority
+    LIMIT 1;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_square_location(TEXT, TEXT) TO authenticated;
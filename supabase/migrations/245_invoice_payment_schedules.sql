@@ -0,0 +1,11 @@
+-- Migration 245: Deposit and installment payment schedules
+-- An invoice can ask for a deposit then the balance, or split the total into
+-- installments, instead of one payment due per the customer's terms.
+
+-- ============================================================================
+-- Record the schedule each invoice was sent with
+-- ============================================================================
+-- {"type": "DEPOSIT" | "INSTALLMENTS", "payments": [{"due_date", "amount_cents"}, ...]}
+-- NULL = one payment due per payment_terms. due_date holds the last payment's date.
+ALTER TABLE public.processed_orders
+    ADD COLUMN IF NOT EXISTS payment_schedule JSONB;
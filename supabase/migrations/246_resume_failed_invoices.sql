@@ -0,0 +1,56 @@
+-- Migration 246: Resume failed invoice runs
+-- A failed order is resent from the first Square step it didn't finish. The
+-- popup reads the steps the failed attempt completed to say what it will skip.
+
+-- ============================================================================
+-- Helper RPC Functions
+-- ============================================================================
+
+-- get_processed_order gains steps_completed; the return type changes, so drop first
+DROP FUNCTION IF EXISTS public.get_processed_order(TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_processed_order(check_order_number TEXT)
+RETURNS TABLE (
+    order_number TEXT,
+    status TEXT,
+    square_invoice_id TEXT,
+    completed_at TIMESTAMPTZ,
+    customer_name TEXT,
+    amount_cents INTEGER,
+    payment_status TEXT,
+    paid_amount_cents INTEGER,
+    due_date DATE,
+    line_items JSONB,
+    adjustments JSONB,
+    amendment_count INTEGER,
+    steps_completed JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        po.order_number,
+        po.status,
+        po.square_invoice_id,
+        po.completed_at,
+        po.customer_name,
+        po.amount_cents,
+        CASE
+            WHEN po.payment_status IN ('UNPAID', 'PARTIALLY_PAID', 'PAYMENT_FAILED')
+                AND po.due_date < CURRENT_DATE THEN 'OVERDUE'
+            ELSE po.payment_status
+        END,
+        po.paid_amount_cents,
+        po.due_date,
+        po.line_items,
+        po.adjustments,
+        po.amendment_count,
+        po.steps_completed
+    FROM public.processed_orders po
+    WHERE po.order_number = check_order_number;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_processed_order(TEXT) TO authenticated;
@@ -0,0 +1,14 @@
+-- Migration 247: Content-derived Square idempotency keys
+-- create-square-invoice derives its Square idempotency keys from the order
+-- number, a hash of the invoiced content and the key generation (reissue_count),
+-- and stores them so a retry of the same content reuses them while a corrected
+-- resend or a reissue after a void gets new ones.
+
+-- ============================================================================
+-- Stored keys
+-- ============================================================================
+ALTER TABLE public.processed_orders
+    -- Hash of the invoiced content the keys were derived from
+    ADD COLUMN IF NOT EXISTS content_hash TEXT,
+    -- {customer, order, invoice, publish}: the keys Square saw for each step
+    ADD COLUMN IF NOT EXISTS square_keys JSONB;
@@ -0,0 +1,98 @@
+-- Migration 248: Asynchronous invoice jobs
+-- create-square-invoice validates a request, resolves the customer, then
+-- queues a job and returns its id; the process-invoice-jobs worker makes the
+-- Square calls. The popup polls get_invoice_job until the job ends, so the
+-- result survives the popup being closed.
+
+-- ============================================================================
+-- Table: invoice_jobs
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.invoice_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    processed_order_id UUID NOT NULL REFERENCES public.processed_orders(id),
+    order_number TEXT NOT NULL,
+    user_id UUID NOT NULL REFERENCES auth.users(id),
+    user_email TEXT,
+    -- Shared with the audit log entries the job writes
+    correlation_id UUID NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+    -- The accepted request, resolved: terms, delivery, location, customer, keys
+    input JSONB NOT NULL,
+    -- Square ids and invoice number when succeeded
+    result JSONB,
+    -- {code, message, kind, details} when failed
+    error JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    started_at TIMESTAMPTZ,
+    finished_at TIMESTAMPTZ
+);
+
+-- The worker takes the oldest queued job first
+CREATE INDEX IF NOT EXISTS idx_invoice_jobs_status_created_at
+    ON public.invoice_jobs(status, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_jobs_order_number
+    ON public.invoice_jobs(order_number);
+
+-- RLS policies for invoice_jobs
+ALTER TABLE public.invoice_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Authorized invoicers can view jobs
+CREATE POLICY "Authorized invoicers can view invoice jobs"
+    ON public.invoice_jobs
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.authorized_invoicers ai
+            WHERE ai.user_id = auth.uid()
+            AND ai.revoked_at IS NULL
+        )
+    );
+
+-- Only the Edge Functions (service role) create and update jobs
+
+-- ============================================================================
+-- Helper RPC Functions
+-- ============================================================================
+
+-- A job's status, with the Square steps its order has completed so far. Only
+-- the invoicer who queued it, or another authorized invoicer, can read it.
+CREATE OR REPLACE FUNCTION public.get_invoice_job(check_job_id UUID)
+RETURNS TABLE (
+    job_id UUID,
+    correlation_id UUID,
+    order_number TEXT,
+    status TEXT,
+    steps_completed JSONB,
+    result JSONB,
+    error JSONB,
+    created_at TIMESTAMPTZ,
+    started_at TIMESTAMPTZ,
+    finished_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        ij.id,
+        ij.correlation_id,
+        ij.order_number,
+        ij.status,
+        -- Until the worker starts, the order still shows a failed attempt's steps
+        CASE WHEN ij.status = 'queued' THEN '[]'::jsonb ELSE po.steps_completed END,
+        ij.result,
+        ij.error,
+        ij.created_at,
+        ij.started_at,
+        ij.finished_at
+    FROM public.invoice_jobs ij
+    JOIN public.processed_orders po ON po.id = ij.processed_order_id
+    WHERE ij.id = check_job_id
+    AND (ij.user_id = auth.uid() OR public.is_authorized_invoicer(auth.uid()));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_invoice_job(UUID) TO authenticated;
@@ -0,0 +1,40 @@
+-- Migration 249: Reap orders stuck in processing
+-- The reap-stuck-orders function checks orders left processing by a job that
+-- died between Square steps and marks them completed, failed or, when Square
+-- can't be squared with the order, needs_attention for an admin to resolve.
+
+-- ============================================================================
+-- Orders needing attention
+-- ============================================================================
+ALTER TABLE public.processed_orders
+    DROP CONSTRAINT IF EXISTS processed_orders_status_check;
+
+ALTER TABLE public.processed_orders
+    ADD CONSTRAINT processed_orders_status_check
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'voided', 'needs_attention'));
+
+-- The reaper looks for processing orders by how long they've gone untouched
+CREATE INDEX IF NOT EXISTS idx_processed_orders_status_updated_at
+    ON public.processed_orders(status, updated_at);
+
+-- ============================================================================
+-- Audit result for orders needing attention
+-- ============================================================================
+ALTER TABLE public.invoice_audit_log
+    DROP CONSTRAINT IF EXISTS invoice_audit_log_result_check;
+
+ALTER TABLE public.invoice_audit_log
+    ADD CONSTRAINT invoice_audit_log_result_check
+    CHECK (result IN (
+        'SUCCESS',
+        'FAILURE',
+        'DUPLICATE_BLOCKED',
+        'VALIDATION_FAILED',
+        'UNAUTHORIZED',
+        'AUTH_MISSING',
+        'RATE_LIMITED',
+        'REPLAY_REJECTED',
+        'VOIDED',
+        'AMENDED',
+        'NEEDS_ATTENTION'
+    ));
@@ -0,0 +1,91 @@
+-- Migration 250: Square reconciliation report
+-- The reconcile-square-invoices function lists a location's Square invoices
+-- and orders over a date range, matches them to processed_orders by
+-- square_invoice_id and reference_id (the order number), and records what
+-- doesn't match for auditors.
+
+-- ============================================================================
+-- Table: reconciliation_runs
+-- ============================================================================
+-- One row per location per run
+CREATE TABLE IF NOT EXISTS public.reconciliation_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    location_id TEXT NOT NULL,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'running'
+        CHECK (status IN ('running', 'completed', 'failed')),
+    -- What was compared, once completed
+    square_invoice_count INTEGER,
+    square_order_count INTEGER,
+    processed_order_count INTEGER,
+    discrepancy_count INTEGER,
+    error_message TEXT,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    finished_at TIMESTAMPTZ,
+
+    CONSTRAINT reconciliation_range_order CHECK (start_date <= end_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_started_at
+    ON public.reconciliation_runs(started_at DESC);
+
+-- ============================================================================
+-- Table: reconciliation_discrepancies
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.reconciliation_discrepancies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    run_id UUID NOT NULL REFERENCES public.reconciliation_runs(id) ON DELETE CASCADE,
+    -- missing: recorded here but not in Square; extra: in Square but not recorded here
+    kind TEXT NOT NULL
+        CHECK (kind IN ('missing', 'extra', 'amount_mismatch', 'status_mismatch')),
+    record_type TEXT NOT NULL CHECK (record_type IN ('invoice', 'order')),
+    order_number TEXT,
+    processed_order_id UUID REFERENCES public.processed_orders(id),
+    square_order_id TEXT,
+    square_invoice_id TEXT,
+    database_amount_cents INTEGER,
+    square_amount_cents INTEGER,
+    database_status TEXT,
+    square_status TEXT,
+    detail TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_discrepancies_run_id
+    ON public.reconciliation_discrepancies(run_id);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_discrepancies_order_number
+    ON public.reconciliation_discrepancies(order_number);
+
+-- RLS policies for the reconciliation tables
+ALTER TABLE public.reconciliation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reconciliation_discrepancies ENABLE ROW LEVEL SECURITY;
+
+-- Auditors can view reconciliation runs
+CREATE POLICY "Auditors can view reconciliation runs"
+    ON public.reconciliation_runs
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.authorized_invoicers ai
+            WHERE ai.user_id = auth.uid()
+            AND ai.role = 'auditor'
+            AND ai.revoked_at IS NULL
+        )
+    );
+
+-- Auditors can view reconciliation discrepancies
+CREATE POLICY "Auditors can view reconciliation discrepancies"
+    ON public.reconciliation_discrepancies
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.authorized_invoicers ai
+            WHERE ai.user_id = auth.uid()
+            AND ai.role = 'auditor'
+            AND ai.revoked_at IS NULL
+        )
+    );
+
+-- Only the Edge Function (service role) writes reconciliation results
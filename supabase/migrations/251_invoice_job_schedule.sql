@@ -0,0 +1,61 @@
+-- Migration 251: Run the invoice job worker on a schedule
+-- create-square-invoice starts the process-invoice-jobs worker for each job it
+-- queues; if that request is lost or the worker dies, the job would wait
+-- forever. pg_cron calls the worker every minute to drain whatever is queued.
+--
+-- The schedule reads the project URL and service role key from Vault. Set
+-- them once per project before applying this migration:
+--   SELECT vault.create_secret('https://your-project.supabase.co', 'project_url');
+--   SELECT vault.create_secret('your_service_role_key', 'service_role_key');
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- ============================================================================
+-- Helper Functions
+-- ============================================================================
+
+-- POST to an edge function with the service role key, for scheduled jobs
+CREATE OR REPLACE FUNCTION public.call_service_function(function_name TEXT)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    project_url TEXT;
+    service_role_key TEXT;
+BEGIN
+    SELECT decrypted_secret INTO project_url
+    FROM vault.decrypted_secrets WHERE name = 'project_url';
+    SELECT decrypted_secret INTO service_role_key
+    FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+    IF project_url IS NULL OR service_role_key IS NULL THEN
+        RAISE EXCEPTION 'Vault secrets project_url and service_role_key must be set';
+    END IF;
+
+    RETURN net.http_post(
+        url := project_url || '/functions/v1/' || function_name,
+        headers := jsonb_build_object(
+            'Authorization', 'Bearer ' || service_role_key,
+            'Content-Type', 'application/json'
+        ),
+        body := '{}'::jsonb
+    );
+END;
+$$;
+
+-- Only the scheduler (as the database owner) calls this
+REVOKE EXECUTE ON FUNCTION public.call_service_function(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- Schedule
+-- ============================================================================
+
+-- Scheduling a job name again replaces its schedule
+SELECT cron.schedule(
+    'process-invoice-jobs',
+    '* * * * *',
+    $$SELECT public.call_service_function('process-invoice-jobs')$$
+);
@@ -0,0 +1,10 @@
+-- Migration 252: Run the stuck order reaper on a schedule
+-- reap-stuck-orders settles orders left processing by a job that died, and
+-- fails orders left pending by a job the worker never took, so they can be
+-- sent again. Uses the Vault secrets and call_service_function from 251.
+
+SELECT cron.schedule(
+    'reap-stuck-orders',
+    '*/5 * * * *',
+    $$SELECT public.call_service_function('reap-stuck-orders')$$
+);